@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { ActivityIndicator, FlatList, Pressable, Text, View } from "react-native";
+import { Link } from "expo-router";
+import * as Location from "expo-location";
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { isOpenAt } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours";
+import { Container } from "@/components/container";
+import { OpenNowBadge } from "@/components/open-now-badge";
+import { useNow } from "@/lib/use-now";
+
+const RADII_KM = [1, 5, 10, 25, 50];
+
+type Row = { business: Doc<"businesses">; distanceKm?: number };
+
+export default function Businesses() {
+	const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+	const [radiusKm, setRadiusKm] = useState(5);
+	const [locating, setLocating] = useState(false);
+	const [locationError, setLocationError] = useState<string | null>(null);
+	const [openNow, setOpenNow] = useState(false);
+	const now = useNow();
+
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.business.searchBusinesses,
+		position ? "skip" : { query: "" },
+		{ initialNumItems: 20 },
+	);
+	const nearby = useQuery(
+		api.addresses.nearbyBusinesses,
+		position ? { ...position, radiusKm } : "skip",
+	);
+
+	const findNearMe = async () => {
+		setLocationError(null);
+		setLocating(true);
+		try {
+			const { status } = await Location.requestForegroundPermissionsAsync();
+			if (status !== "granted") {
+				setLocationError("Location access was denied");
+				return;
+			}
+			const { coords } = await Location.getCurrentPositionAsync({
+				accuracy: Location.Accuracy.Balanced,
+			});
+			setPosition({ latitude: coords.latitude, longitude: coords.longitude });
+		} catch {
+			setLocationError("Couldn't work out where you are");
+		} finally {
+			setLocating(false);
+		}
+	};
+
+	const allRows: Row[] | undefined = position
+		? nearby
+		: status === "LoadingFirstPage"
+			? undefined
+			: results.map((business) => ({ business }));
+	const rows = openNow ? allRows?.filter((row) => isOpenAt(row.business, now)) : allRows;
+
+	return (
+		<Container>
+			<View className="flex-row flex-wrap items-center gap-2 px-4 pt-4">
+				{position ? (
+					<>
+						{RADII_KM.map((km) => (
+							<Pressable
+								key={km}
+								onPress={() => setRadiusKm(km)}
+								className={`rounded-full border px-3 py-1 ${
+									km === radiusKm ? "border-primary bg-primary" : "border-border"
+								}`}
+							>
+								<Text
+									className={km === radiusKm ? "text-primary-foreground" : "text-foreground"}
+								>
+									{km} km
+								</Text>
+							</Pressable>
+						))}
+						<Pressable onPress={() => setPosition(null)} className="px-2 py-1">
+							<Text className="text-muted-foreground">Show all</Text>
+						</Pressable>
+					</>
+				) : (
+					<Pressable
+						onPress={findNearMe}
+						disabled={locating}
+						className="rounded-full border border-border px-3 py-1"
+					>
+						<Text className="text-foreground">{locating ? "Locating..." : "Near me"}</Text>
+					</Pressable>
+				)}
+				<Pressable
+					onPress={() => setOpenNow((value) => !value)}
+					className={`rounded-full border px-3 py-1 ${
+						openNow ? "border-primary bg-primary" : "border-border"
+					}`}
+				>
+					<Text className={openNow ? "text-primary-foreground" : "text-foreground"}>Open now</Text>
+				</Pressable>
+			</View>
+			{locationError && (
+				<Text className="px-4 pt-2 text-sm text-destructive">{locationError}</Text>
+			)}
+
+			{rows === undefined ? (
+				<ActivityIndicator className="mt-8" />
+			) : (
+				<FlatList
+					data={rows}
+					keyExtractor={(row) => row.business._id}
+					contentContainerClassName="gap-3 p-4"
+					onEndReached={() => {
+						if (!position && status === "CanLoadMore") {
+							loadMore(20);
+						}
+					}}
+					ListEmptyComponent={
+						<Text className="text-muted-foreground">
+							{openNow
+								? "Nothing open right now."
+								: position
+									? `No businesses within ${radiusKm} km.`
+									: "No businesses yet."}
+						</Text>
+					}
+					renderItem={({ item }) => (
+						<Link
+							href={{ pathname: "/business/[slug]", params: { slug: item.business.slug ?? "" } }}
+							asChild
+						>
+							<Pressable className="rounded-xl border border-border bg-card p-4">
+								<View className="flex-row items-center gap-2">
+									<Text className="text-lg font-semibold text-card-foreground">
+										{item.business.name}
+									</Text>
+									<OpenNowBadge business={item.business} now={now} />
+								</View>
+								{item.distanceKm !== undefined && (
+									<Text className="text-xs text-muted-foreground">
+										{item.distanceKm.toFixed(1)} km away
+									</Text>
+								)}
+								{item.business.description ? (
+									<Text className="mt-1 text-muted-foreground">{item.business.description}</Text>
+								) : null}
+							</Pressable>
+						</Link>
+					)}
+				/>
+			)}
+		</Container>
+	);
+}
@@ -68,6 +68,7 @@ export default function RootLayout() {
 						<Stack>
 							<Stack.Screen name="(drawer)" options={{ headerShown: false }} />
 							<Stack.Screen name="(auth)" options={{ headerShown: false }} />
+							<Stack.Screen name="business/[slug]" options={{ title: "Business" }} />
 							<Stack.Screen
 								name="modal"
 								options={{ title: "Modal", presentation: "modal" }}
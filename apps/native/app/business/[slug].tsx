@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, FlatList, Image, Pressable, Text, TextInput, View } from "react-native";
+import { Link, Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { Authenticated, Unauthenticated, useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc, Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import {
+	DAY_LABELS,
+	DAYS,
+	formatRanges,
+	hoursFromLegacy,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours";
+import { Container } from "@/components/container";
+import { OpenNowBadge } from "@/components/open-now-badge";
+import { useNow } from "@/lib/use-now";
+
+export default function BusinessScreen() {
+	const { slug } = useLocalSearchParams<{ slug: string }>();
+	const router = useRouter();
+	const result = useQuery(api.business.resolveBusinessSlug, slug ? { slug } : "skip");
+
+	// Old slugs keep working but move to the canonical screen
+	useEffect(() => {
+		if (result?.redirectTo) {
+			router.replace({ pathname: "/business/[slug]", params: { slug: result.redirectTo } });
+		}
+	}, [result?.redirectTo, router]);
+
+	if (result === undefined) {
+		return <ActivityIndicator className="mt-8" />;
+	}
+	if (result === null) {
+		return (
+			<Container>
+				<Text className="p-6 text-lg text-foreground">Business not found</Text>
+			</Container>
+		);
+	}
+	return <BusinessDetails business={result.business} />;
+}
+
+function BusinessDetails({ business }: { business: Doc<"businesses"> & { imageUrl: string | null } }) {
+	const now = useNow();
+	const summary = useQuery(api.reviews.getRating, { businessId: business._id });
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.reviews.getReviews,
+		{ businessId: business._id },
+		{ initialNumItems: 10 },
+	);
+	const hours = business.openingHours ?? hoursFromLegacy(business.openingTime, business.closingTime);
+
+	return (
+		<Container>
+			<Stack.Screen options={{ title: business.name }} />
+			<FlatList
+				data={results}
+				keyExtractor={(review) => review._id}
+				contentContainerClassName="gap-3 p-4"
+				onEndReached={() => {
+					if (status === "CanLoadMore") {
+						loadMore(10);
+					}
+				}}
+				ListHeaderComponent={
+					<View className="gap-3">
+						{business.imageUrl ? (
+							<Image source={{ uri: business.imageUrl }} className="h-48 w-full rounded-xl" resizeMode="cover" />
+						) : null}
+						<View className="flex-row items-center gap-2">
+							<Text className="text-2xl font-bold text-foreground">{business.name}</Text>
+							<OpenNowBadge business={business} now={now} />
+						</View>
+						{business.description ? (
+							<Text className="text-muted-foreground">{business.description}</Text>
+						) : null}
+						{business.address ? <Text className="text-foreground">{business.address}</Text> : null}
+						{business.phone ? <Text className="text-foreground">{business.phone}</Text> : null}
+						{hours && (
+							<View className="rounded-xl border border-border bg-card p-4">
+								{DAYS.map((day) => (
+									<View key={day} className="flex-row justify-between">
+										<Text className="font-medium text-card-foreground">{DAY_LABELS[day]}</Text>
+										<Text className="text-card-foreground">{formatRanges(hours.weekly[day])}</Text>
+									</View>
+								))}
+							</View>
+						)}
+						<View className="mt-4 flex-row items-center gap-2">
+							<Text className="text-xl font-semibold text-foreground">Reviews</Text>
+							{summary && summary.rating !== null && (
+								<Text className="text-muted-foreground">
+									{summary.rating.toFixed(1)} ★ ({summary.reviewCount})
+								</Text>
+							)}
+						</View>
+						<Authenticated>
+							<ReviewForm businessId={business._id} />
+						</Authenticated>
+						<Unauthenticated>
+							<Link href="/(auth)/sign-in">
+								<Text className="text-primary">Sign in to leave a review</Text>
+							</Link>
+						</Unauthenticated>
+					</View>
+				}
+				ListEmptyComponent={
+					status === "LoadingFirstPage" ? (
+						<ActivityIndicator />
+					) : (
+						<Text className="text-muted-foreground">No reviews yet.</Text>
+					)
+				}
+				ListFooterComponent={status === "LoadingMore" ? <ActivityIndicator /> : null}
+				renderItem={({ item }) => (
+					<View className="border-b border-border pb-3">
+						<View className="flex-row items-center gap-2">
+							<Stars value={item.stars} />
+							<Text className="font-medium text-foreground">{item.authorName}</Text>
+						</View>
+						{item.text ? <Text className="mt-1 text-foreground">{item.text}</Text> : null}
+					</View>
+				)}
+			/>
+		</Container>
+	);
+}
+
+function Stars({ value, onChange }: { value: number; onChange?: (value: number) => void }) {
+	return (
+		<View className="flex-row">
+			{[1, 2, 3, 4, 5].map((star) => (
+				<Pressable key={star} disabled={!onChange} onPress={() => onChange?.(star)} hitSlop={4}>
+					<Ionicons
+						name={star <= value ? "star" : "star-outline"}
+						size={onChange ? 28 : 14}
+						color="#facc15"
+					/>
+				</Pressable>
+			))}
+		</View>
+	);
+}
+
+function ReviewForm({ businessId }: { businessId: Id<"businesses"> }) {
+	const existing = useQuery(api.reviews.getMyReview, { businessId });
+	const saveReview = useMutation(api.reviews.saveReview);
+	const deleteReview = useMutation(api.reviews.deleteReview);
+	const [stars, setStars] = useState(0);
+	const [text, setText] = useState("");
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setStars(existing?.stars ?? 0);
+		setText(existing?.text ?? "");
+	}, [existing]);
+
+	if (existing === undefined) {
+		return null;
+	}
+
+	const run = async (action: () => Promise<unknown>) => {
+		setError(null);
+		try {
+			await action();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Something went wrong");
+		}
+	};
+
+	return (
+		<View className="gap-2 rounded-xl border border-border p-4">
+			<Text className="font-medium text-foreground">{existing ? "Your review" : "Write a review"}</Text>
+			<Stars value={stars} onChange={setStars} />
+			<TextInput
+				value={text}
+				onChangeText={setText}
+				placeholder="What was it like?"
+				multiline
+				maxLength={2000}
+				className="min-h-20 rounded-md border border-border p-2 text-foreground"
+			/>
+			{error && <Text className="text-sm text-destructive">{error}</Text>}
+			<View className="flex-row gap-2">
+				<Pressable
+					disabled={stars === 0}
+					onPress={() => run(() => saveReview({ businessId, stars, text }))}
+					className={`rounded-md bg-primary px-4 py-2 ${stars === 0 ? "opacity-50" : ""}`}
+				>
+					<Text className="text-primary-foreground">{existing ? "Update review" : "Post review"}</Text>
+				</Pressable>
+				{existing && (
+					<Pressable
+						onPress={() => run(() => deleteReview({ id: existing._id }))}
+						className="rounded-md border border-border px-4 py-2"
+					>
+						<Text className="text-foreground">Delete</Text>
+					</Pressable>
+				)}
+			</View>
+		</View>
+	);
+}
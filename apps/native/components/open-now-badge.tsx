@@ -0,0 +1,22 @@
+import { Text, View } from "react-native";
+import { isOpenAt, type OpeningHours } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours";
+
+type OpenNowBadgeProps = {
+	business: { openingHours?: OpeningHours; openingTime?: string; closingTime?: string };
+	now: Date;
+};
+
+/** "Open now" / "Closed" pill. Renders nothing for businesses without hours. */
+export const OpenNowBadge = ({ business, now }: OpenNowBadgeProps) => {
+	if (!business.openingHours && !(business.openingTime && business.closingTime)) {
+		return null;
+	}
+	const open = isOpenAt(business, now);
+	return (
+		<View className={`rounded-full px-2 py-0.5 ${open ? "bg-green-100" : "bg-muted"}`}>
+			<Text className={`text-xs font-medium ${open ? "text-green-800" : "text-muted-foreground"}`}>
+				{open ? "Open now" : "Closed"}
+			</Text>
+		</View>
+	);
+};
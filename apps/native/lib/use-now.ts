@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+/** The current time, refreshed every minute so "open now" stays correct. */
+export function useNow(intervalMs = 60_000) {
+	const [now, setNow] = useState(() => new Date());
+
+	useEffect(() => {
+		const interval = setInterval(() => setNow(new Date()), intervalMs);
+		return () => clearInterval(interval);
+	}, [intervalMs]);
+
+	return now;
+}
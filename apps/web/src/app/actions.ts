@@ -1,16 +1,40 @@
 'use server'
-import { getConvexClient } from '@/lib/convex';
+import { getAuthedConvexClient } from '@/lib/convex';
 import { api } from '@onfindr-clerk-convex-next-expo/backend/convex/_generated/api'
 import { type EditBusinessFormValues, type SubmitBusinessFormValues } from '@/lib/schema'
+import type { Id } from '@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel'
+import { type BotCheck, issueFormToken, rejectionMessage, withUserAgent } from '@/lib/bot-check'
+import { signedClientIp } from '@/lib/client-ip'
+import { rateLimitMessage } from '@/lib/rate-limit'
 
-export async function SubmitBusiness(data: SubmitBusinessFormValues) {
-    console.log(data);
-
+export async function IssueFormToken() {
+    return issueFormToken();
+}
 
-    // add to convex
-    const convex = await getConvexClient();
-    await convex.mutation(api.submittedBusinesses.addSubmittedBusiness, { business: data })
-    
+export async function SubmitBusiness(data: SubmitBusinessFormValues, imageId: Id<'_storage'> | undefined, botCheck: BotCheck) {
+    // add to convex, as the signed-in user if there is one so rate limits follow them
+    const convex = await getAuthedConvexClient();
+    let result
+    try {
+        result = await convex.mutation(api.submittedBusinesses.addSubmittedBusiness, {
+            business: { ...data, address: data.address.trim() || undefined, imageId },
+            ip: await signedClientIp(),
+            botCheck: await withUserAgent(botCheck),
+        })
+    } catch (error) {
+        const message = rateLimitMessage(error)
+        if (message) {
+            return { message, status: 'error' } as const
+        }
+        throw error
+    }
+    if (!result.ok && result.reason === 'honeypot') {
+        // Look like a success so the bot moves on
+        return { message: 'Business submitted successfully', status: 'success' } as const
+    }
+    if (!result.ok) {
+        return { message: rejectionMessage(result.reason), status: 'error' } as const
+    }
 
     return {
         message: 'Business submitted successfully',
@@ -20,24 +44,22 @@ export async function SubmitBusiness(data: SubmitBusinessFormValues) {
             description: data.description
         },
         status: 'success'
-    }
+    } as const
 }
 
-export async function EditBusiness(data: EditBusinessFormValues) {
-    console.log(data);
-
+export async function EditBusiness(id: Id<'businesses'>, data: EditBusinessFormValues) {
     // add to convex
-    const convex = await getConvexClient();
-    const slug = data.name.trim().toLowerCase().replace(/\s+/g, '-');
-    await convex.mutation(api.business.updateBusiness, { business: { ...data, slug } })
+    const convex = await getAuthedConvexClient();
+    const slug = await convex.mutation(api.business.updateBusiness, { id, business: data })
 
     return {
         message: 'Business edited successfully',
         data: {
             name: data.name,
             email: data.email,
-            description: data.description
+            description: data.description,
+            slug
         },
         status: 'success'
     }
-}   
\ No newline at end of file
+}
\ No newline at end of file
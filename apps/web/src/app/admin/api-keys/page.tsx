@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import {
+	API_KEY_SCOPES,
+	type ApiKeyScope,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/apiKeys";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+
+export default function ApiKeysAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">API keys</h1>
+			<p className="mb-4 text-sm text-muted-foreground">
+				Keys give partners access to the public API at <code>/api/v1</code>. Send them as{" "}
+				<code>Authorization: Bearer &lt;key&gt;</code>.
+			</p>
+			{me && hasRole(me, "admin") ? (
+				<ApiKeys myId={me._id} />
+			) : (
+				<p className="text-muted-foreground">Only admins can manage API keys.</p>
+			)}
+		</div>
+	);
+}
+
+function ApiKeys({ myId }: { myId: Id<"users"> }) {
+	const keys = useQuery(api.apiKeys.listApiKeys);
+	const rotateKey = useAction(api.apiKeys.rotateApiKey);
+	const revokeKey = useMutation(api.apiKeys.revokeApiKey);
+	const [secret, setSecret] = useState<{ name: string; value: string } | null>(null);
+	const [chartKey, setChartKey] = useState<Id<"apiKeys"> | null>(null);
+
+	const rotate = async (id: Id<"apiKeys">, name: string) => {
+		if (!confirm(`Rotate "${name}"? The current key stops working immediately.`)) {
+			return;
+		}
+		try {
+			const result = await rotateKey({ id });
+			setSecret({ name, value: result.secret });
+			setChartKey(null);
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not rotate key");
+		}
+	};
+
+	const revoke = async (id: Id<"apiKeys">, name: string) => {
+		if (!confirm(`Revoke "${name}"? Anything using it will stop working.`)) {
+			return;
+		}
+		try {
+			await revokeKey({ id });
+			toast.success(`${name} revoked`);
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not revoke key");
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			<CreateKeyForm myId={myId} onCreated={(name, value) => setSecret({ name, value })} />
+
+			{secret && (
+				<div className="rounded-md border border-yellow-300 bg-yellow-50 p-4 text-sm dark:border-yellow-800 dark:bg-yellow-950">
+					<p className="font-medium">Copy the key for {secret.name} now. It won't be shown again.</p>
+					<div className="mt-2 flex items-center gap-2">
+						<code className="break-all rounded bg-background px-2 py-1">{secret.value}</code>
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={async () => {
+								await navigator.clipboard.writeText(secret.value);
+								toast.success("Copied");
+							}}
+						>
+							Copy
+						</Button>
+						<Button size="sm" variant="ghost" onClick={() => setSecret(null)}>
+							Done
+						</Button>
+					</div>
+				</div>
+			)}
+
+			{keys === undefined ? (
+				<Loader />
+			) : keys.length === 0 ? (
+				<p className="text-muted-foreground">No API keys yet.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Name</TableHead>
+							<TableHead>Key</TableHead>
+							<TableHead>Owner</TableHead>
+							<TableHead>Scopes</TableHead>
+							<TableHead>Last used</TableHead>
+							<TableHead>Requests</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{keys.map((key) => (
+							<TableRow key={key._id} className={key.revokedAt ? "text-muted-foreground" : undefined}>
+								<TableCell>
+									{key.name}
+									{key.revokedAt && (
+										<span className="block text-xs">
+											revoked {new Date(key.revokedAt).toLocaleDateString()}
+										</span>
+									)}
+								</TableCell>
+								<TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+								<TableCell>{key.ownerName}</TableCell>
+								<TableCell className="text-xs">{key.scopes.join(", ")}</TableCell>
+								<TableCell>{key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "Never"}</TableCell>
+								<TableCell>
+									{key.requestsToday} today, {key.requestsLast30Days} in 30 days
+								</TableCell>
+								<TableCell>
+									<div className="flex gap-2">
+										<Button
+											size="sm"
+											variant={chartKey === key._id ? "default" : "outline"}
+											onClick={() => setChartKey(chartKey === key._id ? null : key._id)}
+										>
+											Usage
+										</Button>
+										{!key.revokedAt && (
+											<>
+												<Button size="sm" variant="outline" onClick={() => rotate(key._id, key.name)}>
+													Rotate
+												</Button>
+												<Button size="sm" variant="destructive" onClick={() => revoke(key._id, key.name)}>
+													Revoke
+												</Button>
+											</>
+										)}
+									</div>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+
+			{chartKey && <UsageChart id={chartKey} name={keys?.find((key) => key._id === chartKey)?.name ?? ""} />}
+		</div>
+	);
+}
+
+function CreateKeyForm({
+	myId,
+	onCreated,
+}: {
+	myId: Id<"users">;
+	onCreated: (name: string, secret: string) => void;
+}) {
+	const users = useQuery(api.user.getUsers, { paginationOpts: { numItems: 100, cursor: null } });
+	const createKey = useAction(api.apiKeys.createApiKey);
+	const [name, setName] = useState("");
+	const [ownerId, setOwnerId] = useState<Id<"users">>(myId);
+	const [scopes, setScopes] = useState<ApiKeyScope[]>(["read:businesses"]);
+	const [busy, setBusy] = useState(false);
+
+	const create = async () => {
+		setBusy(true);
+		try {
+			const result = await createKey({ name, ownerId, scopes });
+			onCreated(name.trim(), result.secret);
+			setName("");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not create key");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<div className="max-w-xl space-y-3 rounded-md border p-4 text-sm">
+			<h2 className="text-lg font-semibold">New key</h2>
+			<Input placeholder="Name, e.g. Partner site" value={name} onChange={(e) => setName(e.target.value)} />
+			<label className="flex items-center gap-2">
+				<span className="font-medium">Owner</span>
+				<select
+					className="h-9 flex-1 rounded-md border bg-background px-2"
+					value={ownerId}
+					onChange={(e) => setOwnerId(e.target.value as Id<"users">)}
+				>
+					{!users?.page.some((user) => user._id === myId) && <option value={myId}>Me</option>}
+					{users?.page.map((user) => (
+						<option key={user._id} value={user._id}>
+							{user.fullname ?? user.username ?? user.clerkId}
+							{user._id === myId ? " (me)" : ""}
+						</option>
+					))}
+				</select>
+			</label>
+			<div className="flex gap-4">
+				{API_KEY_SCOPES.map((scope) => (
+					<label key={scope} className="flex items-center gap-2">
+						<Checkbox
+							checked={scopes.includes(scope)}
+							onCheckedChange={(checked) =>
+								setScopes((current) =>
+									API_KEY_SCOPES.filter((value) =>
+										value === scope ? checked === true : current.includes(value),
+									),
+								)
+							}
+						/>
+						<code>{scope}</code>
+					</label>
+				))}
+			</div>
+			<Button disabled={busy || !name.trim() || scopes.length === 0} onClick={create}>
+				{busy ? "Creating..." : "Create key"}
+			</Button>
+		</div>
+	);
+}
+
+function UsageChart({ id, name }: { id: Id<"apiKeys">; name: string }) {
+	const usage = useQuery(api.apiKeys.getApiKeyUsage, { id });
+
+	if (usage === undefined) {
+		return <Loader />;
+	}
+	const max = Math.max(1, ...usage.map((day) => day.count));
+	const total = usage.reduce((sum, day) => sum + day.count, 0);
+
+	return (
+		<div className="space-y-2">
+			<h2 className="text-lg font-semibold">
+				{name}: {total} requests in the last {usage.length} days
+			</h2>
+			<div className="flex h-40 items-end gap-1 border-b">
+				{usage.map((day) => (
+					<div
+						key={day.day}
+						title={`${day.day}: ${day.count}`}
+						className="flex-1 rounded-t bg-primary"
+						style={{ height: `${(day.count / max) * 100}%`, minHeight: day.count ? 2 : 0 }}
+					/>
+				))}
+			</div>
+			<div className="flex justify-between text-xs text-muted-foreground">
+				<span>{usage[0]?.day}</span>
+				<span>{usage[usage.length - 1]?.day}</span>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+
+const tables = ["businesses", "submittedBusinesses", "users", "waitlist"] as const;
+
+type Filters = {
+	table?: string;
+	action?: string;
+	actorId?: string;
+	targetId?: string;
+};
+
+export default function AuditAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Audit log</h1>
+			{me && hasRole(me, "admin") ? (
+				<AuditTable />
+			) : (
+				<p className="text-muted-foreground">Only admins can view the audit log.</p>
+			)}
+		</div>
+	);
+}
+
+function AuditTable() {
+	const [filters, setFilters] = useState<Filters>({});
+	const { results, status, loadMore } = usePaginatedQuery(api.audit.getAuditLog, filters, {
+		initialNumItems: 50,
+	});
+
+	const setFilter = (key: keyof Filters, value: string) =>
+		setFilters((current) => ({ ...current, [key]: value.trim() || undefined }));
+
+	return (
+		<>
+			<div className="mb-4 flex flex-wrap items-center gap-2">
+				<select
+					className="h-9 rounded-md border bg-background px-2"
+					value={filters.table ?? ""}
+					onChange={(e) => setFilter("table", e.target.value)}
+				>
+					<option value="">All tables</option>
+					{tables.map((table) => (
+						<option key={table} value={table}>
+							{table}
+						</option>
+					))}
+				</select>
+				<Input
+					className="w-56"
+					placeholder="Action, e.g. business:updateBusiness"
+					value={filters.action ?? ""}
+					onChange={(e) => setFilter("action", e.target.value)}
+				/>
+				<Input
+					className="w-48"
+					placeholder="Actor Clerk ID"
+					value={filters.actorId ?? ""}
+					onChange={(e) => setFilter("actorId", e.target.value)}
+				/>
+				<Input
+					className="w-48"
+					placeholder="Target ID"
+					value={filters.targetId ?? ""}
+					onChange={(e) => setFilter("targetId", e.target.value)}
+				/>
+				<Button variant="outline" size="sm" onClick={() => setFilters({})}>
+					Clear
+				</Button>
+			</div>
+			{status === "LoadingFirstPage" ? (
+				<Loader />
+			) : results.length === 0 ? (
+				<p className="text-muted-foreground">No matching entries.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>When</TableHead>
+							<TableHead>Actor</TableHead>
+							<TableHead>Action</TableHead>
+							<TableHead>Target</TableHead>
+							<TableHead>Changes</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{results.map((entry) => (
+							<TableRow key={entry._id} className="align-top">
+								<TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+								<TableCell>
+									{entry.actorId ? (
+										<button
+											type="button"
+											className="hover:underline"
+											onClick={() => setFilter("actorId", entry.actorId ?? "")}
+										>
+											{entry.actorName ?? entry.actorId}
+										</button>
+									) : (
+										<span className="text-muted-foreground">System</span>
+									)}
+								</TableCell>
+								<TableCell>
+									<button
+										type="button"
+										className="font-mono text-xs hover:underline"
+										onClick={() => setFilter("action", entry.action)}
+									>
+										{entry.action}
+									</button>
+								</TableCell>
+								<TableCell>
+									<button
+										type="button"
+										className="text-left hover:underline"
+										onClick={() => setFilter("targetId", entry.targetId)}
+									>
+										{entry.table}
+										<br />
+										<span className="font-mono text-xs text-muted-foreground">{entry.targetId}</span>
+									</button>
+								</TableCell>
+								<TableCell className="whitespace-normal">
+									<ul className="space-y-1 text-xs">
+										{entry.changes.map((change) => (
+											<li key={change.field}>
+												<span className="font-medium">{change.field}</span>:{" "}
+												<span className="text-red-600 line-through">{formatValue(change.before)}</span>{" "}
+												→ <span className="text-green-700">{formatValue(change.after)}</span>
+											</li>
+										))}
+									</ul>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			{status === "CanLoadMore" && (
+				<Button variant="outline" className="mt-4" onClick={() => loadMore(50)}>
+					Load more
+				</Button>
+			)}
+		</>
+	);
+}
+
+function formatValue(value: unknown) {
+	if (value === undefined) {
+		return "(none)";
+	}
+	const text = typeof value === "string" ? value : JSON.stringify(value);
+	return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
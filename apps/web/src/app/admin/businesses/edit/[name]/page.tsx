@@ -1,41 +1,101 @@
-// Admin dashboard for editing business using the name as the id
+// Admin dashboard for editing a business, addressed by its slug
 
 'use client';
 
+import { useEffect, useState } from "react";
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
 import { useQuery } from "convex/react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import { EditBusinessForm } from "@/components/EditBusinessForm";
+import { BusinessCategoriesEditor } from "@/components/BusinessCategoriesEditor";
+import { BusinessLocationEditor } from "@/components/BusinessLocationEditor";
+import { BusinessHoursEditor } from "@/components/BusinessHoursEditor";
+import { BusinessReviewsModeration } from "@/components/BusinessReviewsModeration";
+import { BusinessHistory } from "@/components/BusinessHistory";
+import { Button } from "@/components/ui/button";
+import Loader from "@/components/loader";
 
 export default function EditBusiness() {
-	const businesses = useQuery(api.business.getBusinesses);
-    
-    // convert name to slug
-    
+    const router = useRouter();
     const { name } = useParams<{ name: string }>();
-    const slug = name?.replace(/ /g, '-');
-    console.log(slug);
-    const business = businesses?.find((business) => business.slug === slug);
-    console.log(business);
+    const slug = decodeURIComponent(name ?? "");
+    const result = useQuery(api.business.resolveBusinessSlug, slug ? { slug } : "skip");
+    const business = result?.business;
+    const [tab, setTab] = useState<"details" | "history">("details");
+
+    // Old slugs keep working but move to the canonical URL
+    useEffect(() => {
+        if (result?.redirectTo) {
+            router.replace(`/admin/businesses/edit/${encodeURIComponent(result.redirectTo)}`);
+        }
+    }, [result?.redirectTo, router]);
+
+    if (result === undefined) {
+        return <Loader />;
+    }
+    if (result === null || !business) {
+        return (
+            <div className="container mx-auto px-4 py-8 max-w-2xl">
+                <h1>Business not found</h1>
+            </div>
+        );
+    }
+
 	return (
     <>
         <div className="container mx-auto px-4 py-8 max-w-2xl">
-            <h1>Edit Business {business?.name}</h1>
+            <h1>Edit Business {business.name}</h1>
+            <div className="flex gap-2 py-4">
+                <Button size="sm" variant={tab === "details" ? "default" : "outline"} onClick={() => setTab("details")}>
+                    Details
+                </Button>
+                <Button size="sm" variant={tab === "history" ? "default" : "outline"} onClick={() => setTab("history")}>
+                    History
+                </Button>
+            </div>
+        {tab === "history" ? (
+            <BusinessHistory businessId={business._id} />
+        ) : (
         <div className="">
             <EditBusinessForm 
-                name={business?.name}
-                description={business?.description ?? undefined}
-                email={business?.email ?? undefined}
+                id={business._id}
+                name={business.name}
+                description={business.description ?? undefined}
+                email={business.email ?? undefined}
+                imageUrl={business.imageUrl}
+                onSaved={(newSlug) => {
+                    if (newSlug && newSlug !== slug) {
+                        router.replace(`/admin/businesses/edit/${encodeURIComponent(newSlug)}`);
+                    }
+                }}
             />
+            <div className="pt-8">
+                <BusinessCategoriesEditor businessId={business._id} />
+            </div>
+            <div className="pt-8">
+                <BusinessLocationEditor businessId={business._id} />
+            </div>
+            <div className="pt-8">
+                <BusinessHoursEditor
+                    businessId={business._id}
+                    openingHours={business.openingHours}
+                    openingTime={business.openingTime}
+                    closingTime={business.closingTime}
+                />
+            </div>
+            <div className="pt-8">
+                <BusinessReviewsModeration businessId={business._id} />
+            </div>
             <div>
-                <h1>{business?.name}</h1>
-                <p>{business?.description}</p>
+                <h1>{business.name}</h1>
+                <p>{business.description}</p>
                 
             </div>
         </div>
+        )}
        </div>
     </>
 	)
 
 
-}
\ No newline at end of file
+}
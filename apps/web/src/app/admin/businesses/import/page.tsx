@@ -0,0 +1,265 @@
+// Admin bulk import of businesses from a CSV file
+"use client";
+
+import { useMemo, useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { useConvex, useMutation } from "convex/react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	type CheckedRow,
+	type ColumnMapping,
+	checkRows,
+	guessMapping,
+	IMPORT_FIELDS,
+	type ImportField,
+	rowSlugs,
+} from "@/lib/business-import";
+import { parseCsv } from "@/lib/csv";
+import { cn } from "@/lib/utils";
+
+// importBusinesses takes at most 50 rows per call.
+const BATCH_SIZE = 50;
+
+type Report = {
+	rows: (CheckedRow & { action: "create" | "update" | "error"; existingName?: string })[];
+	creates: number;
+	updates: number;
+	errors: number;
+};
+
+export default function ImportBusinesses() {
+	const convex = useConvex();
+	const importBusinesses = useMutation(api.businessImport.importBusinesses);
+	const [fileName, setFileName] = useState<string | null>(null);
+	const [headers, setHeaders] = useState<string[]>([]);
+	const [rows, setRows] = useState<string[][]>([]);
+	const [mapping, setMapping] = useState<ColumnMapping>({});
+	const [report, setReport] = useState<Report | null>(null);
+	const [checking, setChecking] = useState(false);
+	const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+	const [result, setResult] = useState<{ created: number; updated: number } | null>(null);
+
+	const importing = progress !== null && result === null;
+
+	const readFile = async (file: File) => {
+		const [header = [], ...data] = parseCsv(await file.text());
+		setFileName(file.name);
+		setHeaders(header);
+		setRows(data);
+		setMapping(guessMapping(header));
+		setReport(null);
+		setProgress(null);
+		setResult(null);
+	};
+
+	const setColumn = (field: ImportField, value: string) => {
+		setMapping((current) => {
+			const next = { ...current };
+			if (value === "") {
+				delete next[field];
+			} else {
+				next[field] = Number(value);
+			}
+			return next;
+		});
+		setReport(null);
+	};
+
+	const dryRun = async () => {
+		setChecking(true);
+		try {
+			const slugs = rowSlugs(rows, mapping);
+			const existing = new Map<string, string>();
+			for (let i = 0; i < slugs.length; i += 500) {
+				const found = await convex.query(api.businessImport.previewBusinessImport, {
+					slugs: slugs.slice(i, i + 500),
+				});
+				for (const business of found) {
+					existing.set(business.slug, business.name);
+				}
+			}
+			const checked = checkRows(rows, mapping, new Set(existing.keys()));
+			const reportRows = checked.map((row) => {
+				if (!row.row) {
+					return { ...row, action: "error" as const };
+				}
+				const existingName = row.row.slug ? existing.get(row.row.slug) : undefined;
+				return { ...row, action: existingName ? ("update" as const) : ("create" as const), existingName };
+			});
+			setReport({
+				rows: reportRows,
+				creates: reportRows.filter((row) => row.action === "create").length,
+				updates: reportRows.filter((row) => row.action === "update").length,
+				errors: reportRows.filter((row) => row.action === "error").length,
+			});
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not check the file");
+		} finally {
+			setChecking(false);
+		}
+	};
+
+	const commit = async () => {
+		if (!report) {
+			return;
+		}
+		const valid = report.rows.flatMap((row) => (row.row ? [row.row] : []));
+		const totals = { created: 0, updated: 0 };
+		setProgress({ done: 0, total: valid.length });
+		try {
+			for (let i = 0; i < valid.length; i += BATCH_SIZE) {
+				const batch = valid.slice(i, i + BATCH_SIZE);
+				const counts = await importBusinesses({ rows: batch });
+				totals.created += counts.created;
+				totals.updated += counts.updated;
+				setProgress({ done: i + batch.length, total: valid.length });
+			}
+			setResult(totals);
+			toast.success(`Imported ${totals.created + totals.updated} businesses`);
+		} catch (error) {
+			// Earlier batches are already saved; say how far it got.
+			setResult(totals);
+			toast.error(
+				`Import stopped after ${totals.created + totals.updated} rows: ${
+					error instanceof Error ? error.message : "something went wrong"
+				}`,
+			);
+		}
+	};
+
+	const mappedFields = useMemo(() => IMPORT_FIELDS.filter((field) => mapping[field] !== undefined), [mapping]);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<div className="mb-4 flex items-center justify-between">
+				<h1 className="text-2xl font-bold">Import businesses</h1>
+				<Link href="/admin/businesses" className="underline">
+					Back to businesses
+				</Link>
+			</div>
+			<p className="mb-4 text-sm text-muted-foreground">
+				Upload a CSV with a header row. Rows whose slug matches a listed business update it; all
+				other rows create new businesses. Empty cells leave the current value alone.
+			</p>
+
+			<input
+				type="file"
+				accept=".csv,text/csv"
+				disabled={importing}
+				onChange={(e) => {
+					const file = e.target.files?.[0];
+					if (file) {
+						readFile(file);
+					}
+				}}
+			/>
+
+			{fileName && (
+				<section className="mt-6 space-y-3">
+					<h2 className="text-xl font-semibold">
+						Columns <span className="text-sm font-normal text-muted-foreground">({rows.length} rows in {fileName})</span>
+					</h2>
+					<div className="grid max-w-xl grid-cols-2 gap-2 text-sm">
+						{IMPORT_FIELDS.map((field) => (
+							<label key={field} className="contents">
+								<span className="self-center font-medium">{field}</span>
+								<select
+									className="h-9 rounded-md border bg-background px-2"
+									value={mapping[field] ?? ""}
+									disabled={importing}
+									onChange={(e) => setColumn(field, e.target.value)}
+								>
+									<option value="">(not imported)</option>
+									{headers.map((header, index) => (
+										<option key={index} value={index}>
+											{header || `Column ${index + 1}`}
+										</option>
+									))}
+								</select>
+							</label>
+						))}
+					</div>
+					<Button onClick={dryRun} disabled={checking || importing || rows.length === 0}>
+						{checking ? "Checking..." : "Dry run"}
+					</Button>
+				</section>
+			)}
+
+			{report && (
+				<section className="mt-6 space-y-3">
+					<h2 className="text-xl font-semibold">Dry run</h2>
+					<p className="text-sm">
+						{report.creates} to create, {report.updates} to update, {report.errors} with errors
+						{report.errors > 0 && " (these rows will be skipped)"}.
+					</p>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Row</TableHead>
+								<TableHead>Action</TableHead>
+								{mappedFields.map((field) => (
+									<TableHead key={field}>{field}</TableHead>
+								))}
+								<TableHead>Problems</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{report.rows.map((row) => (
+								<TableRow
+									key={row.line}
+									className={cn("align-top", row.action === "error" && "bg-red-50 dark:bg-red-950")}
+								>
+									<TableCell>{row.line}</TableCell>
+									<TableCell className="capitalize">
+										{row.action}
+										{row.existingName && row.row?.name && row.existingName !== row.row.name && (
+											<span className="block text-xs text-muted-foreground">was {row.existingName}</span>
+										)}
+									</TableCell>
+									{mappedFields.map((field) => (
+										<TableCell key={field} className="max-w-48 truncate">
+											{rows[row.line - 2]?.[mapping[field]!]}
+										</TableCell>
+									))}
+									<TableCell className="whitespace-normal text-sm text-destructive">
+										{row.errors.join("; ")}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+					{!result && (
+						<Button onClick={commit} disabled={importing || report.creates + report.updates === 0}>
+							{importing ? "Importing..." : `Import ${report.creates + report.updates} rows`}
+						</Button>
+					)}
+				</section>
+			)}
+
+			{progress && (
+				<section className="mt-6 max-w-xl space-y-2">
+					<div className="h-2 overflow-hidden rounded bg-muted">
+						<div
+							className="h-full bg-primary transition-all"
+							style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+						/>
+					</div>
+					<p className="text-sm">
+						{progress.done} of {progress.total} rows
+						{result && ` — ${result.created} created, ${result.updated} updated`}
+					</p>
+				</section>
+			)}
+		</div>
+	);
+}
@@ -1,7 +1,12 @@
 // Admin dashboard for businesses
 'use client';
+import { useState } from "react";
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
-import { useQuery } from "convex/react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ExportPanel } from "@/components/export-panel";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
 
 import {
     Table,
@@ -14,35 +19,70 @@ import {
   } from "@/components/ui/table"
 
 
+const claimedFilters = [
+    { label: "All", claimed: undefined },
+    { label: "Claimed", claimed: true },
+    { label: "Unclaimed", claimed: false },
+] as const;
+
 export default function Businesses() {
-	const businesses = useQuery(api.business.getBusinesses);
-    console.log(businesses);
+	const [claimed, setClaimed] = useState<boolean | undefined>();
+	const pages = useCursorPages(api.business.getBusinesses, { claimed });
 
     // Show the businesses in a table
-    const businessesTable = businesses?.map((business) => (
+    const businessesTable = pages.page?.map((business) => (
         <TableRow key={business._id}>
             <td className="border px-4 py-2">{business.name}</td>
             <td className="border px-4 py-2">{business.description}</td>
             <td className="border px-4 py-2">{business.email}</td>
+            <td className="border px-4 py-2">
+                {business.slug && (
+                    <Link href={`/admin/businesses/edit/${encodeURIComponent(business.slug)}`} className="underline">
+                        Edit
+                    </Link>
+                )}
+            </td>
         </TableRow>
     ));
 
 	return(
         <>
         <div className="container mx-auto px-4 py-8 max-w-2xl">
-        <h1>Businesses</h1>
+        <div className="flex items-center justify-between">
+            <h1>Businesses</h1>
+            <div className="flex items-center gap-4">
+                <Link href="/admin/businesses/import" className="underline">
+                    Import CSV
+                </Link>
+                <ExportPanel table="businesses" filters={{ claimed }} />
+            </div>
+        </div>
+        <div className="my-4 flex gap-2">
+            {claimedFilters.map((filter) => (
+                <Button
+                    key={filter.label}
+                    size="sm"
+                    variant={filter.claimed === claimed ? "default" : "outline"}
+                    onClick={() => setClaimed(filter.claimed)}
+                >
+                    {filter.label}
+                </Button>
+            ))}
+        </div>
         <Table className="table-auto">
             <TableHeader>
                 <TableRow>
                     <th className="border px-4 py-2">Name</th>
                     <th className="border px-4 py-2">Description</th>
                     <th className="border px-4 py-2">Email</th>
+                    <th className="border px-4 py-2"></th>
                 </TableRow>
                 </TableHeader>
             <TableBody>
                 {businessesTable}
             </TableBody>
         </Table>
+        <PageControls {...pages} />
         </div>
         
         </>
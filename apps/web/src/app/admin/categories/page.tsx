@@ -0,0 +1,198 @@
+// Admin management for categories
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc, Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { CategoryEditor, ParentSelect } from "@/components/CategoryEditor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+
+type Category = Doc<"categories"> & { imageUrl: string | null };
+
+/** Orders categories depth-first so children sit under their parent. */
+function flattenTree(categories: Category[]) {
+	const byParent = new Map<string | undefined, Category[]>();
+	for (const category of categories) {
+		const siblings = byParent.get(category.parentId) ?? [];
+		siblings.push(category);
+		byParent.set(category.parentId, siblings);
+	}
+	const rows: { category: Category; depth: number }[] = [];
+	const visit = (parentId: string | undefined, depth: number) => {
+		for (const category of byParent.get(parentId) ?? []) {
+			rows.push({ category, depth });
+			visit(category._id, depth + 1);
+		}
+	};
+	visit(undefined, 0);
+	return rows;
+}
+
+async function withToast(action: () => Promise<unknown>, message: string) {
+	try {
+		await action();
+		toast.success(message);
+		return true;
+	} catch (error) {
+		toast.error(error instanceof Error ? error.message : "Something went wrong");
+		return false;
+	}
+}
+
+export default function Categories() {
+	const categories = useQuery(api.categories.getCategories);
+	const createCategory = useMutation(api.categories.createCategory);
+	const [name, setName] = useState("");
+	const [description, setDescription] = useState("");
+	const [parentId, setParentId] = useState("");
+
+	const create = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const created = await withToast(
+			() =>
+				createCategory({
+					name,
+					description: description || undefined,
+					parentId: (parentId || undefined) as Id<"categories"> | undefined,
+				}),
+			`Created ${name}`,
+		);
+		if (created) {
+			setName("");
+			setDescription("");
+		}
+	};
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Categories</h1>
+			<form onSubmit={create} className="mb-6 flex flex-wrap items-end gap-2">
+				<Input
+					placeholder="Name"
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					className="w-48"
+					required
+				/>
+				<Input
+					placeholder="Description"
+					value={description}
+					onChange={(e) => setDescription(e.target.value)}
+					className="w-64"
+				/>
+				<ParentSelect
+					categories={categories ?? []}
+					value={parentId}
+					onChange={setParentId}
+				/>
+				<Button type="submit" disabled={!name.trim()}>
+					Add category
+				</Button>
+			</form>
+
+			{categories === undefined ? (
+				<p>Loading...</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Name</TableHead>
+							<TableHead>Slug</TableHead>
+							<TableHead>Description</TableHead>
+							<TableHead>Parent</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{flattenTree(categories).map(({ category, depth }) => (
+							<CategoryRow
+								key={category._id}
+								category={category}
+								depth={depth}
+								categories={categories}
+							/>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</div>
+	);
+}
+
+function CategoryRow({
+	category,
+	depth,
+	categories,
+}: {
+	category: Category;
+	depth: number;
+	categories: Category[];
+}) {
+	const deleteCategory = useMutation(api.categories.deleteCategory);
+	const [editing, setEditing] = useState(false);
+
+	if (editing) {
+		return (
+			<TableRow>
+				<TableCell colSpan={5} className="whitespace-normal">
+					<CategoryEditor
+						category={category}
+						categories={categories}
+						onDone={() => setEditing(false)}
+					/>
+				</TableCell>
+			</TableRow>
+		);
+	}
+
+	const parent = categories.find((c) => c._id === category.parentId);
+	return (
+		<TableRow>
+			<TableCell style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}>
+				<div className="flex items-center gap-2">
+					{category.imageUrl && (
+						<img src={category.imageUrl} alt="" className="h-6 w-6 rounded object-cover" />
+					)}
+					{category.name}
+				</div>
+			</TableCell>
+			<TableCell>
+				{category.slug && (
+					<Link href={`/categories/${encodeURIComponent(category.slug)}`} className="underline">
+						{category.slug}
+					</Link>
+				)}
+			</TableCell>
+			<TableCell className="whitespace-normal">{category.description}</TableCell>
+			<TableCell>{parent?.name}</TableCell>
+			<TableCell className="flex gap-2">
+				<Button size="sm" variant="outline" onClick={() => setEditing(true)}>
+					Edit
+				</Button>
+				<Button
+					size="sm"
+					variant="destructive"
+					onClick={() => {
+						if (confirm(`Delete ${category.name}? Businesses will be unlinked from it.`)) {
+							withToast(() => deleteCategory({ id: category._id }), `Deleted ${category.name}`);
+						}
+					}}
+				>
+					Delete
+				</Button>
+			</TableCell>
+		</TableRow>
+	);
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { useMutation, useQuery } from "convex/react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+
+const statuses = ["verified", "pending", "revoked"] as const;
+type ClaimStatus = (typeof statuses)[number];
+
+export default function ClaimsAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Ownership claims</h1>
+			{me && hasRole(me, "admin") ? (
+				<ClaimsTable />
+			) : (
+				<p className="text-muted-foreground">Only admins can manage ownership claims.</p>
+			)}
+		</div>
+	);
+}
+
+function ClaimsTable() {
+	const [status, setStatus] = useState<ClaimStatus>("verified");
+	const claims = useQuery(api.claims.getClaims, { status });
+	const revokeClaim = useMutation(api.claims.revokeClaim);
+
+	const revoke = async (id: Id<"claims">, businessName: string) => {
+		if (!confirm(`Revoke this claim on ${businessName}?`)) {
+			return;
+		}
+		try {
+			await revokeClaim({ id });
+			toast.success("Claim revoked");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not revoke claim");
+		}
+	};
+
+	return (
+		<>
+			<div className="mb-4 flex gap-2">
+				{statuses.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === status ? "default" : "outline"}
+						onClick={() => setStatus(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			{claims === undefined ? (
+				<Loader />
+			) : claims.length === 0 ? (
+				<p className="text-muted-foreground">No {status} claims.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Business</TableHead>
+							<TableHead>Claimed by</TableHead>
+							<TableHead>Verified via</TableHead>
+							<TableHead>Requested</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{claims.map((claim) => (
+							<TableRow key={claim._id}>
+								<TableCell>
+									{claim.businessSlug ? (
+										<Link
+											href={`/businesses/${encodeURIComponent(claim.businessSlug)}`}
+											className="hover:underline"
+										>
+											{claim.businessName}
+										</Link>
+									) : (
+										claim.businessName
+									)}
+								</TableCell>
+								<TableCell>{claim.userName}</TableCell>
+								<TableCell>{claim.email}</TableCell>
+								<TableCell>{new Date(claim.createdAt).toLocaleString()}</TableCell>
+								<TableCell className="text-right">
+									{claim.status !== "revoked" && (
+										<Button
+											size="sm"
+											variant="destructive"
+											onClick={() => revoke(claim._id, claim.businessName)}
+										>
+											Revoke
+										</Button>
+									)}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
+
+const statuses = ["pending", "sent", "failed", "skipped"] as const;
+
+export default function EmailsAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Emails</h1>
+			<p className="mb-4 text-sm text-muted-foreground">
+				Transactional email goes through an outbox. Failed sends are retried a few times before
+				being marked failed, and can be retried from here once the problem is fixed.
+			</p>
+			{me && hasRole(me, "admin") ? (
+				<div className="space-y-8">
+					<TemplatePreviews />
+					<Outbox />
+				</div>
+			) : (
+				<p className="text-muted-foreground">Only admins can see emails.</p>
+			)}
+		</div>
+	);
+}
+
+function TemplatePreviews() {
+	const previews = useQuery(api.emails.previewEmails);
+	const [template, setTemplate] = useState<string | undefined>();
+
+	if (previews === undefined) {
+		return <Loader />;
+	}
+	const selected = previews.find((preview) => preview.template === template) ?? previews[0];
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Templates</h2>
+			<div className="flex flex-wrap gap-2">
+				{previews.map((preview) => (
+					<Button
+						key={preview.template}
+						size="sm"
+						variant={preview === selected ? "default" : "outline"}
+						onClick={() => setTemplate(preview.template)}
+					>
+						{preview.template}
+					</Button>
+				))}
+			</div>
+			{selected && (
+				<div className="max-w-2xl rounded-md border text-sm">
+					<div className="space-y-1 border-b p-4">
+						<p className="text-muted-foreground">{selected.description}</p>
+						<p>
+							<span className="font-medium">Subject:</span> {selected.subject}
+						</p>
+					</div>
+					<pre className="whitespace-pre-wrap p-4 font-sans">{selected.text}</pre>
+				</div>
+			)}
+		</section>
+	);
+}
+
+function Outbox() {
+	const [status, setStatus] = useState<(typeof statuses)[number] | undefined>();
+	const pages = useCursorPages(api.emails.listEmails, { status });
+	const retryEmail = useMutation(api.emails.retryEmail);
+
+	const retry = async (id: Id<"emailOutbox">) => {
+		try {
+			await retryEmail({ id });
+			toast.success("Email queued again");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not retry email");
+		}
+	};
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Outbox</h2>
+			<div className="flex gap-2">
+				<Button size="sm" variant={status === undefined ? "default" : "outline"} onClick={() => setStatus(undefined)}>
+					All
+				</Button>
+				{statuses.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === status ? "default" : "outline"}
+						onClick={() => setStatus(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			{pages.page === undefined ? (
+				<Loader />
+			) : pages.page.length === 0 ? (
+				<p className="text-muted-foreground">No emails.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Queued</TableHead>
+							<TableHead>To</TableHead>
+							<TableHead>Template</TableHead>
+							<TableHead>Subject</TableHead>
+							<TableHead>Status</TableHead>
+							<TableHead>Attempts</TableHead>
+							<TableHead>Last error</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{pages.page.map((email) => (
+							<TableRow key={email._id}>
+								<TableCell>{new Date(email.createdAt).toLocaleString()}</TableCell>
+								<TableCell>{email.to}</TableCell>
+								<TableCell className="font-mono text-xs">{email.template}</TableCell>
+								<TableCell className="max-w-xs truncate">{email.subject}</TableCell>
+								<TableCell>
+									{email.status}
+									{email.status === "pending" && email.nextAttemptAt && (
+										<span className="block text-xs text-muted-foreground">
+											retry {new Date(email.nextAttemptAt).toLocaleTimeString()}
+										</span>
+									)}
+								</TableCell>
+								<TableCell>{email.attempts}</TableCell>
+								<TableCell className="max-w-xs truncate text-xs">{email.lastError}</TableCell>
+								<TableCell>
+									{email.status === "failed" && (
+										<Button size="sm" variant="outline" onClick={() => retry(email._id)}>
+											Retry
+										</Button>
+									)}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			<PageControls {...pages} />
+		</section>
+	);
+}
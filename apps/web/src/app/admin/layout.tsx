@@ -0,0 +1,53 @@
+"use client";
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { SignInButton } from "@clerk/nextjs";
+import {
+	Authenticated,
+	AuthLoading,
+	Unauthenticated,
+	useQuery,
+} from "convex/react";
+import Loader from "@/components/loader";
+
+export default function AdminLayout({
+	children,
+}: Readonly<{
+	children: React.ReactNode;
+}>) {
+	return (
+		<>
+			<Authenticated>
+				<StaffOnly>{children}</StaffOnly>
+			</Authenticated>
+			<Unauthenticated>
+				<div className="p-4">
+					<SignInButton />
+				</div>
+			</Unauthenticated>
+			<AuthLoading>
+				<Loader />
+			</AuthLoading>
+		</>
+	);
+}
+
+function StaffOnly({ children }: { children: React.ReactNode }) {
+	const me = useQuery(api.user.me);
+
+	if (me === undefined) {
+		return <Loader />;
+	}
+	if (!hasRole(me, "moderator")) {
+		return (
+			<div className="container mx-auto px-4 py-8">
+				<h1 className="text-2xl font-bold">Not authorized</h1>
+				<p className="text-muted-foreground">
+					You need a moderator or admin role to view this page.
+				</p>
+			</div>
+		);
+	}
+	return children;
+}
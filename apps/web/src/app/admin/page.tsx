@@ -2,6 +2,7 @@
 
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
 import { SignInButton, UserButton, useUser } from "@clerk/nextjs";
+import Link from "next/link";
 import {
 	Authenticated,
 	AuthLoading,
@@ -9,13 +10,26 @@ import {
 	useQuery,
 } from "convex/react";
 
+const adminLinks = [
+	{ to: "/admin/submissions", label: "Submissions" },
+	{ to: "/admin/businesses", label: "Businesses" },
+	{ to: "/admin/categories", label: "Categories" },
+	{ to: "/admin/users", label: "Users" },
+	{ to: "/admin/waitlist", label: "Waitlist" },
+	{ to: "/admin/claims", label: "Ownership claims" },
+	{ to: "/admin/audit", label: "Audit log" },
+	{ to: "/admin/rejections", label: "Bot rejections" },
+	{ to: "/admin/api-keys", label: "API keys" },
+	{ to: "/admin/webhooks", label: "Webhooks" },
+	{ to: "/admin/emails", label: "Emails" },
+] as const;
+
 export default function Admin() {
 	const user = useUser();
 	const privateData = useQuery(api.privateData.get);
 
 	
     const healthCheck = useQuery(api.healthCheck.get);
-	const usersConvex = useQuery(api.user.getUsers);
 
 	console.log(user);
 
@@ -46,6 +60,16 @@ export default function Admin() {
 						</span>
 					</div>
 				</section>
+				<section className="rounded-lg border p-4">
+					<h2 className="mb-2 font-medium">Manage</h2>
+					<nav className="flex flex-col gap-1 text-sm">
+						{adminLinks.map(({ to, label }) => (
+							<Link key={to} href={to} className="hover:underline">
+								{label}
+							</Link>
+						))}
+					</nav>
+				</section>
 				</div>
 			</Authenticated>
 			<Unauthenticated>
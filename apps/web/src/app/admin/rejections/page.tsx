@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { useQuery } from "convex/react";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
+
+const forms = ["waitlist", "submit-business"] as const;
+
+export default function RejectionsAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Bot rejections</h1>
+			<p className="mb-4 text-sm text-muted-foreground">
+				Public form posts the bot check turned away. A burst from one address is likely a
+				script; scattered "too-fast" entries may be people to look out for.
+			</p>
+			{me && hasRole(me, "admin") ? (
+				<RejectionsTable />
+			) : (
+				<p className="text-muted-foreground">Only admins can review bot rejections.</p>
+			)}
+		</div>
+	);
+}
+
+function RejectionsTable() {
+	const [form, setForm] = useState<string | undefined>();
+	const pages = useCursorPages(api.botRejections.getRejections, { form });
+
+	return (
+		<>
+			<div className="mb-4 flex gap-2">
+				<Button size="sm" variant={form === undefined ? "default" : "outline"} onClick={() => setForm(undefined)}>
+					All forms
+				</Button>
+				{forms.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === form ? "default" : "outline"}
+						onClick={() => setForm(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			{pages.page === undefined ? (
+				<Loader />
+			) : pages.page.length === 0 ? (
+				<p className="text-muted-foreground">Nothing has been rejected.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>When</TableHead>
+							<TableHead>Form</TableHead>
+							<TableHead>Reason</TableHead>
+							<TableHead>IP</TableHead>
+							<TableHead>User agent</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{pages.page.map((rejection) => (
+							<TableRow key={rejection._id}>
+								<TableCell>{new Date(rejection.createdAt).toLocaleString()}</TableCell>
+								<TableCell>{rejection.form}</TableCell>
+								<TableCell className="font-mono text-xs">{rejection.reason}</TableCell>
+								<TableCell>{rejection.ip ?? "unknown"}</TableCell>
+								<TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+									{rejection.userAgent}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			<PageControls {...pages} />
+		</>
+	);
+}
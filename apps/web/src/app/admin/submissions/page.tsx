@@ -0,0 +1,241 @@
+// Admin review queue for submitted businesses
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { ExportPanel } from "@/components/export-panel";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
+
+type SubmissionStatus = NonNullable<Doc<"submittedBusinesses">["status"]>;
+
+const statuses: SubmissionStatus[] = ["pending", "needs-info", "approved", "rejected"];
+
+// Matches the score at which the review page lists possible duplicates.
+const DUPLICATE_FLAG_SCORE = 0.4;
+
+export default function Submissions() {
+	const [status, setStatus] = useState<SubmissionStatus>("pending");
+	const [likelyDuplicatesFirst, setLikelyDuplicatesFirst] = useState(false);
+	const pages = useCursorPages(api.submittedBusinesses.getSubmittedBusinesses, { status, likelyDuplicatesFirst });
+	const submissions = pages.page;
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Submissions</h1>
+			<div className="mb-4 flex gap-2">
+				{statuses.map((s) => (
+					<Button
+						key={s}
+						size="sm"
+						variant={s === status ? "default" : "outline"}
+						onClick={() => setStatus(s)}
+					>
+						{s}
+					</Button>
+				))}
+				<Button
+					size="sm"
+					variant={likelyDuplicatesFirst ? "default" : "outline"}
+					onClick={() => setLikelyDuplicatesFirst((current) => !current)}
+				>
+					Likely duplicates first
+				</Button>
+			</div>
+			<ExportPanel table="submittedBusinesses" filters={{ status }} />
+			{submissions === undefined ? (
+				<p>Loading...</p>
+			) : submissions.length === 0 ? (
+				<p className="text-muted-foreground">No {status} submissions.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Business</TableHead>
+							<TableHead>Contact</TableHead>
+							<TableHead>Submitted</TableHead>
+							<TableHead>Review</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{submissions.map((submission) => (
+							<SubmissionRow key={submission._id} submission={submission} />
+						))}
+					</TableBody>
+				</Table>
+			)}
+			<PageControls {...pages} />
+		</div>
+	);
+}
+
+function SubmissionRow({ submission }: { submission: Doc<"submittedBusinesses"> }) {
+	const approve = useMutation(api.submittedBusinesses.approveSubmission);
+	const reject = useMutation(api.submittedBusinesses.rejectSubmission);
+	const requestMoreInfo = useMutation(api.submittedBusinesses.requestMoreInfo);
+	const [reason, setReason] = useState("");
+	const [busy, setBusy] = useState(false);
+
+	const status = submission.status ?? "pending";
+	const reviewable = status === "pending" || status === "needs-info";
+
+	const run = async (action: () => Promise<unknown>, message: string) => {
+		setBusy(true);
+		try {
+			await action();
+			toast.success(message);
+			setReason("");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Something went wrong");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<TableRow className="align-top">
+			<TableCell className="whitespace-normal">
+				<p className="font-medium">
+					{submission.name}
+					{(submission.duplicateScore ?? 0) >= DUPLICATE_FLAG_SCORE && (
+						<span className="ml-2 rounded bg-yellow-50 px-1.5 py-0.5 text-xs dark:bg-yellow-950">
+							Possible duplicate ({Math.round((submission.duplicateScore ?? 0) * 100)}%)
+						</span>
+					)}
+				</p>
+				<p className="text-sm text-muted-foreground">{submission.description}</p>
+				{submission.address && <p className="text-sm">{submission.address}</p>}
+				{submission.openingTime && submission.closingTime && (
+					<p className="text-sm">
+						{submission.openingTime}–{submission.closingTime}
+					</p>
+				)}
+				{reviewable && <PossibleDuplicates submission={submission} />}
+			</TableCell>
+			<TableCell className="whitespace-normal">
+				<p>{submission.email}</p>
+				{submission.phone && <p>{submission.phone}</p>}
+				{submission.website && <p>{submission.website}</p>}
+			</TableCell>
+			<TableCell>
+				{submission.submittedAt
+					? new Date(submission.submittedAt).toLocaleString()
+					: new Date(submission._creationTime).toLocaleString()}
+			</TableCell>
+			<TableCell className="whitespace-normal">
+				{reviewable ? (
+					<div className="grid min-w-64 gap-2">
+						{submission.reviewReason && (
+							<p className="text-sm text-muted-foreground">
+								Last note: {submission.reviewReason}
+							</p>
+						)}
+						<Input
+							placeholder="Reason (required to reject)"
+							value={reason}
+							onChange={(e) => setReason(e.target.value)}
+						/>
+						<div className="flex gap-2">
+							<Button
+								size="sm"
+								disabled={busy}
+								onClick={() =>
+									run(
+										() => approve({ id: submission._id, reason: reason || undefined }),
+										`${submission.name} approved`,
+									)
+								}
+							>
+								Approve
+							</Button>
+							<Button
+								size="sm"
+								variant="outline"
+								disabled={busy || !reason.trim()}
+								onClick={() =>
+									run(
+										() => requestMoreInfo({ id: submission._id, reason }),
+										"Marked as needing more information",
+									)
+								}
+							>
+								Needs info
+							</Button>
+							<Button
+								size="sm"
+								variant="destructive"
+								disabled={busy || !reason.trim()}
+								onClick={() =>
+									run(
+										() => reject({ id: submission._id, reason }),
+										`${submission.name} rejected`,
+									)
+								}
+							>
+								Reject
+							</Button>
+						</div>
+					</div>
+				) : (
+					<div className="text-sm">
+						<p className="font-medium capitalize">{status}</p>
+						{submission.reviewedAt && (
+							<p>{new Date(submission.reviewedAt).toLocaleString()}</p>
+						)}
+						{submission.reviewReason && (
+							<p className="text-muted-foreground">{submission.reviewReason}</p>
+						)}
+					</div>
+				)}
+			</TableCell>
+		</TableRow>
+	);
+}
+
+function PossibleDuplicates({ submission }: { submission: Doc<"submittedBusinesses"> }) {
+	const duplicates = useQuery(api.duplicates.getSubmissionDuplicates, { id: submission._id });
+
+	if (!duplicates || duplicates.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="mt-2 rounded-md border border-yellow-300 bg-yellow-50 p-2 text-sm dark:border-yellow-800 dark:bg-yellow-950">
+			<p className="font-medium">Possible duplicates</p>
+			<ul className="space-y-1">
+				{duplicates.map((duplicate) => (
+					<li key={duplicate.id}>
+						<span className="font-mono">{Math.round(duplicate.score * 100)}%</span>{" "}
+						{duplicate.kind === "business" && duplicate.slug ? (
+							<Link
+								href={`/admin/businesses/edit/${encodeURIComponent(duplicate.slug)}`}
+								className="underline"
+							>
+								{duplicate.name}
+							</Link>
+						) : (
+							<span>{duplicate.name}</span>
+						)}{" "}
+						<span className="text-muted-foreground">
+							({duplicate.kind === "business" ? "listed" : "also submitted"}: {duplicate.reasons.join(", ")})
+						</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
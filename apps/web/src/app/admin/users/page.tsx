@@ -1,61 +1,133 @@
 "use client";
 
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
-import { SignInButton, UserButton, useUser } from "@clerk/nextjs";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
 import {
-	Authenticated,
-	AuthLoading,
-	Unauthenticated,
-	useQuery,
-} from "convex/react";
+	hasRole,
+	roles,
+	type Role,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { UserButton, useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { ExportPanel } from "@/components/export-panel";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
 
 export default function UserAdmin() {
 	const user = useUser();
-	const privateData = useQuery(api.privateData.get);
-
-
-	const usersConvex = useQuery(api.user.getUsers);
+	const me = useQuery(api.user.me);
 
 	return (
-		<>
-        <div className="">
+		<div className="container mx-auto px-4 py-8">
+			<div>
+				<h1>Dashboard</h1>
+				<p>Welcome {user.user?.fullName}</p>
+				<UserButton />
+			</div>
+			<h1>User Admin</h1>
+			{me && hasRole(me, "admin") ? (
+				<UsersTable />
+			) : (
+				<p className="text-muted-foreground">Only admins can manage users.</p>
+			)}
+		</div>
+	);
+}
+
+const statuses = ["active", "banned"];
 
-        
-			<Authenticated>
-				<div>
-					<h1>Dashboard</h1>
-					<p>Welcome {user.user?.fullName}</p>
-					<p>privateData: {privateData?.message}</p>
-					<UserButton />
-				</div>
-			</Authenticated>
-			<Unauthenticated>
-				<SignInButton />
-			</Unauthenticated>
-			<AuthLoading>
-				<div>Loading...</div>
-			</AuthLoading>
+function UsersTable() {
+	const [role, setRoleFilter] = useState<Role | undefined>();
+	const [status, setStatus] = useState<string | undefined>();
+	const pages = useCursorPages(api.user.getUsers, { role, status });
+	const setRole = useMutation(api.user.setRole);
 
-			<div className="">
-							<h1>User Admin</h1>
-			
-							{usersConvex?.map((user) => (
-									<ul key={user._id}>
+	const changeRole = async (id: Id<"users">, role: Role) => {
+		try {
+			await setRole({ id, role });
+			toast.success("Role updated");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not update role");
+		}
+	};
 
-									
-											<li
-												key={user._id}
-												className=""
-											>
-													<p>
-														{user.fullname}
-													</p>
-											</li>
-										</ul>
+	return (
+		<>
+			<div className="mb-4 flex flex-wrap gap-2">
+				<Button size="sm" variant={role === undefined ? "default" : "outline"} onClick={() => setRoleFilter(undefined)}>
+					All roles
+				</Button>
+				{roles.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === role ? "default" : "outline"}
+						onClick={() => setRoleFilter(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			<div className="mb-4 flex gap-2">
+				<Button size="sm" variant={status === undefined ? "default" : "outline"} onClick={() => setStatus(undefined)}>
+					Any status
+				</Button>
+				{statuses.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === status ? "default" : "outline"}
+						onClick={() => setStatus(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			<ExportPanel table="users" filters={{ role, status }} />
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Name</TableHead>
+						<TableHead>Username</TableHead>
+						<TableHead>Status</TableHead>
+						<TableHead>Role</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{pages.page?.map((user) => (
+						<TableRow key={user._id}>
+							<TableCell>{user.fullname}</TableCell>
+							<TableCell>{user.username}</TableCell>
+							<TableCell>{user.status}</TableCell>
+							<TableCell>
+								<select
+									className="rounded-md border bg-background px-2 py-1"
+									value={user.role ?? "member"}
+									onChange={(e) => changeRole(user._id, e.target.value as Role)}
+								>
+									{roles.map((role) => (
+										<option key={role} value={role}>
+											{role}
+										</option>
 									))}
-					</div>
-        
-        </div>
+								</select>
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+			<PageControls {...pages} />
 		</>
 	);
 }
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { useQuery } from "convex/react";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+import { ExportPanel } from "@/components/export-panel";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
+
+type WaitlistStatus = NonNullable<Doc<"waitlist">["status"]>;
+
+const statuses: WaitlistStatus[] = ["confirmed", "unconfirmed", "unsubscribed"];
+
+export default function WaitlistAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Waitlist</h1>
+			{me && hasRole(me, "admin") ? (
+				<WaitlistTable />
+			) : (
+				<p className="text-muted-foreground">Only admins can see the waitlist.</p>
+			)}
+		</div>
+	);
+}
+
+function WaitlistTable() {
+	const [status, setStatus] = useState<WaitlistStatus | undefined>();
+	const pages = useCursorPages(api.waitlist.getWaitlist, { status });
+
+	return (
+		<>
+			<div className="mb-4 flex gap-2">
+				<Button size="sm" variant={status === undefined ? "default" : "outline"} onClick={() => setStatus(undefined)}>
+					All
+				</Button>
+				{statuses.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === status ? "default" : "outline"}
+						onClick={() => setStatus(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			<ExportPanel table="waitlist" filters={{ status }} />
+			{pages.page === undefined ? (
+				<Loader />
+			) : pages.page.length === 0 ? (
+				<p className="text-muted-foreground">Nobody here yet.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Email</TableHead>
+							<TableHead>Status</TableHead>
+							<TableHead>Joined</TableHead>
+							<TableHead>Referrals</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{pages.page.map((entry) => (
+							<TableRow key={entry._id}>
+								<TableCell>{entry.email}</TableCell>
+								<TableCell>{entry.status ?? "legacy"}</TableCell>
+								<TableCell>
+									{new Date(entry.joinedAt ?? entry._creationTime).toLocaleString()}
+								</TableCell>
+								<TableCell>{entry.referralCount ?? 0}</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			<PageControls {...pages} />
+		</>
+	);
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc, Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import {
+	WEBHOOK_EVENTS,
+	type WebhookEvent,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/webhooks";
+import { hasRole } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/roles";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import Loader from "@/components/loader";
+import { PageControls } from "@/components/page-controls";
+import { useCursorPages } from "@/hooks/use-cursor-pages";
+
+const statuses = ["pending", "succeeded", "failed"] as const;
+
+export default function WebhooksAdmin() {
+	const me = useQuery(api.user.me);
+
+	return (
+		<div className="container mx-auto px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Webhooks</h1>
+			<p className="mb-4 text-sm text-muted-foreground">
+				Endpoints receive a signed JSON POST for each event they subscribe to. Failed deliveries
+				are retried with increasing delays before being marked failed.
+			</p>
+			{me && hasRole(me, "admin") ? (
+				<Webhooks />
+			) : (
+				<p className="text-muted-foreground">Only admins can manage webhooks.</p>
+			)}
+		</div>
+	);
+}
+
+function Webhooks() {
+	const subscriptions = useQuery(api.webhooks.listSubscriptions);
+	const updateSubscription = useMutation(api.webhooks.updateSubscription);
+	const deleteSubscription = useMutation(api.webhooks.deleteSubscription);
+	const [shownSecret, setShownSecret] = useState<Id<"webhookSubscriptions"> | null>(null);
+
+	const setActive = async (subscription: Doc<"webhookSubscriptions">, active: boolean) => {
+		try {
+			await updateSubscription({ id: subscription._id, active });
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not update webhook");
+		}
+	};
+
+	const remove = async (subscription: Doc<"webhookSubscriptions">) => {
+		if (!confirm(`Delete the webhook for ${subscription.url}? Pending retries will be dropped.`)) {
+			return;
+		}
+		try {
+			await deleteSubscription({ id: subscription._id });
+			toast.success("Webhook deleted");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not delete webhook");
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			<CreateSubscriptionForm />
+
+			{subscriptions === undefined ? (
+				<Loader />
+			) : subscriptions.length === 0 ? (
+				<p className="text-muted-foreground">No webhooks yet.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Endpoint</TableHead>
+							<TableHead>Events</TableHead>
+							<TableHead>Secret</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{subscriptions.map((subscription) => (
+							<TableRow
+								key={subscription._id}
+								className={subscription.active ? undefined : "text-muted-foreground"}
+							>
+								<TableCell>
+									<span className="break-all font-mono text-xs">{subscription.url}</span>
+									{subscription.description && (
+										<span className="block text-xs text-muted-foreground">{subscription.description}</span>
+									)}
+									{!subscription.active && <span className="block text-xs">paused</span>}
+								</TableCell>
+								<TableCell className="text-xs">{subscription.events.join(", ")}</TableCell>
+								<TableCell>
+									{shownSecret === subscription._id ? (
+										<code className="break-all text-xs">{subscription.secret}</code>
+									) : (
+										<Button size="sm" variant="ghost" onClick={() => setShownSecret(subscription._id)}>
+											Show
+										</Button>
+									)}
+								</TableCell>
+								<TableCell>
+									<div className="flex gap-2">
+										<Button
+											size="sm"
+											variant="outline"
+											onClick={() => setActive(subscription, !subscription.active)}
+										>
+											{subscription.active ? "Pause" : "Resume"}
+										</Button>
+										<Button size="sm" variant="destructive" onClick={() => remove(subscription)}>
+											Delete
+										</Button>
+									</div>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+
+			<DeliveryLog subscriptions={subscriptions ?? []} />
+		</div>
+	);
+}
+
+function CreateSubscriptionForm() {
+	const createSubscription = useMutation(api.webhooks.createSubscription);
+	const [url, setUrl] = useState("");
+	const [description, setDescription] = useState("");
+	const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+	const [busy, setBusy] = useState(false);
+
+	const create = async () => {
+		setBusy(true);
+		try {
+			await createSubscription({ url, events, description });
+			toast.success("Webhook added");
+			setUrl("");
+			setDescription("");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not add webhook");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<div className="max-w-xl space-y-3 rounded-md border p-4 text-sm">
+			<h2 className="text-lg font-semibold">New webhook</h2>
+			<Input placeholder="https://example.com/webhooks" value={url} onChange={(e) => setUrl(e.target.value)} />
+			<Input
+				placeholder="Description (optional)"
+				value={description}
+				onChange={(e) => setDescription(e.target.value)}
+			/>
+			<div className="grid grid-cols-2 gap-2">
+				{WEBHOOK_EVENTS.map((event) => (
+					<label key={event} className="flex items-center gap-2">
+						<Checkbox
+							checked={events.includes(event)}
+							onCheckedChange={(checked) =>
+								setEvents((current) =>
+									WEBHOOK_EVENTS.filter((value) =>
+										value === event ? checked === true : current.includes(value),
+									),
+								)
+							}
+						/>
+						<code>{event}</code>
+					</label>
+				))}
+			</div>
+			<Button disabled={busy || !url.trim() || events.length === 0} onClick={create}>
+				{busy ? "Adding..." : "Add webhook"}
+			</Button>
+		</div>
+	);
+}
+
+function DeliveryLog({ subscriptions }: { subscriptions: Doc<"webhookSubscriptions">[] }) {
+	const [subscriptionId, setSubscriptionId] = useState<Id<"webhookSubscriptions"> | undefined>();
+	const [status, setStatus] = useState<(typeof statuses)[number] | undefined>();
+	const [expanded, setExpanded] = useState<Id<"webhookDeliveries"> | null>(null);
+	const pages = useCursorPages(api.webhooks.listDeliveries, { subscriptionId, status });
+	const replayDelivery = useMutation(api.webhooks.replayDelivery);
+	const urls = new Map(subscriptions.map((subscription) => [subscription._id, subscription.url]));
+
+	const replay = async (id: Id<"webhookDeliveries">) => {
+		try {
+			await replayDelivery({ id });
+			toast.success("Delivery queued again");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not replay delivery");
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			<h2 className="text-lg font-semibold">Delivery log</h2>
+			<div className="flex flex-wrap items-center gap-2">
+				<select
+					className="h-9 rounded-md border bg-background px-2 text-sm"
+					value={subscriptionId ?? ""}
+					onChange={(e) => setSubscriptionId((e.target.value || undefined) as Id<"webhookSubscriptions"> | undefined)}
+				>
+					<option value="">All endpoints</option>
+					{subscriptions.map((subscription) => (
+						<option key={subscription._id} value={subscription._id}>
+							{subscription.url}
+						</option>
+					))}
+				</select>
+				<Button size="sm" variant={status === undefined ? "default" : "outline"} onClick={() => setStatus(undefined)}>
+					All
+				</Button>
+				{statuses.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === status ? "default" : "outline"}
+						onClick={() => setStatus(value)}
+					>
+						{value}
+					</Button>
+				))}
+			</div>
+			{pages.page === undefined ? (
+				<Loader />
+			) : pages.page.length === 0 ? (
+				<p className="text-muted-foreground">No deliveries.</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Created</TableHead>
+							<TableHead>Event</TableHead>
+							<TableHead>Endpoint</TableHead>
+							<TableHead>Status</TableHead>
+							<TableHead>Attempts</TableHead>
+							<TableHead>Last response</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{pages.page.map((delivery) => (
+							<Fragment key={delivery._id}>
+								<TableRow>
+									<TableCell>
+										{new Date(delivery.createdAt).toLocaleString()}
+										{delivery.replayOf && <span className="block text-xs text-muted-foreground">replay</span>}
+									</TableCell>
+									<TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+									<TableCell className="max-w-xs truncate text-xs">
+										{urls.get(delivery.subscriptionId) ?? "deleted"}
+									</TableCell>
+									<TableCell>
+										{delivery.status}
+										{delivery.status === "pending" && delivery.nextAttemptAt && (
+											<span className="block text-xs text-muted-foreground">
+												retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+											</span>
+										)}
+									</TableCell>
+									<TableCell>{delivery.attempts}</TableCell>
+									<TableCell className="max-w-xs truncate text-xs">
+										{delivery.lastStatusCode ?? ""} {delivery.lastError}
+									</TableCell>
+									<TableCell>
+										<div className="flex gap-2">
+											<Button
+												size="sm"
+												variant="ghost"
+												onClick={() => setExpanded(expanded === delivery._id ? null : delivery._id)}
+											>
+												Payload
+											</Button>
+											<Button
+												size="sm"
+												variant="outline"
+												disabled={delivery.status === "pending" || !urls.has(delivery.subscriptionId)}
+												onClick={() => replay(delivery._id)}
+											>
+												Replay
+											</Button>
+										</div>
+									</TableCell>
+								</TableRow>
+								{expanded === delivery._id && (
+									<TableRow>
+										<TableCell colSpan={7}>
+											<pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+												{JSON.stringify(JSON.parse(delivery.payload), null, 2)}
+											</pre>
+										</TableCell>
+									</TableRow>
+								)}
+							</Fragment>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			<PageControls {...pages} />
+		</div>
+	);
+}
@@ -1,19 +1,24 @@
 import { submitBusinessFormSchema } from '@/lib/schema'
 
+// Validation only: submissions go through the form's server action, where
+// Convex runs the bot check.
 export async function POST(req: Request) {
+  let data: unknown;
   try {
-    const data = await req.json();
-    const parsed = submitBusinessFormSchema.parse(data);
-    return Response.json({
-      message: 'Business submitted successfully',
-      data: parsed,
-      status: 'success'
-    });
-  } catch (error) {
-    return new Response(
-      JSON.stringify({ message: 'Invalid request', error: String(error), status: 'error' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    data = await req.json();
+  } catch {
+    return Response.json({ message: 'Invalid request', status: 'error' }, { status: 400 });
+  }
+  const parsed = submitBusinessFormSchema.safeParse(data);
+  if (!parsed.success) {
+    const errors = Object.fromEntries(
+      parsed.error.issues.map((issue) => [String(issue.path[0] ?? 'request'), issue.message])
     );
+    return Response.json({ message: 'Invalid request', errors, status: 'error' }, { status: 400 });
   }
+  return Response.json({
+    message: 'Business details are valid',
+    data: parsed.data,
+    status: 'success'
+  });
 }
-
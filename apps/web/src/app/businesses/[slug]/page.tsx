@@ -0,0 +1,101 @@
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { fetchQuery } from "convex/nextjs";
+import { notFound, permanentRedirect } from "next/navigation";
+import {
+	DAY_LABELS,
+	DAYS,
+	formatRanges,
+	hoursFromLegacy,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours";
+import { OpenNowBadge } from "@/components/open-now-badge";
+import { BusinessReviews } from "@/components/business-reviews";
+import { ClaimBusinessButton } from "@/components/claim-business-button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+
+export default async function BusinessPage({
+	params,
+}: {
+	params: Promise<{ slug: string }>;
+}) {
+	const { slug } = await params;
+	const result = await fetchQuery(api.business.resolveBusinessSlug, {
+		slug: decodeURIComponent(slug),
+	});
+	if (!result) {
+		notFound();
+	}
+	if (result.redirectTo) {
+		permanentRedirect(`/businesses/${encodeURIComponent(result.redirectTo)}`);
+	}
+	const { business } = result;
+	const hours = business.openingHours ?? hoursFromLegacy(business.openingTime, business.closingTime);
+
+	return (
+		<div className="container mx-auto max-w-2xl px-4 py-8">
+			<Card>
+				{business.imageUrl && (
+					<img
+						src={business.imageUrl}
+						alt={business.name}
+						className="-mt-6 mb-2 h-56 w-full rounded-t-xl object-cover"
+					/>
+				)}
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2 text-2xl">
+						{business.name}
+						<OpenNowBadge business={business} />
+					</CardTitle>
+					{business.description && (
+						<CardDescription>{business.description}</CardDescription>
+					)}
+				</CardHeader>
+				<CardContent className="grid gap-1 text-sm">
+					{business.address && <p>{business.address}</p>}
+					{business.phone && <p>{business.phone}</p>}
+					{business.email && <p>{business.email}</p>}
+					{business.website && (
+						<a href={business.website} className="underline" rel="noopener noreferrer">
+							{business.website}
+						</a>
+					)}
+					{hours && (
+						<table className="mt-4 w-full max-w-sm">
+							<tbody>
+								{DAYS.map((day) => (
+									<tr key={day}>
+										<td className="pr-4 font-medium">{DAY_LABELS[day]}</td>
+										<td>{formatRanges(hours.weekly[day])}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+					{hours && hours.exceptions.length > 0 && (
+						<ul className="mt-2 text-muted-foreground">
+							{hours.exceptions.map((exception) => (
+								<li key={exception.date}>
+									{exception.date}
+									{exception.note && ` (${exception.note})`}: {formatRanges(exception.ranges)}
+								</li>
+							))}
+						</ul>
+					)}
+					<div className="mt-4">
+						<ClaimBusinessButton
+							businessId={business._id}
+							ownerId={business.ownerId}
+							hasEmail={Boolean(business.email)}
+						/>
+					</div>
+				</CardContent>
+			</Card>
+			<BusinessReviews businessId={business._id} />
+		</div>
+	);
+}
@@ -1,51 +1,221 @@
 "use client";
 
+import { Suspense, useState } from "react";
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
-import { SignInButton, UserButton, useUser } from "@clerk/nextjs";
-import {
-	Authenticated,
-	AuthLoading,
-	Unauthenticated,
-	useQuery,
-} from "convex/react";
-import { Card, CardHeader, CardTitle, CardContent, CardFooter, CardDescription } from "@/components/ui/card";
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { LocateFixed, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardHeader, CardFooter, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BusinessSearch } from "@/components/business-search";
+import { OpenNowBadge } from "@/components/open-now-badge";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useNow } from "@/hooks/use-now";
+import { isOpenAt } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours";
+import Loader from "@/components/loader";
 
+export default function BusinessesPage() {
+	return (
+		<Suspense fallback={<Loader />}>
+			<Businesses />
+		</Suspense>
+	);
+}
+
+function Businesses() {
+	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+	const query = searchParams.get("q") ?? "";
+	const category = searchParams.get("category") ?? undefined;
+	const locality = searchParams.get("locality") ?? undefined;
+	const openNow = searchParams.get("open") === "now";
+	const now = useNow();
+
+	const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+	const [locating, setLocating] = useState(false);
+	const [radiusKm, setRadiusKm] = useState(5);
 
-export default function UserAdmin() {
-	const user = useUser();
+	const categories = useQuery(api.categories.getCategories);
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.business.searchBusinesses,
+		position ? "skip" : { query, category, locality },
+		{ initialNumItems: 20 },
+	);
+	const loadMoreRef = useInfiniteScroll<HTMLDivElement>(
+		() => loadMore(20),
+		!position && status === "CanLoadMore",
+	);
+	const nearbyResults = useQuery(api.addresses.nearbyBusinesses, position ? { ...position, radiusKm } : "skip");
+
+	// Opening hours depend on the viewer's clock, so "open now" is filtered
+	// here rather than in the query.
+	const businesses = openNow ? results.filter((business) => isOpenAt(business, now)) : results;
+	const nearby = openNow ? nearbyResults?.filter(({ business }) => isOpenAt(business, now)) : nearbyResults;
 
-	const businessesConvex = useQuery(api.business.getBusinesses);
-	
-	// Return businesses as cards
-	// const businessesCards = businessesConvex?.map((business) => (
-	// 	<Card key={business._id}>
-	// 		<CardHeader>
-	// 			<CardTitle>{business.name}</CardTitle>
-	// 		</CardHeader>
-	// 	</Card>
-	// ));
+	const findNearMe = () => {
+		if (!navigator.geolocation) {
+			toast.error("Your browser can't share your location");
+			return;
+		}
+		setLocating(true);
+		navigator.geolocation.getCurrentPosition(
+			({ coords }) => {
+				setLocating(false);
+				setPosition({ latitude: coords.latitude, longitude: coords.longitude });
+			},
+			(error) => {
+				setLocating(false);
+				toast.error(
+					error.code === error.PERMISSION_DENIED
+						? "Location access was denied"
+						: "Couldn't work out where you are",
+				);
+			},
+			{ maximumAge: 5 * 60 * 1000 },
+		);
+	};
 
+	const setFilter = (key: "category" | "locality" | "open", value: string | undefined) => {
+		const params = new URLSearchParams(searchParams.toString());
+		if (value) {
+			params.set(key, value);
+		} else {
+			params.delete(key);
+		}
+		const search = params.toString();
+		router.replace(search ? `${pathname}?${search}` : pathname);
+	};
 
 	return (
-		<>
-			<div className="">
-							<h1>Businessses</h1>
-			
-							{businessesConvex?.map((business) => (
-									<Card key={business._id}>											
-													<CardHeader>
-														{business.name}
-													</CardHeader>
-													<CardDescription>	
-														{business.description}
-													</CardDescription>
-													<CardFooter>
-														<Button>View</Button>
-													</CardFooter>
-										</Card>
-									))}
+		<div className="container mx-auto max-w-3xl px-4 py-4">
+			<h1 className="mb-4 text-2xl font-bold">Businesses</h1>
+			<BusinessSearch className="mb-2" />
+			<div className="mb-4 flex flex-wrap items-center gap-2">
+				{!locality && (
+					<form
+						onSubmit={(e) => {
+							e.preventDefault();
+							const value = new FormData(e.currentTarget).get("locality")?.toString().trim();
+							setFilter("locality", value || undefined);
+						}}
+					>
+						<Input name="locality" placeholder="Filter by town or area" className="h-8 w-48" />
+					</form>
+				)}
+				<select
+					aria-label="Category"
+					className="h-8 rounded-md border bg-background px-2 text-sm"
+					value={category ?? ""}
+					onChange={(e) => setFilter("category", e.target.value || undefined)}
+				>
+					<option value="">All categories</option>
+					{categories?.map((c) => (
+						<option key={c._id} value={c.slug}>
+							{c.name}
+						</option>
+					))}
+				</select>
+				{locality && (
+					<Button size="sm" variant="secondary" onClick={() => setFilter("locality", undefined)}>
+						Locality: {locality} <X />
+					</Button>
+				)}
+				<Button
+					size="sm"
+					variant={openNow ? "secondary" : "outline"}
+					onClick={() => setFilter("open", openNow ? undefined : "now")}
+				>
+					Open now {openNow && <X />}
+				</Button>
+				{position ? (
+					<>
+						<select
+							aria-label="Distance"
+							className="h-8 rounded-md border bg-background px-2 text-sm"
+							value={radiusKm}
+							onChange={(e) => setRadiusKm(Number(e.target.value))}
+						>
+							{[1, 5, 10, 25, 50].map((km) => (
+								<option key={km} value={km}>
+									Within {km} km
+								</option>
+							))}
+						</select>
+						<Button size="sm" variant="secondary" onClick={() => setPosition(null)}>
+							Near me <X />
+						</Button>
+					</>
+				) : (
+					<Button size="sm" variant="outline" onClick={findNearMe} disabled={locating}>
+						<LocateFixed /> {locating ? "Locating..." : "Near me"}
+					</Button>
+				)}
+			</div>
+
+			{position ? (
+				nearby === undefined ? (
+					<Loader />
+				) : nearby.length === 0 ? (
+					<p className="text-muted-foreground">
+						{openNow ? `No businesses within ${radiusKm} km are open now.` : `No businesses within ${radiusKm} km.`}
+					</p>
+				) : (
+					<div className="grid gap-4">
+						{nearby.map(({ business, distanceKm }) => (
+							<Card key={business._id}>
+								<CardHeader className="flex-row items-center gap-2">
+									{business.name}
+									<OpenNowBadge business={business} />
+								</CardHeader>
+								<CardDescription className="px-6">
+									{distanceKm.toFixed(1)} km away
+									{business.description && ` · ${business.description}`}
+								</CardDescription>
+								<CardFooter>
+									<Button asChild>
+										<Link href={`/businesses/${encodeURIComponent(business.slug ?? "")}`}>View</Link>
+									</Button>
+								</CardFooter>
+							</Card>
+						))}
 					</div>
-		</>
+				)
+			) : status === "LoadingFirstPage" ? (
+				<Loader />
+			) : businesses.length === 0 ? (
+				<p className="text-muted-foreground">
+					{openNow
+						? "None of these businesses are open right now."
+						: query
+							? `No businesses match "${query}".`
+							: "No businesses yet."}
+				</p>
+			) : (
+				<div className="grid gap-4">
+					{businesses.map((business) => (
+						<Card key={business._id}>
+							<CardHeader className="flex-row items-center gap-2">
+								{business.name}
+								<OpenNowBadge business={business} />
+							</CardHeader>
+							<CardDescription className="px-6">{business.description}</CardDescription>
+							<CardFooter>
+								<Button asChild>
+									<Link href={`/businesses/${encodeURIComponent(business.slug ?? "")}`}>View</Link>
+								</Button>
+							</CardFooter>
+						</Card>
+					))}
+				</div>
+			)}
+
+			{/* Loads the next page as it scrolls into view */}
+			<div ref={loadMoreRef} />
+			{!position && status === "LoadingMore" && <Loader />}
+		</div>
 	);
 }
@@ -0,0 +1,86 @@
+"use client";
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Card, CardDescription, CardFooter, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import Loader from "@/components/loader";
+
+export default function CategoryPage() {
+	const { slug } = useParams<{ slug: string }>();
+	const result = useQuery(api.categories.getCategoryBySlug, {
+		slug: decodeURIComponent(slug ?? ""),
+	});
+
+	if (result === undefined) {
+		return <Loader />;
+	}
+	if (result === null) {
+		return (
+			<div className="container mx-auto max-w-3xl px-4 py-4">
+				<h1 className="text-2xl font-bold">Category not found</h1>
+			</div>
+		);
+	}
+
+	const { category, parent, children } = result;
+	return (
+		<div className="container mx-auto max-w-3xl px-4 py-4">
+			{parent && (
+				<Link href={`/categories/${encodeURIComponent(parent.slug ?? "")}`} className="text-sm underline">
+					{parent.name}
+				</Link>
+			)}
+			<h1 className="text-2xl font-bold">{category.name}</h1>
+			{category.description && <p className="text-muted-foreground">{category.description}</p>}
+			{children.length > 0 && (
+				<div className="my-4 flex flex-wrap gap-2">
+					{children.map((child) => (
+						<Button key={child._id} variant="outline" size="sm" asChild>
+							<Link href={`/categories/${encodeURIComponent(child.slug ?? "")}`}>{child.name}</Link>
+						</Button>
+					))}
+				</div>
+			)}
+			<CategoryBusinesses categoryId={category._id} />
+		</div>
+	);
+}
+
+function CategoryBusinesses({ categoryId }: { categoryId: Id<"categories"> }) {
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.categories.getCategoryBusinesses,
+		{ categoryId },
+		{ initialNumItems: 20 },
+	);
+
+	if (status === "LoadingFirstPage") {
+		return <Loader />;
+	}
+	return (
+		<div className="mt-4 grid gap-4">
+			{results.length === 0 && (
+				<p className="text-muted-foreground">No businesses in this category yet.</p>
+			)}
+			{results.map((business) => (
+				<Card key={business._id}>
+					<CardHeader>{business.name}</CardHeader>
+					<CardDescription className="px-6">{business.description}</CardDescription>
+					<CardFooter>
+						<Button asChild>
+							<Link href={`/businesses/${encodeURIComponent(business.slug ?? "")}`}>View</Link>
+						</Button>
+					</CardFooter>
+				</Card>
+			))}
+			{status === "CanLoadMore" && (
+				<Button variant="outline" onClick={() => loadMore(20)}>
+					Load more
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { useQuery } from "convex/react";
+import Link from "next/link";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import Loader from "@/components/loader";
+
+export default function CategoriesPage() {
+	const categories = useQuery(api.categories.getCategories);
+
+	if (categories === undefined) {
+		return <Loader />;
+	}
+
+	const topLevel = categories.filter((category) => !category.parentId);
+
+	return (
+		<div className="container mx-auto max-w-3xl px-4 py-4">
+			<h1 className="mb-4 text-2xl font-bold">Categories</h1>
+			<div className="grid gap-4 sm:grid-cols-2">
+				{topLevel.map((category) => (
+					<Card key={category._id}>
+						<CardHeader>
+							<CardTitle>
+								<Link href={`/categories/${encodeURIComponent(category.slug ?? "")}`}>
+									{category.name}
+								</Link>
+							</CardTitle>
+							{category.description && <CardDescription>{category.description}</CardDescription>}
+							<div className="flex flex-wrap gap-x-3 text-sm">
+								{categories
+									.filter((child) => child.parentId === category._id)
+									.map((child) => (
+										<Link
+											key={child._id}
+											href={`/categories/${encodeURIComponent(child.slug ?? "")}`}
+											className="underline"
+										>
+											{child.name}
+										</Link>
+									))}
+							</div>
+						</CardHeader>
+					</Card>
+				))}
+			</div>
+		</div>
+	);
+}
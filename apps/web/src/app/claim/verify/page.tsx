@@ -0,0 +1,67 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { SignInButton } from "@clerk/nextjs";
+import { Authenticated, AuthLoading, Unauthenticated, useMutation } from "convex/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import Loader from "@/components/loader";
+
+export default function VerifyClaimPage() {
+	return (
+		<div className="container mx-auto max-w-lg px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">Confirm ownership</h1>
+			<Authenticated>
+				<Suspense fallback={<Loader />}>
+					<ConfirmClaim />
+				</Suspense>
+			</Authenticated>
+			<Unauthenticated>
+				<p className="mb-4 text-muted-foreground">
+					Sign in with the account you used to claim the business.
+				</p>
+				<SignInButton />
+			</Unauthenticated>
+			<AuthLoading>
+				<Loader />
+			</AuthLoading>
+		</div>
+	);
+}
+
+function ConfirmClaim() {
+	const router = useRouter();
+	const token = useSearchParams().get("token") ?? "";
+	const confirmClaim = useMutation(api.claims.confirmClaim);
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	if (!token) {
+		return <p className="text-destructive">This link is missing its token.</p>;
+	}
+
+	const confirm = async () => {
+		setPending(true);
+		setError(null);
+		try {
+			await confirmClaim({ token });
+			router.push("/my-businesses");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Could not confirm the claim");
+			setPending(false);
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			<p className="text-muted-foreground">
+				Confirm to link this business to your account. You'll be able to edit its listing.
+			</p>
+			<Button onClick={confirm} disabled={pending}>
+				{pending ? "Confirming..." : "Confirm ownership"}
+			</Button>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+		</div>
+	);
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { SignInButton } from "@clerk/nextjs";
+import { Authenticated, AuthLoading, Unauthenticated, useMutation, useQuery } from "convex/react";
+import Link from "next/link";
+import { EditBusinessForm } from "@/components/EditBusinessForm";
+import Loader from "@/components/loader";
+
+export default function MyBusinessesPage() {
+	return (
+		<div className="container mx-auto max-w-2xl px-4 py-8">
+			<h1 className="mb-4 text-2xl font-bold">My businesses</h1>
+			<Authenticated>
+				<OwnedBusinesses />
+			</Authenticated>
+			<Unauthenticated>
+				<SignInButton />
+			</Unauthenticated>
+			<AuthLoading>
+				<Loader />
+			</AuthLoading>
+		</div>
+	);
+}
+
+function OwnedBusinesses() {
+	const businesses = useQuery(api.claims.getMyBusinesses);
+	const updateOwnedBusiness = useMutation(api.claims.updateOwnedBusiness);
+
+	if (businesses === undefined) {
+		return <Loader />;
+	}
+	if (businesses.length === 0) {
+		return (
+			<p className="text-muted-foreground">
+				You don't manage any listings yet. Find your business and choose "Claim this business".
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-12">
+			{businesses.map((business) => (
+				<section key={business._id} className="space-y-2">
+					<div className="flex items-center justify-between">
+						<h2 className="text-xl font-semibold">{business.name}</h2>
+						{business.slug && (
+							<Link
+								href={`/businesses/${encodeURIComponent(business.slug)}`}
+								className="text-sm text-muted-foreground hover:underline"
+							>
+								View listing
+							</Link>
+						)}
+					</div>
+					<EditBusinessForm
+						id={business._id}
+						name={business.name}
+						description={business.description}
+						email={business.email}
+						imageUrl={business.imageUrl}
+						save={(value) => updateOwnedBusiness({ id: business._id, business: value })}
+					/>
+				</section>
+			))}
+		</div>
+	);
+}
@@ -2,6 +2,7 @@
 
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
 import { SignInButton, UserButton, useUser } from "@clerk/nextjs";
+import Link from "next/link";
 import {
 	Authenticated,
 	AuthLoading,
@@ -14,8 +15,6 @@ export default function Dashboard() {
 	const privateData = useQuery(api.privateData.get);
 
 
-	const usersConvex = useQuery(api.user.getUsers);
-
 	return (
 		<>
 			<Authenticated>
@@ -24,6 +23,9 @@ export default function Dashboard() {
 					<p>Welcome {user.user?.fullName}</p>
 					<p>privateData: {privateData?.message}</p>
 					<UserButton />
+					<Link href="/my-businesses" className="underline">
+						My businesses
+					</Link>
 				</div>
 			</Authenticated>
 			<Unauthenticated>
@@ -3,26 +3,48 @@
 import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
 import { fetchMutation } from "convex/nextjs";
 import { z } from "zod";
+import { botCheckFromFormData, rejectionMessage, withUserAgent } from "@/lib/bot-check";
+import { signedClientIp } from "@/lib/client-ip";
+import { rateLimitMessage } from "@/lib/rate-limit";
 
 const WaitlistSchema = z.object({
   email: z.string().email(),
   name: z.string().optional(),
   phone: z.string().optional(),
+  referralCode: z.string().optional(),
 });
 
-export async function submitWaitlist(formData: FormData) {
+export type WaitlistState = { ok: true } | { ok: false; error: string } | null;
+
+export async function submitWaitlist(_state: WaitlistState, formData: FormData): Promise<WaitlistState> {
   const parsed = WaitlistSchema.safeParse({
     email: formData.get("email")?.toString(),
     name: formData.get("name")?.toString() || undefined,
     phone: formData.get("phone")?.toString() || undefined,
+    referralCode: formData.get("referralCode")?.toString() || undefined,
   });
 
   if (!parsed.success) {
     return { ok: false, error: "Invalid input" } as const;
   }
 
-  await fetchMutation(api.waitlist.addEmail, parsed.data);
+  let result;
+  try {
+    result = await fetchMutation(api.waitlist.addEmail, {
+      ...parsed.data,
+      ip: await signedClientIp(),
+      botCheck: await withUserAgent(botCheckFromFormData(formData)),
+    });
+  } catch (error) {
+    const message = rateLimitMessage(error);
+    if (message) {
+      return { ok: false, error: message } as const;
+    }
+    throw error;
+  }
+  if (!result.ok && result.reason !== "honeypot") {
+    return { ok: false, error: rejectionMessage(result.reason) } as const;
+  }
+  // Honeypot hits look like a success so the bot moves on
   return { ok: true } as const;
 }
-
-
@@ -0,0 +1,107 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { useMutation, useQuery } from "convex/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import Loader from "@/components/loader";
+
+export default function ConfirmWaitlistPage() {
+	return (
+		<div className="mx-auto max-w-md p-6">
+			<Suspense fallback={<Loader />}>
+				<ConfirmWaitlist />
+			</Suspense>
+		</div>
+	);
+}
+
+function ConfirmWaitlist() {
+	const router = useRouter();
+	const searchParams = useSearchParams();
+	const token = searchParams.get("token") ?? "";
+	const code = searchParams.get("code");
+	const confirmEmail = useMutation(api.waitlist.confirmEmail);
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	if (code) {
+		return <WaitlistPosition referralCode={code} />;
+	}
+	if (!token) {
+		return <p className="text-destructive">This link is missing its token.</p>;
+	}
+
+	const confirm = async () => {
+		setPending(true);
+		setError(null);
+		try {
+			const referralCode = await confirmEmail({ token });
+			// The token is single-use, so keep the page reachable by code instead
+			router.replace(referralCode ? `/waitlist/confirm?code=${referralCode}` : "/waitlist");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Could not confirm your email");
+			setPending(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Confirm your email</CardTitle>
+				<CardDescription>One click and your place on the waitlist is saved.</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<Button onClick={confirm} disabled={pending}>
+					{pending ? "Confirming..." : "Confirm my email"}
+				</Button>
+				{error && <p className="text-sm text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	);
+}
+
+function WaitlistPosition({ referralCode }: { referralCode: string }) {
+	const entry = useQuery(api.waitlist.getWaitlistEntry, { referralCode });
+
+	if (entry === undefined) {
+		return <Loader />;
+	}
+	if (entry === null) {
+		return <p className="text-muted-foreground">We couldn't find a confirmed waitlist place for this code.</p>;
+	}
+
+	const copy = async () => {
+		await navigator.clipboard.writeText(entry.referralLink);
+		toast.success("Link copied");
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>You're on the list!</CardTitle>
+				<CardDescription>
+					You're number {entry.position} of {entry.total} in the queue.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<p className="text-sm">
+					{entry.referralCount === 1
+						? "1 friend has joined with your link."
+						: `${entry.referralCount} friends have joined with your link.`}{" "}
+					Each one moves you up the queue.
+				</p>
+				<div className="flex gap-2">
+					<Input readOnly value={entry.referralLink} onFocus={(e) => e.currentTarget.select()} />
+					<Button variant="outline" onClick={copy}>
+						Copy
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
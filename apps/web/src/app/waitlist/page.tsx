@@ -1,27 +1,25 @@
-import { submitWaitlist } from "./actions";
-import { Input } from "@/components/ui/input";
-import { Button } from "@/components/ui/button";
+import { WaitlistForm } from "@/components/waitlist-form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
-export default function WaitlistPage() {
+export default async function WaitlistPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ ref?: string }>;
+}) {
+  const { ref } = await searchParams;
   return (
     <div className="mx-auto max-w-md p-6">
       <Card>
         <CardHeader>
           <CardTitle>Join the Waitlist</CardTitle>
-          <CardDescription>Get notified when we launch.</CardDescription>
+          <CardDescription>
+            {ref ? "A friend invited you. Join to move you both up the queue." : "Get notified when we launch."}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <form action={submitWaitlist} className="grid gap-4">
-            <Input name="email" type="email" placeholder="you@example.com" required />
-            <div className="flex items-center gap-2">
-              <Button type="submit" className="w-full">Notify me</Button>
-            </div>
-          </form>
+          <WaitlistForm referralCode={ref} />
         </CardContent>
       </Card>
     </div>
   );
 }
-
-
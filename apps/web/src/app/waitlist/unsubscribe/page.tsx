@@ -0,0 +1,67 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { useMutation } from "convex/react";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import Loader from "@/components/loader";
+
+export default function UnsubscribePage() {
+	return (
+		<div className="mx-auto max-w-md p-6">
+			<Suspense fallback={<Loader />}>
+				<Unsubscribe />
+			</Suspense>
+		</div>
+	);
+}
+
+function Unsubscribe() {
+	const searchParams = useSearchParams();
+	const id = searchParams.get("id") ?? "";
+	const signature = searchParams.get("signature") ?? "";
+	const unsubscribe = useMutation(api.waitlist.unsubscribe);
+	const [state, setState] = useState<"idle" | "pending" | "done">("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	if (!id || !signature) {
+		return <p className="text-destructive">This unsubscribe link is incomplete.</p>;
+	}
+
+	// A button rather than unsubscribing on load, so link scanners in mail
+	// clients can't unsubscribe people by following the link.
+	const confirm = async () => {
+		setState("pending");
+		setError(null);
+		try {
+			await unsubscribe({ id, signature });
+			setState("done");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Could not unsubscribe");
+			setState("idle");
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Leave the waitlist</CardTitle>
+				<CardDescription>
+					{state === "done"
+						? "You've been removed from the waitlist and won't hear from us again."
+						: "We'll stop emailing you and give up your place in the queue."}
+				</CardDescription>
+			</CardHeader>
+			{state !== "done" && (
+				<CardContent className="space-y-4">
+					<Button variant="destructive" onClick={confirm} disabled={state === "pending"}>
+						{state === "pending" ? "Unsubscribing..." : "Unsubscribe"}
+					</Button>
+					{error && <p className="text-sm text-destructive">{error}</p>}
+				</CardContent>
+			)}
+		</Card>
+	);
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from "react"
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+
+type BusinessCategoriesEditorProps = {
+  businessId: Id<"businesses">
+}
+
+/**
+ * Checkbox list for linking a business to categories. The first category
+ * ticked is the primary one used by search filters.
+ */
+export function BusinessCategoriesEditor({ businessId }: BusinessCategoriesEditorProps) {
+  const categories = useQuery(api.categories.getCategories)
+  const linked = useQuery(api.categories.getBusinessCategories, { businessId })
+  const setBusinessCategories = useMutation(api.categories.setBusinessCategories)
+  const [selected, setSelected] = useState<Id<"categories">[]>([])
+  const [primaryId, setPrimaryId] = useState<Id<"categories"> | undefined>()
+
+  useEffect(() => {
+    if (linked) {
+      setSelected(linked.map((category) => category._id))
+    }
+  }, [linked])
+
+  const toggle = (id: Id<"categories">, checked: boolean) => {
+    setSelected((current) =>
+      checked ? [...current, id] : current.filter((existing) => existing !== id),
+    )
+  }
+
+  const save = async () => {
+    const ordered = primaryId && selected.includes(primaryId)
+      ? [primaryId, ...selected.filter((id) => id !== primaryId)]
+      : selected
+    try {
+      await setBusinessCategories({ businessId, categoryIds: ordered })
+      toast.success("Categories saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not save categories")
+    }
+  }
+
+  if (categories === undefined || linked === undefined) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-semibold">Categories</h2>
+      {categories.length === 0 && (
+        <p className="text-sm text-muted-foreground">No categories have been created yet.</p>
+      )}
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        {categories.map((category) => {
+          const checked = selected.includes(category._id)
+          const isPrimary = checked && (primaryId ?? selected[0]) === category._id
+          return (
+            <div key={category._id} className="flex items-center gap-2">
+              <Checkbox
+                id={`category-${category._id}`}
+                checked={checked}
+                onCheckedChange={(value) => toggle(category._id, value === true)}
+              />
+              <Label htmlFor={`category-${category._id}`}>{category.name}</Label>
+              {checked && (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground underline"
+                  onClick={() => setPrimaryId(category._id)}
+                >
+                  {isPrimary ? "primary" : "make primary"}
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      <Button type="button" onClick={save}>Save categories</Button>
+    </div>
+  )
+}
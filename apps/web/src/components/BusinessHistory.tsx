@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from "react"
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import {
+  DAY_LABELS,
+  DAYS,
+  formatRanges,
+  type OpeningHours,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours"
+import {
+  SNAPSHOT_FIELDS,
+  type BusinessSnapshot,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/businessVersions"
+import { useMutation, useQuery } from "convex/react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import Loader from "@/components/loader"
+import { cn } from "@/lib/utils"
+
+type BusinessHistoryProps = {
+  businessId: Id<"businesses">
+}
+
+type Field = (typeof SNAPSHOT_FIELDS)[number]
+
+/**
+ * The revision timeline of a business: pick any two versions to compare
+ * side by side, or restore one.
+ */
+export function BusinessHistory({ businessId }: BusinessHistoryProps) {
+  const versions = useQuery(api.businessVersions.getBusinessVersions, { businessId })
+  const restoreVersion = useMutation(api.businessVersions.restoreBusinessVersion)
+  const [left, setLeft] = useState<number | null>(null)
+  const [right, setRight] = useState<number | null>(null)
+
+  if (versions === undefined) {
+    return <Loader />
+  }
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No edits have been recorded for this business yet.</p>
+  }
+
+  const latest = versions[0]
+  const older = versions.find((version) => version.version === left) ?? versions[1] ?? latest
+  const newer = versions.find((version) => version.version === right) ?? latest
+
+  const restore = async (id: Id<"businessVersions">, version: number) => {
+    if (!confirm(`Restore version ${version}? The current details will be replaced.`)) {
+      return
+    }
+    try {
+      await restoreVersion({ id })
+      toast.success(`Restored version ${version}`)
+      setLeft(null)
+      setRight(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not restore version")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">Compare versions</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <VersionSelect versions={versions} value={older.version} onChange={setLeft} />
+          <span>with</span>
+          <VersionSelect versions={versions} value={newer.version} onChange={setRight} />
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Version {older.version}</TableHead>
+              <TableHead>Version {newer.version}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SNAPSHOT_FIELDS.map((field) => {
+              const changed = JSON.stringify(older.snapshot[field]) !== JSON.stringify(newer.snapshot[field])
+              return (
+                <TableRow key={field} className={cn("align-top", changed && "bg-yellow-50 dark:bg-yellow-950")}>
+                  <TableCell className="font-medium">{field}</TableCell>
+                  <TableCell className="whitespace-normal">
+                    <FieldValue field={field} snapshot={older.snapshot} imageUrl={older.imageUrl} />
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    <FieldValue field={field} snapshot={newer.snapshot} imageUrl={newer.imageUrl} />
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">Timeline</h2>
+        <ul className="space-y-2">
+          {versions.map((version) => (
+            <li key={version._id} className="flex items-center gap-3 text-sm">
+              <span className="font-medium">v{version.version}</span>
+              <span>{new Date(version.createdAt).toLocaleString()}</span>
+              <span className="text-muted-foreground">{version.actorName ?? version.actorId ?? "System"}</span>
+              {version.restoredFrom !== undefined && (
+                <span className="text-xs text-muted-foreground">restored from v{version.restoredFrom}</span>
+              )}
+              {version._id === latest._id ? (
+                <span className="ml-auto text-xs text-muted-foreground">current</span>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ml-auto"
+                  onClick={() => restore(version._id, version.version)}
+                >
+                  Restore
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: { _id: string; version: number; createdAt: string }[]
+  value: number
+  onChange: (version: number) => void
+}) {
+  return (
+    <select
+      className="h-9 rounded-md border bg-background px-2"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    >
+      {versions.map((version) => (
+        <option key={version._id} value={version.version}>
+          v{version.version} – {new Date(version.createdAt).toLocaleDateString()}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function FieldValue({
+  field,
+  snapshot,
+  imageUrl,
+}: {
+  field: Field
+  snapshot: BusinessSnapshot
+  imageUrl: string | null
+}) {
+  const value = snapshot[field]
+  if (value === undefined) {
+    return <span className="text-muted-foreground">(none)</span>
+  }
+  if (field === "imageId") {
+    return imageUrl ? <img src={imageUrl} alt="" className="h-16 w-16 rounded object-cover" /> : <span>(missing)</span>
+  }
+  if (field === "openingHours") {
+    const hours = value as OpeningHours
+    return (
+      <ul>
+        {DAYS.map((day) => (
+          <li key={day}>
+            {DAY_LABELS[day]}: {formatRanges(hours.weekly[day])}
+          </li>
+        ))}
+        {hours.exceptions.map((exception) => (
+          <li key={exception.date}>
+            {exception.date}: {formatRanges(exception.ranges)}
+          </li>
+        ))}
+      </ul>
+    )
+  }
+  return <span>{String(value)}</span>
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from "react"
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import {
+  emptyOpeningHours,
+  hoursFromLegacy,
+  openingHoursErrors,
+  type OpeningHours,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours"
+import { useMutation } from "convex/react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { WeeklyHoursEditor } from "@/components/WeeklyHoursEditor"
+
+type BusinessHoursEditorProps = {
+  businessId: Id<"businesses">
+  openingHours?: OpeningHours
+  openingTime?: string
+  closingTime?: string
+}
+
+/**
+ * Opening hours section of the business edit page. Businesses that only
+ * have the old opening/closing times start from those, every day.
+ */
+export function BusinessHoursEditor({ businessId, openingHours, openingTime, closingTime }: BusinessHoursEditorProps) {
+  const setOpeningHours = useMutation(api.business.setOpeningHours)
+  const [hours, setHours] = useState<OpeningHours>(emptyOpeningHours)
+
+  useEffect(() => {
+    setHours(openingHours ?? hoursFromLegacy(openingTime, closingTime) ?? emptyOpeningHours())
+  }, [openingHours, openingTime, closingTime])
+
+  const errors = openingHoursErrors(hours)
+
+  const save = async () => {
+    try {
+      await setOpeningHours({ id: businessId, openingHours: hours })
+      toast.success("Opening hours saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not save opening hours")
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-semibold">Opening hours</h2>
+      <WeeklyHoursEditor value={hours} onChange={setHours} />
+      {errors.length > 0 && (
+        <ul className="text-sm text-destructive">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <Button type="button" onClick={save} disabled={errors.length > 0}>Save opening hours</Button>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from "react"
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+type BusinessLocationEditorProps = {
+  businessId: Id<"businesses">
+}
+
+/**
+ * Latitude/longitude inputs for a business. Addresses are placed at their
+ * postcode by default; exact coordinates make "near me" results accurate.
+ */
+export function BusinessLocationEditor({ businessId }: BusinessLocationEditorProps) {
+  const address = useQuery(api.addresses.getBusinessAddress, { businessId })
+  const setBusinessCoordinates = useMutation(api.addresses.setBusinessCoordinates)
+  const [latitude, setLatitude] = useState("")
+  const [longitude, setLongitude] = useState("")
+
+  useEffect(() => {
+    setLatitude(address?.latitude?.toString() ?? "")
+    setLongitude(address?.longitude?.toString() ?? "")
+  }, [address])
+
+  const save = async (coordinates: { latitude?: number; longitude?: number }) => {
+    try {
+      await setBusinessCoordinates({ businessId, ...coordinates })
+      toast.success("Location saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not save location")
+    }
+  }
+
+  if (address === undefined) {
+    return null
+  }
+
+  const parsedLatitude = Number.parseFloat(latitude)
+  const parsedLongitude = Number.parseFloat(longitude)
+  const valid = Number.isFinite(parsedLatitude) && Number.isFinite(parsedLongitude)
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-semibold">Location</h2>
+      <p className="text-sm text-muted-foreground">
+        {address?.coordinateSource === "manual"
+          ? "Using coordinates entered by hand."
+          : address?.coordinateSource === "postcode"
+            ? postcodeLocation(address.coordinatePrecision, address.Postcode)
+            : "No location yet. Add a postcode to the address or enter coordinates."}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="latitude">Latitude</Label>
+          <Input id="latitude" inputMode="decimal" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="longitude">Longitude</Label>
+          <Input id="longitude" inputMode="decimal" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          disabled={!valid}
+          onClick={() => save({ latitude: parsedLatitude, longitude: parsedLongitude })}
+        >
+          Save location
+        </Button>
+        {address?.coordinateSource === "manual" && (
+          <Button type="button" variant="outline" onClick={() => save({})}>
+            Use postcode location
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function postcodeLocation(precision: string | undefined, postcode: string | undefined) {
+  switch (precision) {
+    case "district":
+      return `Approximate location from the ${postcode?.split(" ")[0]} postcode district.`
+    default:
+      return `Rough location from the ${postcode} postcode area. Enter coordinates for accurate "near me" results.`
+  }
+}
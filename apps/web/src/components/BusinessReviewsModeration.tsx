@@ -0,0 +1,63 @@
+'use client';
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import { useMutation, usePaginatedQuery } from "convex/react"
+import { toast } from "sonner"
+import { StarRating } from "@/components/business-reviews"
+import { Button } from "@/components/ui/button"
+
+type BusinessReviewsModerationProps = {
+  businessId: Id<"businesses">
+}
+
+/** All reviews of a business, hidden ones included, with hide/unhide. */
+export function BusinessReviewsModeration({ businessId }: BusinessReviewsModerationProps) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.reviews.getAllReviews,
+    { businessId },
+    { initialNumItems: 20 },
+  )
+  const setReviewHidden = useMutation(api.reviews.setReviewHidden)
+
+  const toggle = async (id: Id<"reviews">, hidden: boolean) => {
+    try {
+      await setReviewHidden({ id, hidden })
+      toast.success(hidden ? "Review hidden" : "Review restored")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not update review")
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-semibold">Reviews</h2>
+      {status !== "LoadingFirstPage" && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">No reviews yet.</p>
+      )}
+      <ul className="space-y-3">
+        {results.map((review) => (
+          <li key={review._id} className={review.hidden ? "opacity-60" : undefined}>
+            <div className="flex items-center gap-2">
+              <StarRating value={review.stars} />
+              <span className="text-sm font-medium">{review.authorName}</span>
+              {review.hidden && <span className="text-xs text-muted-foreground">hidden</span>}
+              <Button
+                size="sm"
+                variant="outline"
+                className="ml-auto"
+                onClick={() => toggle(review._id, !review.hidden)}
+              >
+                {review.hidden ? "Unhide" : "Hide"}
+              </Button>
+            </div>
+            {review.text && <p className="text-sm">{review.text}</p>}
+          </li>
+        ))}
+      </ul>
+      {status === "CanLoadMore" && (
+        <Button variant="outline" onClick={() => loadMore(20)}>Load more</Button>
+      )}
+    </div>
+  )
+}
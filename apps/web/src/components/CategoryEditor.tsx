@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Doc, Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { useMutation } from "convex/react";
+import { toast } from "sonner";
+import { ImageDropzone } from "@/components/ImageDropzone";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Category = Doc<"categories">;
+
+export function ParentSelect({
+	categories,
+	value,
+	onChange,
+	exclude,
+}: {
+	categories: Category[];
+	value: string;
+	onChange: (value: string) => void;
+	exclude?: Id<"categories">;
+}) {
+	return (
+		<select
+			className="h-9 rounded-md border bg-background px-2"
+			value={value}
+			onChange={(e) => onChange(e.target.value)}
+		>
+			<option value="">No parent</option>
+			{categories
+				.filter((category) => category._id !== exclude)
+				.map((category) => (
+					<option key={category._id} value={category._id}>
+						{category.name}
+					</option>
+				))}
+		</select>
+	);
+}
+
+/**
+ * Edits one category: its name, slug, description, parent and image. The
+ * image is saved as soon as it is uploaded; the other fields on Save.
+ */
+export function CategoryEditor({
+	category,
+	categories,
+	onDone,
+}: {
+	category: Category & { imageUrl: string | null };
+	categories: Category[];
+	onDone: () => void;
+}) {
+	const updateCategory = useMutation(api.categories.updateCategory);
+	const setCategoryImage = useMutation(api.categories.setCategoryImage);
+	const [name, setName] = useState(category.name);
+	const [slug, setSlug] = useState(category.slug ?? "");
+	const [description, setDescription] = useState(category.description ?? "");
+	const [parentId, setParentId] = useState<string>(category.parentId ?? "");
+
+	const save = async () => {
+		try {
+			await updateCategory({
+				id: category._id,
+				name,
+				description,
+				parentId: (parentId || null) as Id<"categories"> | null,
+				slug: slug !== category.slug ? slug : undefined,
+			});
+			toast.success(`Saved ${name}`);
+			onDone();
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Something went wrong");
+		}
+	};
+
+	return (
+		<div className="grid gap-4 py-2 md:grid-cols-[1fr_16rem]">
+			<div className="grid gap-3">
+				<div className="grid gap-1">
+					<Label htmlFor={`name-${category._id}`}>Name</Label>
+					<Input id={`name-${category._id}`} value={name} onChange={(e) => setName(e.target.value)} />
+				</div>
+				<div className="grid gap-1">
+					<Label htmlFor={`slug-${category._id}`}>Slug</Label>
+					<Input id={`slug-${category._id}`} value={slug} onChange={(e) => setSlug(e.target.value)} />
+				</div>
+				<div className="grid gap-1">
+					<Label htmlFor={`description-${category._id}`}>Description</Label>
+					<Input
+						id={`description-${category._id}`}
+						value={description}
+						onChange={(e) => setDescription(e.target.value)}
+					/>
+				</div>
+				<div className="grid gap-1">
+					<Label>Parent</Label>
+					<ParentSelect
+						categories={categories}
+						value={parentId}
+						onChange={setParentId}
+						exclude={category._id}
+					/>
+				</div>
+				<div className="flex gap-2">
+					<Button size="sm" onClick={save}>
+						Save
+					</Button>
+					<Button size="sm" variant="outline" onClick={onDone}>
+						Cancel
+					</Button>
+				</div>
+			</div>
+			<ImageDropzone
+				imageUrl={category.imageUrl}
+				onChange={async (imageId) => {
+					await setCategoryImage({ id: category._id, imageId });
+					toast.success(imageId ? "Image saved" : "Image removed");
+				}}
+			/>
+		</div>
+	);
+}
@@ -4,14 +4,30 @@ import { revalidateLogic } from "@tanstack/react-form"
 import { toast } from "sonner"
 import { Input } from "@/components/ui/input"
 import { EditBusiness } from "@/app/actions"
+import { ImageDropzone } from "@/components/ImageDropzone"
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import { useMutation } from "convex/react"
+
+type EditBusinessFormValues = {
+  name: string
+  description: string
+  email: string
+}
 
 type EditBusinessFormProps = {
+  id: Id<"businesses">
+  onSaved?: (slug: string | null) => void
+  // Defaults to the admin server action; owners pass their own mutation.
+  save?: (value: EditBusinessFormValues) => Promise<string | null>
   name?: string
   description?: string
   email?: string
+  imageUrl?: string | null
 }
 
 export function EditBusinessForm(props: EditBusinessFormProps) {
+  const setBusinessImage = useMutation(api.business.setBusinessImage)
   const editBusinessForm = useAppForm({
     defaultValues: {
       name: "",
@@ -23,11 +39,21 @@ export function EditBusinessForm(props: EditBusinessFormProps) {
       onDynamic: editBusinessFormSchema,
       onDynamicAsyncDebounceMs: 300
     },
-    onSubmit: ({
+    onSubmit: async ({
       value
     }) => {
-      toast.success("success");
-      EditBusiness(value);
+      if (props.save) {
+        try {
+          props.onSaved?.(await props.save(value));
+          toast.success("Business updated");
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : "Could not update business");
+        }
+        return;
+      }
+      const result = await EditBusiness(props.id, value);
+      toast.success(result.message);
+      props.onSaved?.(result.data.slug);
     },
     onSubmitInvalid({
       formApi
@@ -48,6 +74,13 @@ export function EditBusinessForm(props: EditBusinessFormProps) {
     <editBusinessForm.AppForm>
       <editBusinessForm.Form>
          <h1 className="text-3xl font-bold">Edit Business</h1>
+         <ImageDropzone
+           imageUrl={props.imageUrl}
+           onChange={async (imageId) => {
+             await setBusinessImage({ id: props.id, imageId })
+             toast.success(imageId ? "Image saved" : "Image removed")
+           }}
+         />
 <editBusinessForm.AppField name={"name"}>
                 {(field) => (
                     <field.FieldSet className="w-full">
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useRef, useState } from "react"
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import { IMAGE_TYPES, imageError } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/images"
+import { useMutation } from "convex/react"
+import { ImagePlus, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+type ImageDropzoneProps = {
+  // The image currently saved, if any
+  imageUrl?: string | null
+  onChange: (storageId: Id<"_storage"> | null) => unknown
+  label?: string
+  className?: string
+}
+
+/**
+ * Drag-and-drop (or click to choose) image picker. Files are checked
+ * against the backend's type and size limits, uploaded straight to Convex
+ * storage and handed to `onChange` as a storage ID.
+ */
+export function ImageDropzone({ imageUrl, onChange, label = "Image", className }: ImageDropzoneProps) {
+  const generateUploadUrl = useMutation(api.images.generateUploadUrl)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [removed, setRemoved] = useState(false)
+
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview)
+    }
+  }, [preview])
+
+  const upload = async (file: File) => {
+    const error = imageError({ type: file.type, size: file.size })
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setPreview(URL.createObjectURL(file))
+    setRemoved(false)
+    setUploading(true)
+    try {
+      const response = await fetch(await generateUploadUrl(), {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      })
+      if (!response.ok) {
+        throw new Error("Upload failed")
+      }
+      const { storageId } = (await response.json()) as { storageId: Id<"_storage"> }
+      await onChange(storageId)
+    } catch (error) {
+      setPreview(null)
+      toast.error(error instanceof Error ? error.message : "Could not upload image")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const remove = async () => {
+    try {
+      await onChange(null)
+      setPreview(null)
+      setRemoved(true)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not remove image")
+    }
+  }
+
+  const shown = preview ?? (removed ? null : imageUrl)
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <p className="text-sm font-medium">{label}</p>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === " ") inputRef.current?.click()
+        }}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragging(false)
+          const file = e.dataTransfer.files[0]
+          if (file) upload(file)
+        }}
+        className={cn(
+          "relative flex h-40 cursor-pointer items-center justify-center overflow-hidden rounded-md border-2 border-dashed text-sm text-muted-foreground transition-colors",
+          dragging ? "border-primary bg-primary/5" : "border-input",
+          uploading && "opacity-60",
+        )}
+      >
+        {shown ? (
+          <img src={shown} alt="" className="h-full w-full object-cover" />
+        ) : (
+          <div className="flex flex-col items-center gap-1">
+            <ImagePlus className="h-6 w-6" />
+            <span>Drop an image here or click to choose</span>
+            <span className="text-xs">JPEG, PNG, WebP or GIF up to 5MB</span>
+          </div>
+        )}
+        {uploading && (
+          <span className="absolute inset-x-0 bottom-0 bg-background/80 py-1 text-center">Uploading...</span>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMAGE_TYPES.join(",")}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) upload(file)
+          e.target.value = ""
+        }}
+      />
+      {shown && !uploading && (
+        <Button type="button" size="sm" variant="ghost" onClick={remove}>
+          <X /> Remove image
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -26,9 +26,12 @@ import {
   defaultSubmitBusinessFormData 
 } from '@/types/submitBusiness';
 import { cn } from '@/lib/utils';
+import type { BotCheck } from '@/lib/bot-check';
+import { BotCheckFields } from '@/components/bot-check-fields';
+import { useBotCheck } from '@/hooks/use-bot-check';
 
 interface SubmitBusinessFormProps {
-  onSubmit?: (data: SubmitBusinessFormData) => Promise<void>;
+  onSubmit?: (data: SubmitBusinessFormData, botCheck: BotCheck) => Promise<void>;
   initialData?: Partial<SubmitBusinessFormData>;
   isLoading?: boolean;
 }
@@ -39,6 +42,7 @@ const SubmitBusinessForm: React.FC<SubmitBusinessFormProps> = ({
   isLoading = false,
 }) => {
   const [isPending, startTransition] = useTransition();
+  const botCheck = useBotCheck();
 
   const form = useForm<SubmitBusinessFormData>({
     resolver: zodResolver(SubmitBusinessFormSchema as any),
@@ -64,9 +68,10 @@ const SubmitBusinessForm: React.FC<SubmitBusinessFormProps> = ({
           closingTime: data.closingTime?.trim() || '',
         };
         
-        await onSubmit(submitData);
+        await onSubmit(submitData, botCheck.check);
         toast.success('Business information submitted successfully!');
         form.reset(defaultSubmitBusinessFormData);
+        botCheck.renew();
       } catch (error) {
         toast.error('Failed to submit information. Please try again.');
         console.error('Submission error:', error);
@@ -75,6 +80,7 @@ const SubmitBusinessForm: React.FC<SubmitBusinessFormProps> = ({
   };
 
   const isFormValid = form.formState.isValid &&
+    botCheck.ready &&
     Boolean(form.getValues('name')?.trim()) &&
     Boolean(form.getValues('description')?.trim()) &&
     Boolean(form.getValues('email')?.trim());
@@ -272,6 +278,8 @@ const SubmitBusinessForm: React.FC<SubmitBusinessFormProps> = ({
                 </p>
               </div>
 
+              <BotCheckFields botCheck={botCheck} />
+
               {/* Submit Button */}
               <div className="flex justify-center pt-8">
                 <Button
@@ -1,30 +1,48 @@
 import { submitBusinessFormSchema } from '../lib/schema'
 import { useAppForm } from "@/components/ui/tanstack-form"
-import { revalidateLogic } from "@tanstack/react-form"
+import { revalidateLogic, useStore } from "@tanstack/react-form"
 import { toast } from "sonner"
 import * as z from "zod"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { SubmitBusiness } from '@/app/actions'
+import { ImageDropzone } from "@/components/ImageDropzone"
+import { BotCheckFields } from "@/components/bot-check-fields"
+import { ExistingBusinessPrompt } from "@/components/existing-business-prompt"
+import { useBotCheck } from "@/hooks/use-bot-check"
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel"
+import { useState } from "react"
 
 export default function SubmitBusinessForm() {
+  const [imageId, setImageId] = useState<Id<"_storage"> | undefined>()
+  const botCheck = useBotCheck()
   const submitBusinessForm = useAppForm({
     defaultValues: {
       name: "",
       description: "",
-      email: ""
+      email: "",
+      address: ""
     },
     validationLogic: revalidateLogic(),
     validators: {
       onDynamic: submitBusinessFormSchema,
       onDynamicAsyncDebounceMs: 300
     },
-    onSubmit: ({
+    onSubmit: async ({
       value
     }) => {
-      toast.success("success");
-      console.log(value);
+      if (!botCheck.ready) {
+        toast.error("Just a moment, the form is still loading");
+        return;
+      }
       // call the action
-      SubmitBusiness(value);
+      const result = await SubmitBusiness(value, imageId, botCheck.check);
+      if (result.status === "error") {
+        toast.error(result.message);
+        return;
+      }
+      toast.success(result.message);
+      botCheck.renew();
     },
     onSubmitInvalid({
       formApi
@@ -41,6 +59,7 @@ export default function SubmitBusinessForm() {
       firstInput?.focus();
     }
   });
+  const values = useStore(submitBusinessForm.store, (state) => state.values)
   return (<div>
     <submitBusinessForm.AppForm>
       <submitBusinessForm.Form>
@@ -111,6 +130,30 @@ export default function SubmitBusinessForm() {
                   )}
               </submitBusinessForm.AppField>
               
+<submitBusinessForm.AppField name={"address"}>
+                {(field) => (
+                    <field.FieldSet className="w-full">
+                      <field.Field>
+                        <field.FieldLabel htmlFor={"address"}>Business Address</field.FieldLabel>
+                        <Textarea
+                          name={"address"}
+                          placeholder={"12 High Street, Leeds, LS1 4AP"}
+                          value={(field.state.value as string | undefined) ?? ""}
+                          onBlur={field.handleBlur}
+                          onChange={(e) => field.handleChange(e.target.value)}
+                          aria-invalid={!!field.state.meta.errors.length}
+                        />
+                      </field.Field>
+                      <field.FieldDescription>Street, town and postcode, one per line or separated by commas</field.FieldDescription>
+                      <field.FieldError />
+                    </field.FieldSet>
+                  )}
+              </submitBusinessForm.AppField>
+              
+         <ExistingBusinessPrompt name={values.name} email={values.email} address={values.address} />
+         <ImageDropzone label="Photo or logo" onChange={(id) => setImageId(id ?? undefined)} />
+         <BotCheckFields botCheck={botCheck} />
+
          <div className="flex justify-end items-center w-full pt-3">
          <submitBusinessForm.SubmitButton label="Submit" />
         </div>
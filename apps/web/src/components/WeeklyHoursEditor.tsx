@@ -0,0 +1,202 @@
+'use client';
+
+import { Plus, Trash2 } from "lucide-react"
+import {
+  DAY_LABELS,
+  DAYS,
+  type Day,
+  type OpeningHours,
+  type TimeRange,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours"
+import TimeInput from "@/components/TimeInput"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+type WeeklyHoursEditorProps = {
+  value: OpeningHours
+  onChange: (value: OpeningHours) => void
+}
+
+const NEW_RANGE: TimeRange = { open: "09:00", close: "17:00" }
+
+const timezones = Intl.supportedValuesOf?.("timeZone") ?? ["Europe/London"]
+
+/**
+ * Editor for a business's weekly hours: any number of ranges per day (a
+ * close before the open runs past midnight), dated exceptions such as bank
+ * holidays, and the timezone the times are in.
+ */
+export function WeeklyHoursEditor({ value, onChange }: WeeklyHoursEditorProps) {
+  const setDay = (day: Day, ranges: TimeRange[]) =>
+    onChange({ ...value, weekly: { ...value.weekly, [day]: ranges } })
+
+  const setException = (index: number, exception: OpeningHours["exceptions"][number] | null) =>
+    onChange({
+      ...value,
+      exceptions: exception
+        ? value.exceptions.map((existing, i) => (i === index ? exception : existing))
+        : value.exceptions.filter((_, i) => i !== index),
+    })
+
+  const copyToWeekdays = (day: Day) =>
+    onChange({
+      ...value,
+      weekly: Object.fromEntries(
+        DAYS.map((d) => [d, DAYS.indexOf(d) < 5 ? value.weekly[day] : value.weekly[d]]),
+      ) as OpeningHours["weekly"],
+    })
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <Label htmlFor="timezone">Timezone</Label>
+        <select
+          id="timezone"
+          className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+          value={value.timezone}
+          onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+        >
+          {timezones.map((zone) => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-4">
+        {DAYS.map((day) => (
+          <div key={day} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{DAY_LABELS[day]}</span>
+              <div className="flex gap-2">
+                {day === "mon" && value.weekly.mon.length > 0 && (
+                  <Button type="button" size="sm" variant="ghost" onClick={() => copyToWeekdays("mon")}>
+                    Copy to weekdays
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDay(day, [...value.weekly[day], NEW_RANGE])}
+                >
+                  <Plus /> Add hours
+                </Button>
+              </div>
+            </div>
+            {value.weekly[day].length === 0 ? (
+              <p className="text-sm text-muted-foreground">Closed</p>
+            ) : (
+              <RangeList ranges={value.weekly[day]} onChange={(ranges) => setDay(day, ranges)} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">Exceptions</span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              onChange({
+                ...value,
+                exceptions: [...value.exceptions, { date: new Date().toISOString().slice(0, 10), ranges: [] }],
+              })
+            }
+          >
+            <Plus /> Add date
+          </Button>
+        </div>
+        {value.exceptions.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Add bank holidays or other dates when the usual hours don't apply.
+          </p>
+        )}
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="space-y-2 rounded-md border p-3">
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                aria-label="Date"
+                value={exception.date}
+                onChange={(e) => setException(index, { ...exception, date: e.target.value })}
+                className="w-44"
+              />
+              <Input
+                placeholder="Note, e.g. Christmas Day"
+                value={exception.note ?? ""}
+                onChange={(e) => setException(index, { ...exception, note: e.target.value || undefined })}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                aria-label="Remove date"
+                onClick={() => setException(index, null)}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+            {exception.ranges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Closed all day</p>
+            ) : (
+              <RangeList
+                ranges={exception.ranges}
+                onChange={(ranges) => setException(index, { ...exception, ranges })}
+              />
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => setException(index, { ...exception, ranges: [...exception.ranges, NEW_RANGE] })}
+            >
+              <Plus /> Add hours
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function RangeList({ ranges, onChange }: { ranges: TimeRange[]; onChange: (ranges: TimeRange[]) => void }) {
+  const update = (index: number, range: TimeRange) =>
+    onChange(ranges.map((existing, i) => (i === index ? range : existing)))
+
+  return (
+    <div className="space-y-2">
+      {ranges.map((range, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <div className="flex-1">
+            <TimeInput
+              aria-label="Opens"
+              value={range.open}
+              onChange={(e) => update(index, { ...range, open: e.target.value })}
+            />
+          </div>
+          <span className="pb-2 text-muted-foreground">to</span>
+          <div className="flex-1">
+            <TimeInput
+              aria-label="Closes"
+              value={range.close}
+              onChange={(e) => update(index, { ...range, close: e.target.value })}
+            />
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Remove hours"
+            onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+          >
+            <Trash2 />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
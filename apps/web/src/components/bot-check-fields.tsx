@@ -0,0 +1,34 @@
+import type { useBotCheck } from "@/hooks/use-bot-check";
+
+/**
+ * The bot check's form fields: a honeypot input hidden from people (and
+ * from screen readers and autofill), plus the token and proof-of-work
+ * solution as hidden inputs for forms that post `FormData`, and an error
+ * if the token couldn't be fetched.
+ */
+export function BotCheckFields({ botCheck }: { botCheck: ReturnType<typeof useBotCheck> }) {
+	return (
+		<>
+			<div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+				<label>
+					Leave this field empty
+					<input
+						type="text"
+						name="homepage"
+						tabIndex={-1}
+						autoComplete="off"
+						value={botCheck.honeypot.value}
+						onChange={(e) => botCheck.honeypot.onChange(e.target.value)}
+					/>
+				</label>
+			</div>
+			<input type="hidden" name="botToken" value={botCheck.check.token} />
+			<input type="hidden" name="botSolution" value={botCheck.check.solution ?? ""} />
+			{botCheck.error && (
+				<p role="alert" className="text-sm text-destructive">
+					{botCheck.error}
+				</p>
+			)}
+		</>
+	);
+}
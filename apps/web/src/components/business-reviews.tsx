@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { Authenticated, Unauthenticated, useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { SignInButton } from "@clerk/nextjs";
+import { Star } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import Loader from "@/components/loader";
+import { cn } from "@/lib/utils";
+
+export function StarRating({
+	value,
+	onChange,
+	className,
+}: {
+	value: number;
+	onChange?: (value: number) => void;
+	className?: string;
+}) {
+	return (
+		<div className={cn("flex items-center gap-0.5", className)}>
+			{[1, 2, 3, 4, 5].map((star) => {
+				const icon = (
+					<Star
+						className={cn(
+							"size-4",
+							star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground",
+						)}
+					/>
+				);
+				return onChange ? (
+					<button
+						key={star}
+						type="button"
+						aria-label={`${star} star${star === 1 ? "" : "s"}`}
+						onClick={() => onChange(star)}
+					>
+						{icon}
+					</button>
+				) : (
+					<span key={star}>{icon}</span>
+				);
+			})}
+		</div>
+	);
+}
+
+/** Rating summary, the viewer's own review form and a paged review list. */
+export function BusinessReviews({ businessId }: { businessId: Id<"businesses"> }) {
+	const summary = useQuery(api.reviews.getRating, { businessId });
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.reviews.getReviews,
+		{ businessId },
+		{ initialNumItems: 10 },
+	);
+
+	return (
+		<section className="mt-8 space-y-4">
+			<div className="flex items-center gap-3">
+				<h2 className="text-xl font-semibold">Reviews</h2>
+				{summary && summary.rating !== null && (
+					<div className="flex items-center gap-2 text-sm text-muted-foreground">
+						<StarRating value={summary.rating} />
+						{summary.rating.toFixed(1)} from {summary.reviewCount}{" "}
+						{summary.reviewCount === 1 ? "review" : "reviews"}
+					</div>
+				)}
+			</div>
+
+			<Authenticated>
+				<ReviewForm businessId={businessId} />
+			</Authenticated>
+			<Unauthenticated>
+				<p className="text-sm text-muted-foreground">
+					<SignInButton mode="modal">
+						<button type="button" className="underline">
+							Sign in
+						</button>
+					</SignInButton>{" "}
+					to leave a review.
+				</p>
+			</Unauthenticated>
+
+			{status === "LoadingFirstPage" ? (
+				<Loader />
+			) : results.length === 0 ? (
+				<p className="text-sm text-muted-foreground">No reviews yet.</p>
+			) : (
+				<ul className="space-y-4">
+					{results.map((review) => (
+						<li key={review._id} className="border-b pb-4">
+							<div className="flex items-center gap-2">
+								<StarRating value={review.stars} />
+								<span className="text-sm font-medium">{review.authorName}</span>
+								<span className="text-xs text-muted-foreground">
+									{new Date(review.createdAt).toLocaleDateString()}
+								</span>
+							</div>
+							{review.text && <p className="mt-1 text-sm whitespace-pre-line">{review.text}</p>}
+						</li>
+					))}
+				</ul>
+			)}
+			{status === "CanLoadMore" && (
+				<Button variant="outline" className="w-full" onClick={() => loadMore(10)}>
+					More reviews
+				</Button>
+			)}
+			{status === "LoadingMore" && <Loader />}
+		</section>
+	);
+}
+
+function ReviewForm({ businessId }: { businessId: Id<"businesses"> }) {
+	const existing = useQuery(api.reviews.getMyReview, { businessId });
+	const saveReview = useMutation(api.reviews.saveReview);
+	const deleteReview = useMutation(api.reviews.deleteReview);
+	const [stars, setStars] = useState(0);
+	const [text, setText] = useState("");
+
+	useEffect(() => {
+		setStars(existing?.stars ?? 0);
+		setText(existing?.text ?? "");
+	}, [existing]);
+
+	if (existing === undefined) {
+		return null;
+	}
+
+	const save = async () => {
+		try {
+			await saveReview({ businessId, stars, text });
+			toast.success(existing ? "Review updated" : "Thanks for your review");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not save review");
+		}
+	};
+
+	const remove = async () => {
+		if (!existing) {
+			return;
+		}
+		try {
+			await deleteReview({ id: existing._id });
+			toast.success("Review deleted");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Could not delete review");
+		}
+	};
+
+	return (
+		<div className="space-y-2 rounded-md border p-4">
+			<p className="text-sm font-medium">{existing ? "Your review" : "Write a review"}</p>
+			<StarRating value={stars} onChange={setStars} />
+			<Textarea
+				value={text}
+				onChange={(e) => setText(e.target.value)}
+				placeholder="What was it like?"
+				maxLength={2000}
+			/>
+			<div className="flex gap-2">
+				<Button size="sm" onClick={save} disabled={stars === 0}>
+					{existing ? "Update review" : "Post review"}
+				</Button>
+				{existing && (
+					<Button size="sm" variant="outline" onClick={remove}>
+						Delete
+					</Button>
+				)}
+			</div>
+			{existing?.hidden && (
+				<p className="text-xs text-muted-foreground">
+					Your review has been hidden by a moderator and isn't shown publicly.
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import { cn } from "@/lib/utils";
+
+/**
+ * Search box bound to the `q` parameter of `/businesses`. Typing updates the
+ * URL after a short pause; from any other page it navigates there.
+ */
+export function BusinessSearch({ className }: { className?: string }) {
+	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+	const urlQuery = searchParams.get("q") ?? "";
+	const [value, setValue] = useState(urlQuery);
+	const debounced = useDebounce(value.trim(), 300);
+	const onBusinesses = pathname === "/businesses";
+
+	// Follow the URL when it changes from elsewhere (back button, other box)
+	useEffect(() => {
+		setValue(urlQuery);
+	}, [urlQuery]);
+
+	useEffect(() => {
+		if (!onBusinesses || debounced === urlQuery) {
+			return;
+		}
+		const params = new URLSearchParams(searchParams.toString());
+		if (debounced) {
+			params.set("q", debounced);
+		} else {
+			params.delete("q");
+		}
+		const search = params.toString();
+		router.replace(search ? `/businesses?${search}` : "/businesses", { scroll: false });
+	}, [debounced, onBusinesses]);
+
+	return (
+		<form
+			role="search"
+			className={cn("relative", className)}
+			onSubmit={(e) => {
+				e.preventDefault();
+				const q = value.trim();
+				router.push(q ? `/businesses?q=${encodeURIComponent(q)}` : "/businesses");
+			}}
+		>
+			<Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+			<Input
+				type="search"
+				name="q"
+				placeholder="Search businesses"
+				className="pl-8"
+				value={value}
+				onChange={(e) => setValue(e.target.value)}
+			/>
+		</form>
+	);
+}
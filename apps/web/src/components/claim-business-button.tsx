@@ -0,0 +1,68 @@
+"use client";
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import type { Id } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/dataModel";
+import { Authenticated, useMutation, useQuery } from "convex/react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { rateLimitMessage } from "@/lib/rate-limit";
+
+type ClaimBusinessButtonProps = {
+	businessId: Id<"businesses">;
+	ownerId?: Id<"users">;
+	hasEmail: boolean;
+};
+
+/** "Claim this business" for signed-in users, or a link for its owner. */
+export function ClaimBusinessButton(props: ClaimBusinessButtonProps) {
+	return (
+		<Authenticated>
+			<ClaimStatus {...props} />
+		</Authenticated>
+	);
+}
+
+function ClaimStatus({ businessId, ownerId, hasEmail }: ClaimBusinessButtonProps) {
+	const me = useQuery(api.user.me);
+	const claim = useQuery(api.claims.getMyClaim, me ? { businessId } : "skip");
+	const requestClaim = useMutation(api.claims.requestClaim);
+
+	if (!me || claim === undefined) {
+		return null;
+	}
+	if (ownerId === me._id) {
+		return (
+			<Button asChild variant="outline" size="sm">
+				<Link href="/my-businesses">Manage this listing</Link>
+			</Button>
+		);
+	}
+	if (ownerId || !hasEmail) {
+		return null;
+	}
+
+	const request = async () => {
+		try {
+			await requestClaim({ businessId });
+			toast.success("Check the business's inbox for a link to confirm.");
+		} catch (error) {
+			toast.error(
+				rateLimitMessage(error) ?? (error instanceof Error ? error.message : "Could not start the claim"),
+			);
+		}
+	};
+
+	return claim?.status === "pending" ? (
+		<div className="flex items-center gap-2 text-sm text-muted-foreground">
+			We've emailed the business a confirmation link.
+			<Button variant="link" size="sm" className="px-0" onClick={request}>
+				Send it again
+			</Button>
+		</div>
+	) : (
+		<Button variant="outline" size="sm" onClick={request}>
+			Claim this business
+		</Button>
+	);
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import { useConvexAuth, useQuery } from "convex/react";
+import Link from "next/link";
+import { useDebounce } from "@/hooks/use-debounce";
+
+type ExistingBusinessPromptProps = {
+	name: string;
+	email?: string;
+	address?: string;
+};
+
+/**
+ * A gentle "Is this your business?" while someone fills in the submit form,
+ * pointing at listings that already look like theirs so they can claim one
+ * instead. It never blocks submitting, and only shows when signed in.
+ */
+export function ExistingBusinessPrompt(props: ExistingBusinessPromptProps) {
+	const { isAuthenticated } = useConvexAuth();
+	const name = useDebounce(props.name, 500);
+	const email = useDebounce(props.email, 500);
+	const address = useDebounce(props.address, 500);
+	const matches = useQuery(
+		api.duplicates.findExistingBusinesses,
+		isAuthenticated && name.trim().length >= 3
+			? { name, email: email || undefined, address: address || undefined }
+			: "skip",
+	);
+
+	if (!matches || matches.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="rounded-md border bg-muted/50 p-4 text-sm">
+			<p className="font-medium">Is this your business?</p>
+			<p className="text-muted-foreground">
+				It may already be listed. If so, you can claim the listing instead of submitting it again.
+			</p>
+			<ul className="mt-2 list-disc pl-5">
+				{matches.map((match) => (
+					<li key={match.slug ?? match.name}>
+						{match.slug ? (
+							<Link href={`/businesses/${encodeURIComponent(match.slug)}`} className="underline" target="_blank">
+								{match.name}
+							</Link>
+						) : (
+							match.name
+						)}
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
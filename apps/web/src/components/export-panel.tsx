@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@onfindr-clerk-convex-next-expo/backend/convex/_generated/api";
+import {
+	EXPORT_COLUMNS,
+	type ExportRow,
+	type ExportTable,
+} from "@onfindr-clerk-convex-next-expo/backend/convex/lib/exports";
+import { useConvex } from "convex/react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { downloadBlob, EXPORT_FORMATS, type ExportFormat, exportFile } from "@/lib/export-file";
+
+// Rows fetched per query; small enough to stay well inside Convex's limits.
+const CHUNK_SIZE = 500;
+
+const exportQueries = {
+	businesses: api.dataExports.exportBusinesses,
+	submittedBusinesses: api.dataExports.exportSubmissions,
+	users: api.dataExports.exportUsers,
+	waitlist: api.dataExports.exportWaitlist,
+};
+
+type ExportPanelProps = {
+	table: ExportTable;
+	// The filters currently applied to the admin table, e.g. `{ status }`.
+	filters?: Record<string, unknown>;
+};
+
+/**
+ * "Export" for an admin table: pick a format and columns, then the rows
+ * matching the table's filters are fetched chunk by chunk and downloaded.
+ */
+export function ExportPanel({ table, filters = {} }: ExportPanelProps) {
+	const convex = useConvex();
+	const allColumns: readonly string[] = EXPORT_COLUMNS[table];
+	const [open, setOpen] = useState(false);
+	const [format, setFormat] = useState<ExportFormat>("csv");
+	const [columns, setColumns] = useState<string[]>([...allColumns]);
+	const [exported, setExported] = useState<number | null>(null);
+
+	const toggle = (column: string, checked: boolean) => {
+		setColumns((current) =>
+			// Keep the table's column order whatever order they're ticked in.
+			allColumns.filter((name) => (name === column ? checked : current.includes(name))),
+		);
+	};
+
+	const run = async () => {
+		const rows: ExportRow[] = [];
+		setExported(0);
+		try {
+			let cursor: string | null = null;
+			for (;;) {
+				// The four export queries share their arguments apart from the filters.
+				const result: { page: ExportRow[]; isDone: boolean; continueCursor: string } =
+					await convex.query(exportQueries[table] as typeof api.dataExports.exportBusinesses, {
+						...filters,
+						columns,
+						paginationOpts: { numItems: CHUNK_SIZE, cursor },
+					});
+				rows.push(...result.page);
+				setExported(rows.length);
+				if (result.isDone) {
+					break;
+				}
+				cursor = result.continueCursor;
+			}
+			const date = new Date().toISOString().slice(0, 10);
+			downloadBlob(`${table}-${date}.${format}`, exportFile(format, table, columns, rows));
+			toast.success(`Exported ${rows.length} rows`);
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Export failed");
+		} finally {
+			setExported(null);
+		}
+	};
+
+	if (!open) {
+		return (
+			<Button size="sm" variant="outline" onClick={() => setOpen(true)}>
+				<Download /> Export
+			</Button>
+		);
+	}
+
+	return (
+		<div className="my-4 space-y-3 rounded-md border p-4 text-sm">
+			<div className="flex items-center gap-2">
+				<span className="font-medium">Format</span>
+				{EXPORT_FORMATS.map((value) => (
+					<Button
+						key={value}
+						size="sm"
+						variant={value === format ? "default" : "outline"}
+						onClick={() => setFormat(value)}
+					>
+						{value.toUpperCase()}
+					</Button>
+				))}
+			</div>
+			<div className="flex flex-wrap gap-x-4 gap-y-2">
+				{allColumns.map((column) => (
+					<label key={column} className="flex items-center gap-2">
+						<Checkbox
+							checked={columns.includes(column)}
+							onCheckedChange={(checked) => toggle(column, checked === true)}
+						/>
+						{column}
+					</label>
+				))}
+			</div>
+			<div className="flex items-center gap-2">
+				<Button size="sm" disabled={exported !== null || columns.length === 0} onClick={run}>
+					{exported !== null ? `Exporting... ${exported} rows` : "Download"}
+				</Button>
+				<Button size="sm" variant="ghost" disabled={exported !== null} onClick={() => setOpen(false)}>
+					Cancel
+				</Button>
+				{Object.values(filters).some((value) => value !== undefined) && (
+					<span className="text-muted-foreground">Only rows matching the current filters are exported.</span>
+				)}
+			</div>
+		</div>
+	);
+}
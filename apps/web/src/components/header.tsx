@@ -1,12 +1,15 @@
 "use client";
+import { Suspense } from "react";
 import Link from "next/link";
 import { ModeToggle } from "./mode-toggle";
+import { BusinessSearch } from "./business-search";
 
 export default function Header() {
 	const links = [
 		{ to: "/", label: "Home" },
 		{ to: "/profile", label: "Profile" },
 		{ to: "/businesses", label: "Businesses" },
+		{ to: "/categories", label: "Categories" },
 		{ to: "/waitlist", label: "Waitlist" },
 	] as const;
 
@@ -23,6 +26,9 @@ export default function Header() {
 					})}
 				</nav>
 				<div className="flex items-center gap-2">
+					<Suspense>
+						<BusinessSearch className="w-56" />
+					</Suspense>
 					<ModeToggle />
 				</div>
 			</div>
@@ -0,0 +1,32 @@
+"use client";
+
+import { isOpenAt, type OpeningHours } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/hours";
+import { useNow } from "@/hooks/use-now";
+import { cn } from "@/lib/utils";
+
+type OpenNowBadgeProps = {
+	business: { openingHours?: OpeningHours; openingTime?: string; closingTime?: string };
+	className?: string;
+};
+
+/** "Open now" / "Closed" pill. Renders nothing for businesses without hours. */
+export function OpenNowBadge({ business, className }: OpenNowBadgeProps) {
+	const now = useNow();
+	if (!business.openingHours && !(business.openingTime && business.closingTime)) {
+		return null;
+	}
+	const open = isOpenAt(business, now);
+	return (
+		<span
+			className={cn(
+				"inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium",
+				open
+					? "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300"
+					: "bg-muted text-muted-foreground",
+				className,
+			)}
+		>
+			{open ? "Open now" : "Closed"}
+		</span>
+	);
+}
@@ -0,0 +1,28 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type PageControlsProps = {
+	pageNumber: number;
+	hasPrevious: boolean;
+	hasNext: boolean;
+	previous: () => void;
+	next: () => void;
+};
+
+/** Previous/next buttons for tables paged with `useCursorPages`. */
+export function PageControls({ pageNumber, hasPrevious, hasNext, previous, next }: PageControlsProps) {
+	if (!hasPrevious && !hasNext) {
+		return null;
+	}
+	return (
+		<div className="mt-4 flex items-center justify-end gap-2 text-sm">
+			<Button size="sm" variant="outline" disabled={!hasPrevious} onClick={previous}>
+				<ChevronLeft /> Previous
+			</Button>
+			<span className="text-muted-foreground">Page {pageNumber}</span>
+			<Button size="sm" variant="outline" disabled={!hasNext} onClick={next}>
+				Next <ChevronRight />
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useActionState, useEffect } from "react";
+import { toast } from "sonner";
+import { submitWaitlist, type WaitlistState } from "@/app/waitlist/actions";
+import { BotCheckFields } from "@/components/bot-check-fields";
+import { useBotCheck } from "@/hooks/use-bot-check";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+export function WaitlistForm({ referralCode }: { referralCode?: string }) {
+  const [state, action, pending] = useActionState<WaitlistState, FormData>(submitWaitlist, null);
+  const botCheck = useBotCheck();
+
+  useEffect(() => {
+    if (state && !state.ok) {
+      toast.error(state.error);
+    }
+  }, [state]);
+
+  if (state?.ok) {
+    return (
+      <p className="text-sm">
+        Almost there! We've sent you an email. Open the link inside to confirm your place in the queue.
+      </p>
+    );
+  }
+
+  return (
+    <form action={action} className="grid gap-4">
+      <Input name="email" type="email" placeholder="you@example.com" required />
+      {referralCode && <input type="hidden" name="referralCode" value={referralCode} />}
+      <BotCheckFields botCheck={botCheck} />
+      <div className="flex items-center gap-2">
+        <Button type="submit" className="w-full" disabled={pending || !botCheck.ready}>
+          {pending ? "Joining..." : "Notify me"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { IssueFormToken } from "@/app/actions";
+import type { BotCheck, FormToken } from "@/lib/bot-check";
+import { solveChallenge } from "@/lib/proof-of-work";
+
+/**
+ * Client half of the bot check on public forms: fetches a signed form
+ * token, solves its proof-of-work if one is required, and tracks the
+ * honeypot field. Send `check` along with the form's values; `ready` is
+ * false until there is something to send. Tokens only work once, so call
+ * `renew` after a successful post if the form stays on screen.
+ */
+export function useBotCheck() {
+	const [formToken, setFormToken] = useState<FormToken | null>(null);
+	const [solution, setSolution] = useState<string>();
+	const [honeypot, setHoneypot] = useState("");
+	const [error, setError] = useState<string>();
+	const [generation, setGeneration] = useState(0);
+
+	useEffect(() => {
+		let cancelled = false;
+		setFormToken(null);
+		setSolution(undefined);
+		setError(undefined);
+		IssueFormToken()
+			.then(async (issued) => {
+				if (cancelled) {
+					return;
+				}
+				setFormToken(issued);
+				if (issued.difficulty > 0) {
+					const solved = await solveChallenge(issued.challenge, issued.difficulty);
+					if (!cancelled) {
+						setSolution(solved);
+					}
+				}
+			})
+			.catch((error) => {
+				console.error("Could not prepare the form", error);
+				if (!cancelled) {
+					setError("This form couldn't be prepared. Please reload the page and try again.");
+				}
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [generation]);
+
+	const check: BotCheck = { token: formToken?.token ?? "", solution, honeypot };
+	return {
+		check,
+		ready: formToken !== null && (formToken.difficulty === 0 || solution !== undefined),
+		error,
+		renew: () => setGeneration((value) => value + 1),
+		honeypot: { value: honeypot, onChange: setHoneypot },
+	};
+}
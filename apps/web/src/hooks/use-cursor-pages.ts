@@ -0,0 +1,47 @@
+import { useState } from "react";
+import {
+	useQuery,
+	type PaginatedQueryArgs,
+	type PaginatedQueryItem,
+	type PaginatedQueryReference,
+} from "convex/react";
+import type { PaginationResult } from "convex/server";
+
+/**
+ * Page-by-page navigation over a paginated Convex query, for tables with
+ * previous/next controls rather than infinite scroll. The cursors seen so
+ * far are kept so going back doesn't refetch from the start, and changing
+ * `args` returns to the first page.
+ */
+export function useCursorPages<Query extends PaginatedQueryReference>(
+	query: Query,
+	args: PaginatedQueryArgs<Query>,
+	pageSize = 25,
+) {
+	const key = JSON.stringify(args);
+	const [state, setState] = useState<{ key: string; cursors: (string | null)[] }>({
+		key,
+		cursors: [null],
+	});
+	// Filters changed since the last render: start again from page one
+	const cursors = state.key === key ? state.cursors : [null];
+	const pageIndex = cursors.length - 1;
+
+	const result: PaginationResult<PaginatedQueryItem<Query>> | undefined = useQuery(
+		query as PaginatedQueryReference,
+		{ ...args, paginationOpts: { numItems: pageSize, cursor: cursors[pageIndex] } },
+	);
+
+	return {
+		page: result?.page,
+		pageNumber: pageIndex + 1,
+		hasPrevious: pageIndex > 0,
+		hasNext: result !== undefined && !result.isDone,
+		previous: () => setState({ key, cursors: cursors.slice(0, -1) }),
+		next: () => {
+			if (result && !result.isDone) {
+				setState({ key, cursors: [...cursors, result.continueCursor] });
+			}
+		},
+	};
+}
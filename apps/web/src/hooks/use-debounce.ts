@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Returns `value` once it has stopped changing for `delayMs`.
+ */
+export function useDebounce<T>(value: T, delayMs = 300) {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebounced(value), delayMs);
+		return () => clearTimeout(timeout);
+	}, [value, delayMs]);
+
+	return debounced;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` whenever the returned ref's element scrolls into view,
+ * as long as `enabled` is true. Attach it to a sentinel below the list.
+ */
+export function useInfiniteScroll<T extends Element>(onLoadMore: () => void, enabled: boolean) {
+	const ref = useRef<T>(null);
+	const callback = useRef(onLoadMore);
+	callback.current = onLoadMore;
+
+	useEffect(() => {
+		const element = ref.current;
+		if (!element || !enabled) {
+			return;
+		}
+		const observer = new IntersectionObserver(
+			(entries) => {
+				if (entries.some((entry) => entry.isIntersecting)) {
+					callback.current();
+				}
+			},
+			{ rootMargin: "400px" },
+		);
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, [enabled]);
+
+	return ref;
+}
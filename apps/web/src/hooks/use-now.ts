@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The current time, refreshed every `intervalMs` so time-based UI such as
+ * "Open now" badges stays correct while a page is left open.
+ */
+export function useNow(intervalMs = 60_000) {
+	const [now, setNow] = useState(() => new Date());
+
+	useEffect(() => {
+		const interval = setInterval(() => setNow(new Date()), intervalMs);
+		return () => clearInterval(interval);
+	}, [intervalMs]);
+
+	return now;
+}
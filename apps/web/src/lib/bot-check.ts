@@ -0,0 +1,50 @@
+import { randomBytes } from "node:crypto";
+import type { BotCheck } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/botCheck";
+import { headers } from "next/headers";
+import { hmac } from "@/lib/signing";
+
+// Issues the tokens for the bot check on public forms. A form fetches a
+// signed token when it renders and posts it back with its fields; the
+// Convex mutation behind the form checks it (see `lib/botCheck` in the
+// backend). An optional proof-of-work can be switched on with
+// FORM_POW_DIFFICULTY; the token carries the difficulty it was issued with.
+
+export type { BotCheck };
+
+export type FormToken = {
+	token: string;
+	// What a proof-of-work solution must be computed over; `difficulty` 0 means none is needed.
+	challenge: string;
+	difficulty: number;
+};
+
+/** Reads the fields rendered by `BotCheckFields` from a posted form. */
+export function botCheckFromFormData(formData: FormData): BotCheck {
+	return {
+		token: formData.get("botToken")?.toString() ?? "",
+		solution: formData.get("botSolution")?.toString() || undefined,
+		honeypot: formData.get("homepage")?.toString() || undefined,
+	};
+}
+
+export function issueFormToken(): FormToken {
+	const difficulty = Math.max(0, Number(process.env.FORM_POW_DIFFICULTY ?? 0) || 0);
+	const challenge = `${Date.now()}.${randomBytes(12).toString("hex")}.${difficulty}`;
+	return { token: `${challenge}.${hmac(challenge)}`, challenge, difficulty };
+}
+
+/** `check` with the browser's user agent added, for the rejection log. */
+export async function withUserAgent(check: BotCheck): Promise<BotCheck> {
+	return { ...check, userAgent: (await headers()).get("user-agent") ?? undefined };
+}
+
+/** What to tell the person whose post was rejected. */
+export function rejectionMessage(reason: string) {
+	if (reason === "too-fast") {
+		return "That was quick! Please wait a moment and try again.";
+	}
+	if (reason === "expired" || reason === "replayed") {
+		return "This form has expired. Please reload the page and try again.";
+	}
+	return "Your submission couldn't be verified. Please reload the page and try again.";
+}
@@ -0,0 +1,139 @@
+import { SubmitBusinessFormSchema, UpdateBusinessFormSchema } from "@/types/submitBusiness";
+
+// Turning CSV rows into businesses for /admin/businesses/import. Rows are
+// checked with the same rules as the public submit form; rows that update a
+// business only need the cells they fill in to be valid.
+
+export const IMPORT_FIELDS = [
+	"slug",
+	"name",
+	"description",
+	"email",
+	"address",
+	"phone",
+	"website",
+	"openingTime",
+	"closingTime",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Which CSV column feeds each field, by index; unmapped fields are left out.
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportRow = {
+	slug?: string;
+	// Only left out by rows that update a business.
+	name?: string;
+	description?: string;
+	email?: string;
+	address?: string;
+	phone?: string;
+	website?: string;
+	openingTime?: string;
+	closingTime?: string;
+};
+
+export type CheckedRow = {
+	// The spreadsheet row number, counting the header as row 1.
+	line: number;
+	row: ImportRow | null;
+	errors: string[];
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+	slug: ["slug"],
+	name: ["name", "businessname", "business"],
+	description: ["description", "about"],
+	email: ["email", "emailaddress"],
+	address: ["address", "fulladdress"],
+	phone: ["phone", "telephone", "tel", "phonenumber"],
+	website: ["website", "url", "web", "site"],
+	openingTime: ["openingtime", "opens", "open"],
+	closingTime: ["closingtime", "closes", "close"],
+};
+
+/** Maps each field to the first header that looks like it. */
+export function guessMapping(headers: string[]): ColumnMapping {
+	const normalized = headers.map((header) => header.toLowerCase().replace(/[^a-z]/g, ""));
+	const mapping: ColumnMapping = {};
+	for (const field of IMPORT_FIELDS) {
+		const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+		if (index !== -1) {
+			mapping[field] = index;
+		}
+	}
+	return mapping;
+}
+
+function cellReader(mapping: ColumnMapping) {
+	return (row: string[], field: ImportField) => {
+		const index = mapping[field];
+		return index === undefined ? "" : (row[index] ?? "").trim();
+	};
+}
+
+/** The slugs the data rows name, to look up which businesses they update. */
+export function rowSlugs(rows: string[][], mapping: ColumnMapping) {
+	const cell = cellReader(mapping);
+	return rows.flatMap((cells) => cell(cells, "slug").toLowerCase() || []);
+}
+
+/**
+ * Validates the data rows (everything after the header) under `mapping`.
+ * Rows whose slug is in `existingSlugs` update that business, so their empty
+ * cells are left out rather than checked. A slug used by an earlier row is
+ * an error, as both would update the same business.
+ */
+export function checkRows(rows: string[][], mapping: ColumnMapping, existingSlugs: Set<string>): CheckedRow[] {
+	const cell = cellReader(mapping);
+	const slugLines = new Map<string, number>();
+
+	return rows.map((cells, index) => {
+		const line = index + 2;
+		const slug = cell(cells, "slug").toLowerCase() || undefined;
+		const values = {
+			name: cell(cells, "name"),
+			description: cell(cells, "description"),
+			email: cell(cells, "email"),
+			address: cell(cells, "address"),
+			phone: cell(cells, "phone"),
+			website: cell(cells, "website"),
+			openingTime: cell(cells, "openingTime"),
+			closingTime: cell(cells, "closingTime"),
+		};
+		const parsed =
+			slug && existingSlugs.has(slug)
+				? UpdateBusinessFormSchema.safeParse(
+						Object.fromEntries(Object.entries(values).filter(([, value]) => value)),
+					)
+				: SubmitBusinessFormSchema.safeParse(values);
+		const errors = parsed.success
+			? []
+			: parsed.error.issues.map((issue) => `${String(issue.path[0] ?? "row")}: ${issue.message}`);
+
+		if (slug) {
+			const earlier = slugLines.get(slug);
+			if (earlier !== undefined) {
+				errors.push(`slug: Also used on row ${earlier}`);
+			} else {
+				slugLines.set(slug, line);
+			}
+		}
+		if (!parsed.success || errors.length > 0) {
+			return { line, row: null, errors };
+		}
+
+		// Empty optional cells are dropped so updates keep the current value.
+		const row: ImportRow = {};
+		for (const [field, value] of Object.entries(parsed.data)) {
+			if (value) {
+				row[field as keyof Omit<ImportRow, "slug">] = value;
+			}
+		}
+		if (slug) {
+			row.slug = slug;
+		}
+		return { line, row, errors };
+	});
+}
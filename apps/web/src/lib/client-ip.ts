@@ -0,0 +1,22 @@
+import type { SignedIp } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/rateLimit";
+import { headers } from "next/headers";
+import { hmac } from "@/lib/signing";
+
+/**
+ * The address of whoever sent the current request, if the proxy passed it on.
+ * Clients can put anything at the start of `x-forwarded-for`, so this takes
+ * the entry our own proxy appended: the last one, or with `TRUSTED_PROXIES`
+ * set to the number of proxies in front of the app, that many from the end.
+ */
+export async function clientIp() {
+	const request = await headers();
+	const hops = request.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()) ?? [];
+	const trusted = Math.max(Number(process.env.TRUSTED_PROXIES ?? 1) || 1, 1);
+	return hops[hops.length - trusted] || undefined;
+}
+
+/** The caller's IP signed for Convex rate limits, which ignore unsigned ones. */
+export async function signedClientIp(): Promise<SignedIp | undefined> {
+	const ip = await clientIp();
+	return ip ? { ip, signature: hmac(ip) } : undefined;
+}
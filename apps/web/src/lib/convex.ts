@@ -1,3 +1,4 @@
+import { auth } from "@clerk/nextjs/server";
 import { ConvexHttpClient } from "convex/browser";
 
 export function getConvexClient() {
@@ -8,4 +9,15 @@ export function getConvexClient() {
 	return new ConvexHttpClient(convexUrl);
 }
 
-
+/**
+ * A Convex client that calls functions as the signed-in Clerk user, for
+ * server actions that hit role-protected functions.
+ */
+export async function getAuthedConvexClient() {
+	const client = getConvexClient();
+	const token = await (await auth()).getToken({ template: "convex" });
+	if (token) {
+		client.setAuth(token);
+	}
+	return client;
+}
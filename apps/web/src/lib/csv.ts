@@ -0,0 +1,51 @@
+/**
+ * Parses CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, newlines and doubled quotes). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	const endRow = () => {
+		row.push(cell);
+		if (row.some((value) => value.trim() !== "")) {
+			rows.push(row);
+		}
+		row = [];
+		cell = "";
+	};
+
+	// A byte order mark from Excel would otherwise end up in the first header.
+	const input = text.replace(/^\uFEFF/, "");
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (quoted) {
+			if (char === '"' && input[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") {
+				i++;
+			}
+			endRow();
+		} else {
+			cell += char;
+		}
+	}
+	if (cell !== "" || row.length > 0) {
+		endRow();
+	}
+	return rows;
+}
@@ -0,0 +1,45 @@
+import type { ExportRow } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/exports";
+import { toXlsx } from "@/lib/xlsx";
+
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Nested values such as opening hours go into a single cell as JSON.
+function cellValue(value: unknown) {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return typeof value === "number" ? value : String(value);
+}
+
+function csvCell(value: string | number) {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The exported rows as a file, with `columns` in order. */
+export function exportFile(format: ExportFormat, name: string, columns: string[], rows: ExportRow[]) {
+	if (format === "json") {
+		return new Blob([JSON.stringify(rows, null, 2)], { type: "application/json" });
+	}
+	const cells = rows.map((row) => columns.map((column) => cellValue(row[column])));
+	if (format === "xlsx") {
+		return toXlsx([columns, ...cells], name);
+	}
+	const lines = [columns, ...cells].map((row) => row.map(csvCell).join(","));
+	// The byte order mark tells Excel the file is UTF-8.
+	return new Blob([`\uFEFF${lines.join("\r\n")}\r\n`], { type: "text/csv;charset=utf-8" });
+}
+
+export function downloadBlob(fileName: string, blob: Blob) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
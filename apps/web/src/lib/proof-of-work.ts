@@ -0,0 +1,16 @@
+import { verifySolution } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/proofOfWork";
+
+// The browser half of the proof-of-work in the form bot check; Convex
+// verifies solutions with the same `verifySolution`.
+
+/** Searches for a solution, yielding now and then so the page stays responsive. */
+export async function solveChallenge(challenge: string, difficulty: number) {
+	for (let attempt = 0; ; attempt++) {
+		if (await verifySolution(challenge, attempt.toString(36), difficulty)) {
+			return attempt.toString(36);
+		}
+		if (attempt % 1000 === 999) {
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+	}
+}
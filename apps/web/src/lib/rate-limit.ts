@@ -0,0 +1,20 @@
+import { isRateLimitedError } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/rateLimit";
+
+function formatWait(seconds: number) {
+	if (seconds < 60) {
+		return `${seconds} second${seconds === 1 ? "" : "s"}`;
+	}
+	const minutes = Math.ceil(seconds / 60);
+	return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+/**
+ * What to tell someone whose call a Convex rate limit refused, or null if
+ * `error` is anything else and should be handled as usual.
+ */
+export function rateLimitMessage(error: unknown) {
+	if (!isRateLimitedError(error)) {
+		return null;
+	}
+	return `Too many attempts. Please try again in ${formatWait(error.data.retryAfter)}.`;
+}
@@ -1,9 +1,14 @@
 import * as z from "zod"
+import { findPostcode } from "@onfindr-clerk-convex-next-expo/backend/convex/lib/ukAddress"
 
 export const submitBusinessFormSchema = z.object({
   name: z.string().min(1, "This field is required"),
   description: z.string().min(1, "This field is required"),
-  email: z.email()
+  email: z.email(),
+  address: z.string().refine(
+    (val) => !val.trim() || findPostcode(val) !== undefined,
+    "Include a valid UK postcode, e.g. LS1 4AP"
+  )
 });
 
 export const editBusinessFormSchema = z.object({
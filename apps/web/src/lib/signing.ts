@@ -0,0 +1,16 @@
+import { createHmac } from "node:crypto";
+
+// HMAC-SHA256 with the `SIGNING_SECRET` shared with the Convex deployment,
+// so Convex can trust values the web server vouches for.
+
+function secret() {
+	const value = process.env.SIGNING_SECRET;
+	if (!value) {
+		throw new Error("SIGNING_SECRET is not set");
+	}
+	return value;
+}
+
+export function hmac(value: string) {
+	return createHmac("sha256", secret()).update(value).digest("hex");
+}
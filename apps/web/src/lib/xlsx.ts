@@ -0,0 +1,131 @@
+// A minimal XLSX writer: one worksheet of strings and numbers, packed into
+// an uncompressed zip. Enough for admin exports without pulling in a
+// spreadsheet library.
+
+export type XlsxCell = string | number | null | undefined;
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array) {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Stores `files` in a zip archive without compression. */
+function zip(files: { name: string; data: Uint8Array }[]) {
+	const parts: Uint8Array[] = [];
+	const central: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const name = encoder.encode(file.name);
+		const crc = crc32(file.data);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true);
+		local.setUint16(6, 0x0800, true); // UTF-8 names
+		local.setUint32(14, crc, true);
+		local.setUint32(18, file.data.length, true);
+		local.setUint32(22, file.data.length, true);
+		local.setUint16(26, name.length, true);
+		parts.push(new Uint8Array(local.buffer), name, file.data);
+
+		const entry = new DataView(new ArrayBuffer(46));
+		entry.setUint32(0, 0x02014b50, true);
+		entry.setUint16(4, 20, true);
+		entry.setUint16(6, 20, true);
+		entry.setUint16(8, 0x0800, true);
+		entry.setUint32(16, crc, true);
+		entry.setUint32(20, file.data.length, true);
+		entry.setUint32(24, file.data.length, true);
+		entry.setUint16(28, name.length, true);
+		entry.setUint32(42, offset, true);
+		central.push(new Uint8Array(entry.buffer), name);
+
+		offset += 30 + name.length + file.data.length;
+	}
+
+	const centralSize = central.reduce((size, part) => size + part.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, files.length, true);
+	end.setUint16(10, files.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], {
+		type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	});
+}
+
+function escapeXml(value: string) {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		// Control characters other than tab and newlines aren't allowed in XML.
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+function columnName(index: number) {
+	let name = "";
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+function sheetXml(rows: XlsxCell[][]) {
+	const body = rows
+		.map((row, r) => {
+			const cells = row
+				.map((value, c) => {
+					const ref = `${columnName(c)}${r + 1}`;
+					if (value === null || value === undefined || value === "") {
+						return "";
+					}
+					if (typeof value === "number" && Number.isFinite(value)) {
+						return `<c r="${ref}"><v>${value}</v></c>`;
+					}
+					return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+				})
+				.join("");
+			return `<row r="${r + 1}">${cells}</row>`;
+		})
+		.join("");
+	return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+}
+
+/** A workbook with a single sheet named `sheetName` holding `rows`. */
+export function toXlsx(rows: XlsxCell[][], sheetName = "Sheet1") {
+	const files = {
+		"[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+		"_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+		"xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+		"xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+		"xl/worksheets/sheet1.xml": sheetXml(rows),
+	};
+	return zip(Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
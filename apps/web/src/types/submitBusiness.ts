@@ -1,5 +1,6 @@
 // types/submitBusiness.ts
 import { z } from 'zod';
+import { findPostcode } from '@onfindr-clerk-convex-next-expo/backend/convex/lib/ukAddress';
 
 // Define the base shape first
 const baseSchema = z.object({
@@ -31,7 +32,8 @@ const baseSchema = z.object({
     .refine((val) => {
       const trimmed = val.trim();
       return trimmed.length >= 5 && trimmed !== '';
-    }, 'Address must be at least 5 characters and not empty'),
+    }, 'Address must be at least 5 characters and not empty')
+    .refine((val) => findPostcode(val) !== undefined, 'Address must include a valid UK postcode'),
   
   phone: z.string()
     .max(20, 'Phone number cannot exceed 20 characters')
@@ -70,6 +72,9 @@ export const SubmitBusinessFormSchema = baseSchema
     };
   });
 
+// For changes to an existing business: only the fields given are checked.
+export const UpdateBusinessFormSchema = baseSchema.partial();
+
 // Explicitly define the type to match the expected output
 export type SubmitBusinessFormData = z.infer<typeof baseSchema>;
 
@@ -13,12 +13,63 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as addresses from "../addresses.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as audit from "../audit.js";
+import type * as botRejections from "../botRejections.js";
 import type * as business from "../business.js";
+import type * as businessImport from "../businessImport.js";
+import type * as businessVersions from "../businessVersions.js";
+import type * as categories from "../categories.js";
+import type * as claims from "../claims.js";
+import type * as crons from "../crons.js";
+import type * as dataExports from "../dataExports.js";
+import type * as duplicates from "../duplicates.js";
+import type * as emailSender from "../emailSender.js";
+import type * as emails from "../emails.js";
 import type * as healthCheck from "../healthCheck.js";
+import type * as http from "../http.js";
+import type * as images from "../images.js";
+import type * as lib_addresses from "../lib/addresses.js";
+import type * as lib_apiKeys from "../lib/apiKeys.js";
+import type * as lib_audit from "../lib/audit.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_botCheck from "../lib/botCheck.js";
+import type * as lib_businessVersions from "../lib/businessVersions.js";
+import type * as lib_businesses from "../lib/businesses.js";
+import type * as lib_categories from "../lib/categories.js";
+import type * as lib_clerkWebhook from "../lib/clerkWebhook.js";
+import type * as lib_duplicates from "../lib/duplicates.js";
+import type * as lib_emails from "../lib/emails.js";
+import type * as lib_exports from "../lib/exports.js";
+import type * as lib_geo from "../lib/geo.js";
+import type * as lib_hours from "../lib/hours.js";
+import type * as lib_httpApi from "../lib/httpApi.js";
+import type * as lib_images from "../lib/images.js";
+import type * as lib_mail from "../lib/mail.js";
+import type * as lib_mailTransports from "../lib/mailTransports.js";
+import type * as lib_postcodeAreas from "../lib/postcodeAreas.js";
+import type * as lib_postcodeDistricts from "../lib/postcodeDistricts.js";
+import type * as lib_proofOfWork from "../lib/proofOfWork.js";
+import type * as lib_publicApi from "../lib/publicApi.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_reviews from "../lib/reviews.js";
+import type * as lib_roles from "../lib/roles.js";
+import type * as lib_search from "../lib/search.js";
+import type * as lib_signing from "../lib/signing.js";
+import type * as lib_slug from "../lib/slug.js";
+import type * as lib_tokens from "../lib/tokens.js";
+import type * as lib_ukAddress from "../lib/ukAddress.js";
+import type * as lib_waitlist from "../lib/waitlist.js";
+import type * as lib_webhooks from "../lib/webhooks.js";
 import type * as privateData from "../privateData.js";
+import type * as publicApi from "../publicApi.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as reviews from "../reviews.js";
 import type * as submittedBusinesses from "../submittedBusinesses.js";
 import type * as user from "../user.js";
 import type * as waitlist from "../waitlist.js";
+import type * as webhooks from "../webhooks.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -29,12 +80,63 @@ import type * as waitlist from "../waitlist.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  addresses: typeof addresses;
+  apiKeys: typeof apiKeys;
+  audit: typeof audit;
+  botRejections: typeof botRejections;
   business: typeof business;
+  businessImport: typeof businessImport;
+  businessVersions: typeof businessVersions;
+  categories: typeof categories;
+  claims: typeof claims;
+  crons: typeof crons;
+  dataExports: typeof dataExports;
+  duplicates: typeof duplicates;
+  emailSender: typeof emailSender;
+  emails: typeof emails;
   healthCheck: typeof healthCheck;
+  http: typeof http;
+  images: typeof images;
+  "lib/addresses": typeof lib_addresses;
+  "lib/apiKeys": typeof lib_apiKeys;
+  "lib/audit": typeof lib_audit;
+  "lib/auth": typeof lib_auth;
+  "lib/botCheck": typeof lib_botCheck;
+  "lib/businessVersions": typeof lib_businessVersions;
+  "lib/businesses": typeof lib_businesses;
+  "lib/categories": typeof lib_categories;
+  "lib/clerkWebhook": typeof lib_clerkWebhook;
+  "lib/duplicates": typeof lib_duplicates;
+  "lib/emails": typeof lib_emails;
+  "lib/exports": typeof lib_exports;
+  "lib/geo": typeof lib_geo;
+  "lib/hours": typeof lib_hours;
+  "lib/httpApi": typeof lib_httpApi;
+  "lib/images": typeof lib_images;
+  "lib/mail": typeof lib_mail;
+  "lib/mailTransports": typeof lib_mailTransports;
+  "lib/postcodeAreas": typeof lib_postcodeAreas;
+  "lib/postcodeDistricts": typeof lib_postcodeDistricts;
+  "lib/proofOfWork": typeof lib_proofOfWork;
+  "lib/publicApi": typeof lib_publicApi;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/reviews": typeof lib_reviews;
+  "lib/roles": typeof lib_roles;
+  "lib/search": typeof lib_search;
+  "lib/signing": typeof lib_signing;
+  "lib/slug": typeof lib_slug;
+  "lib/tokens": typeof lib_tokens;
+  "lib/ukAddress": typeof lib_ukAddress;
+  "lib/waitlist": typeof lib_waitlist;
+  "lib/webhooks": typeof lib_webhooks;
   privateData: typeof privateData;
+  publicApi: typeof publicApi;
+  rateLimits: typeof rateLimits;
+  reviews: typeof reviews;
   submittedBusinesses: typeof submittedBusinesses;
   user: typeof user;
   waitlist: typeof waitlist;
+  webhooks: typeof webhooks;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,240 @@
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation } from "./lib/auth";
+import { createAddress } from "./lib/addresses";
+import { cellsWithin, coordinateFields, coordinatesForPostcode, distanceKm, MAX_RADIUS_KM } from "./lib/geo";
+import { searchFieldsFor } from "./lib/search";
+
+// Addresses read per search, shared out between the grid cells it covers.
+// Addresses placed by postcode share their district's centroid, so one busy
+// cell could otherwise take a query past Convex's read limits.
+const MAX_ADDRESSES_READ = 4000;
+
+/**
+ * Businesses within `radiusKm` of a point, nearest first. Only businesses
+ * whose address has coordinates can be found, and each grid cell only gets
+ * its share of `MAX_ADDRESSES_READ`.
+ */
+export const nearbyBusinesses = query({
+  args: {
+    latitude: v.number(),
+    longitude: v.number(),
+    radiusKm: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const radiusKm = Math.min(Math.max(args.radiusKm ?? 5, 0), MAX_RADIUS_KM);
+    const limit = Math.min(Math.max(Math.floor(args.limit ?? 50), 1), 100);
+    const origin = { latitude: args.latitude, longitude: args.longitude };
+
+    const nearby: { address: Doc<"addresses">; distanceKm: number }[] = [];
+    const cells = cellsWithin(args.latitude, args.longitude, radiusKm);
+    const perCell = Math.max(1, Math.floor(MAX_ADDRESSES_READ / cells.length));
+    for (const cell of cells) {
+      const addresses = await ctx.db
+        .query("addresses")
+        .withIndex("by_geoCell", (q) => q.eq("geoCell", cell))
+        .take(perCell);
+      for (const address of addresses) {
+        if (address.latitude === undefined || address.longitude === undefined) {
+          continue;
+        }
+        const distance = distanceKm(origin, {
+          latitude: address.latitude,
+          longitude: address.longitude,
+        });
+        if (distance <= radiusKm) {
+          nearby.push({ address, distanceKm: distance });
+        }
+      }
+    }
+    nearby.sort((a, b) => a.distanceKm - b.distanceKm);
+
+    const results: { business: Doc<"businesses">; distanceKm: number }[] = [];
+    for (const { address, distanceKm } of nearby) {
+      const businesses = await ctx.db
+        .query("businesses")
+        .withIndex("by_addressId", (q) => q.eq("addressId", address._id))
+        .collect();
+      for (const business of businesses) {
+        results.push({ business, distanceKm });
+      }
+      if (results.length >= limit) {
+        break;
+      }
+    }
+    return results.slice(0, limit);
+  },
+});
+
+export const getBusinessAddress = query({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db.get(args.businessId);
+    const addressId = business?.addressId
+      ? ctx.db.normalizeId("addresses", business.addressId)
+      : null;
+    return addressId ? await ctx.db.get(addressId) : null;
+  },
+});
+
+/**
+ * Sets exact coordinates for a business's address, or clears them back to
+ * the postcode's location when both are omitted.
+ */
+export const setBusinessCoordinates = adminMutation({
+  args: {
+    businessId: v.id("businesses"),
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db.get(args.businessId);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    const existingId = business.addressId
+      ? ctx.db.normalizeId("addresses", business.addressId)
+      : null;
+    const address = existingId ? await ctx.db.get(existingId) : null;
+
+    if (args.latitude === undefined || args.longitude === undefined) {
+      if (address) {
+        await withAudit(ctx, "addresses:setBusinessCoordinates", "addresses", address._id, () =>
+          ctx.db.patch(address._id, {
+            latitude: undefined,
+            longitude: undefined,
+            geoCell: undefined,
+            coordinateSource: undefined,
+            coordinatePrecision: undefined,
+            ...coordinatesForPostcode(address.Postcode),
+          }),
+        );
+      }
+      return;
+    }
+    if (Math.abs(args.latitude) > 90 || Math.abs(args.longitude) > 180) {
+      throw new Error("Coordinates are out of range");
+    }
+
+    const coordinates = {
+      ...coordinateFields(args.latitude, args.longitude, "exact"),
+      coordinateSource: "manual" as const,
+    };
+    if (address) {
+      await withAudit(ctx, "addresses:setBusinessCoordinates", "addresses", address._id, () =>
+        ctx.db.patch(address._id, coordinates),
+      );
+    } else {
+      const addressId = await ctx.db.insert("addresses", {
+        combinedAddress: business.address,
+        ...coordinates,
+      });
+      await recordAudit(ctx, "addresses:setBusinessCoordinates", "addresses", null, await ctx.db.get(addressId));
+      await withAudit(ctx, "addresses:setBusinessCoordinates", "businesses", business._id, () =>
+        ctx.db.patch(business._id, { addressId }),
+      );
+    }
+  },
+});
+
+/**
+ * Creates linked `addresses` rows for businesses that only have a free-text
+ * address. Run with `npx convex run addresses:backfillBusinessAddresses`.
+ */
+export const backfillBusinessAddresses = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("businesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const business of page.page) {
+      if (business.addressId || !business.address?.trim()) {
+        continue;
+      }
+      const addressId = await createAddress(ctx, business.address);
+      if (addressId) {
+        const linked = { ...business, addressId };
+        await ctx.db.patch(business._id, {
+          addressId,
+          locality: (await searchFieldsFor(ctx, linked)).locality,
+        });
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.addresses.backfillBusinessAddresses, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Same as `backfillBusinessAddresses`, for submissions still in the queue.
+ * Run with `npx convex run addresses:backfillSubmissionAddresses`.
+ */
+export const backfillSubmissionAddresses = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("submittedBusinesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const submission of page.page) {
+      if (submission.addressId || !submission.address?.trim()) {
+        continue;
+      }
+      const addressId = await createAddress(ctx, submission.address);
+      if (addressId) {
+        await ctx.db.patch(submission._id, { addressId });
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.addresses.backfillSubmissionAddresses, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Places addresses at their postcode district's centroid (or area's) from
+ * the bundled tables, e.g. after they gain districts. Coordinates entered
+ * by hand are left alone. Run with `npx convex run addresses:backfillCoordinates`.
+ */
+export const backfillCoordinates = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("addresses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const address of page.page) {
+      if (!address.Postcode || address.coordinateSource === "manual") {
+        continue;
+      }
+      const coordinates: Partial<Doc<"addresses">> = coordinatesForPostcode(address.Postcode);
+      if (
+        coordinates.latitude !== address.latitude ||
+        coordinates.longitude !== address.longitude ||
+        coordinates.coordinatePrecision !== address.coordinatePrecision
+      ) {
+        await ctx.db.patch(address._id, coordinates);
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.addresses.backfillCoordinates, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
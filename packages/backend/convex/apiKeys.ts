@@ -0,0 +1,245 @@
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { apiKeyScope } from "./schema";
+import {
+  API_USAGE_SHARDS,
+  LAST_USED_RESOLUTION_MS,
+  generateApiKey,
+  recentUsageDays,
+  usageDay,
+} from "./lib/apiKeys";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation, adminQuery, requireRole } from "./lib/auth";
+import { hashToken } from "./lib/tokens";
+
+const USAGE_DAYS = 30;
+
+/** Every key, newest first, with its owner and request counts. */
+export const listApiKeys = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    const keys = await ctx.db.query("apiKeys").order("desc").collect();
+    const [firstDay] = recentUsageDays(USAGE_DAYS);
+    const today = usageDay();
+    return await Promise.all(
+      keys.map(async ({ secretHash: _, ...key }) => {
+        const owner = await ctx.db.get(key.ownerId);
+        const usage = await ctx.db
+          .query("apiKeyUsage")
+          .withIndex("by_key_and_day", (q) => q.eq("keyId", key._id).gte("day", firstDay))
+          .collect();
+        return {
+          ...key,
+          ownerName: owner?.fullname ?? owner?.username ?? owner?.clerkId ?? "Unknown user",
+          requestsToday: usage.filter((row) => row.day === today).reduce((total, row) => total + row.count, 0),
+          requestsLast30Days: usage.reduce((total, row) => total + row.count, 0),
+        };
+      }),
+    );
+  },
+});
+
+/** Requests per day for one key over the last `days` days, oldest first. */
+export const getApiKeyUsage = adminQuery({
+  args: {
+    id: v.id("apiKeys"),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const days = recentUsageDays(Math.min(Math.max(args.days ?? USAGE_DAYS, 1), 90));
+    const usage = await ctx.db
+      .query("apiKeyUsage")
+      .withIndex("by_key_and_day", (q) => q.eq("keyId", args.id).gte("day", days[0]))
+      .collect();
+    const counts = new Map<string, number>();
+    for (const row of usage) {
+      counts.set(row.day, (counts.get(row.day) ?? 0) + row.count);
+    }
+    return days.map((day) => ({ day, count: counts.get(day) ?? 0 }));
+  },
+});
+
+/**
+ * Creates a key and returns its secret. This is the only time the secret is
+ * available; it is generated here rather than in the mutation so it never
+ * appears in function arguments or logs.
+ */
+export const createApiKey = action({
+  args: {
+    name: v.string(),
+    ownerId: v.id("users"),
+    scopes: v.array(apiKeyScope),
+  },
+  handler: async (ctx, args): Promise<{ id: Id<"apiKeys">; secret: string }> => {
+    const { secret, prefix } = generateApiKey();
+    const id = await ctx.runMutation(internal.apiKeys.storeApiKey, {
+      ...args,
+      prefix,
+      secretHash: await hashToken(secret),
+    });
+    return { id, secret };
+  },
+});
+
+export const storeApiKey = internalMutation({
+  args: {
+    name: v.string(),
+    ownerId: v.id("users"),
+    scopes: v.array(apiKeyScope),
+    prefix: v.string(),
+    secretHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireRole(ctx, "admin");
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Name is required");
+    }
+    if (args.scopes.length === 0) {
+      throw new Error("Choose at least one scope");
+    }
+    if (!(await ctx.db.get(args.ownerId))) {
+      throw new Error("Owner not found");
+    }
+    const id = await ctx.db.insert("apiKeys", {
+      ...args,
+      name,
+      scopes: [...new Set(args.scopes)],
+      createdAt: new Date().toISOString(),
+      createdBy: admin.clerkId,
+    });
+    await recordAudit(ctx, "apiKeys:createApiKey", "apiKeys", null, await ctx.db.get(id));
+    return id;
+  },
+});
+
+/**
+ * Replaces a key with a new secret, keeping its name, owner and scopes.
+ * The old key stops working straight away.
+ */
+export const rotateApiKey = action({
+  args: {
+    id: v.id("apiKeys"),
+  },
+  handler: async (ctx, args): Promise<{ id: Id<"apiKeys">; secret: string }> => {
+    const { secret, prefix } = generateApiKey();
+    const id = await ctx.runMutation(internal.apiKeys.replaceApiKey, {
+      id: args.id,
+      prefix,
+      secretHash: await hashToken(secret),
+    });
+    return { id, secret };
+  },
+});
+
+export const replaceApiKey = internalMutation({
+  args: {
+    id: v.id("apiKeys"),
+    prefix: v.string(),
+    secretHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireRole(ctx, "admin");
+    const key = await ctx.db.get(args.id);
+    if (!key) {
+      throw new Error("API key not found");
+    }
+    if (key.revokedAt) {
+      throw new Error("Revoked keys cannot be rotated");
+    }
+    const now = new Date().toISOString();
+    await withAudit(ctx, "apiKeys:rotateApiKey", "apiKeys", key._id, () =>
+      ctx.db.patch(key._id, { revokedAt: now, revokedBy: admin.clerkId }),
+    );
+    const id = await ctx.db.insert("apiKeys", {
+      name: key.name,
+      ownerId: key.ownerId,
+      scopes: key.scopes,
+      prefix: args.prefix,
+      secretHash: args.secretHash,
+      createdAt: now,
+      createdBy: admin.clerkId,
+      rotatedFrom: key._id,
+    });
+    await recordAudit(ctx, "apiKeys:rotateApiKey", "apiKeys", null, await ctx.db.get(id));
+    return id;
+  },
+});
+
+export const revokeApiKey = adminMutation({
+  args: {
+    id: v.id("apiKeys"),
+  },
+  handler: async (ctx, args) => {
+    const key = await ctx.db.get(args.id);
+    if (!key) {
+      throw new Error("API key not found");
+    }
+    if (key.revokedAt) {
+      return;
+    }
+    await withAudit(ctx, "apiKeys:revokeApiKey", "apiKeys", key._id, () =>
+      ctx.db.patch(key._id, { revokedAt: new Date().toISOString(), revokedBy: ctx.user.clerkId }),
+    );
+  },
+});
+
+/**
+ * Checks a key presented to the HTTP API. Returns the key's ID, or why it
+ * was refused. A query, so concurrent requests don't conflict; callers
+ * count the request with `recordApiKeyUsage`.
+ */
+export const checkApiKey = internalQuery({
+  args: {
+    secretHash: v.string(),
+    scope: apiKeyScope,
+  },
+  handler: async (ctx, args) => {
+    const key = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_secretHash", (q) => q.eq("secretHash", args.secretHash))
+      .unique();
+    // Keys of deleted users are revoked with them; the owner check covers
+    // any left over from before that.
+    if (!key || key.revokedAt || !(await ctx.db.get(key.ownerId))) {
+      return { ok: false as const, reason: "invalid_key" as const };
+    }
+    if (!key.scopes.includes(args.scope)) {
+      return { ok: false as const, reason: "missing_scope" as const };
+    }
+    return { ok: true as const, keyId: key._id };
+  },
+});
+
+/**
+ * Counts a request against a key's daily usage, in a random one of the
+ * day's shards, and bumps `lastUsedAt` if it is over a minute old.
+ * Scheduled by the HTTP API rather than run inline, so a slow or retried
+ * write never holds up the response.
+ */
+export const recordApiKeyUsage = internalMutation({
+  args: {
+    keyId: v.id("apiKeys"),
+    usedAt: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const day = usageDay(new Date(args.usedAt));
+    const shard = Math.floor(Math.random() * API_USAGE_SHARDS);
+    const usage = await ctx.db
+      .query("apiKeyUsage")
+      .withIndex("by_key_and_day", (q) => q.eq("keyId", args.keyId).eq("day", day).eq("shard", shard))
+      .unique();
+    if (usage) {
+      await ctx.db.patch(usage._id, { count: usage.count + 1 });
+    } else {
+      await ctx.db.insert("apiKeyUsage", { keyId: args.keyId, day, shard, count: 1 });
+    }
+    const key = await ctx.db.get(args.keyId);
+    const stale = new Date(Date.parse(args.usedAt) - LAST_USED_RESOLUTION_MS).toISOString();
+    if (key && (!key.lastUsedAt || key.lastUsedAt < stale)) {
+      await ctx.db.patch(key._id, { lastUsedAt: args.usedAt });
+    }
+  },
+});
@@ -0,0 +1,68 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { redactChange } from "./lib/audit";
+import { adminQuery } from "./lib/auth";
+
+/**
+ * Audit entries, newest first. The most selective filter picks the index;
+ * any others are applied on top of it.
+ */
+export const getAuditLog = adminQuery({
+  args: {
+    table: v.optional(v.string()),
+    action: v.optional(v.string()),
+    actorId: v.optional(v.string()),
+    targetId: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { table, action, actorId, targetId } = args;
+    const entries = targetId
+      ? ctx.db.query("auditLog").withIndex("by_target", (q) => q.eq("targetId", targetId))
+      : actorId
+        ? ctx.db.query("auditLog").withIndex("by_actor", (q) => q.eq("actorId", actorId))
+        : action
+          ? ctx.db.query("auditLog").withIndex("by_action", (q) => q.eq("action", action))
+          : table
+            ? ctx.db.query("auditLog").withIndex("by_table", (q) => q.eq("table", table))
+            : ctx.db.query("auditLog");
+    return await entries
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          table === undefined ? true : q.eq(q.field("table"), table),
+          action === undefined ? true : q.eq(q.field("action"), action),
+          actorId === undefined ? true : q.eq(q.field("actorId"), actorId),
+        ),
+      )
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Redacts secrets recorded by entries written before `lib/audit` left them
+ * out, 100 entries at a time. Run with `npx convex run audit:redactAuditLog`.
+ */
+export const redactAuditLog = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("auditLog")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const entry of page.page) {
+      const changes = entry.changes.map(redactChange);
+      if (JSON.stringify(changes) !== JSON.stringify(entry.changes)) {
+        await ctx.db.patch(entry._id, { changes });
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.audit.redactAuditLog, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
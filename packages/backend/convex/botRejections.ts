@@ -0,0 +1,39 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { adminQuery } from "./lib/auth";
+
+export const getRejections = adminQuery({
+  args: {
+    form: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { form } = args;
+    const rejections = form
+      ? ctx.db.query("botRejections").withIndex("by_form", (q) => q.eq("form", form))
+      : ctx.db.query("botRejections");
+    return await rejections.order("desc").paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Deletes used form nonces whose tokens have expired, 100 at a time. Run
+ * daily from `crons.ts`.
+ */
+export const pruneFormNonces = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("formNonces")
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", Date.now()))
+      .take(100);
+    for (const nonce of expired) {
+      await ctx.db.delete(nonce._id);
+    }
+    if (expired.length === 100) {
+      await ctx.scheduler.runAfter(0, internal.botRejections.pruneFormNonces, {});
+    }
+  },
+});
@@ -1,10 +1,51 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { filter } from "convex-helpers/server/filter";
+import { withAudit } from "./lib/audit";
+import { adminMutation, memberMutation } from "./lib/auth";
+import { canManageBusiness, patchBusiness } from "./lib/businesses";
+import { businessFilters, matchesBusinessFilters } from "./lib/exports";
+import { hoursFromLegacy, openingHoursErrors } from "./lib/hours";
+import { assertValidImage, withImageUrl } from "./lib/images";
+import { withVersion } from "./lib/businessVersions";
+import { openingHours } from "./schema";
+import { searchBusinessPage, searchFieldsFor } from "./lib/search";
+import { slugify } from "./lib/slug";
 
+/** All businesses in name order, a page at a time, optionally only claimed or unclaimed ones. */
 export const getBusinesses = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db.query("businesses").collect();
+  args: {
+    ...businessFilters,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    return await filter(ctx.db.query("businesses").withIndex("by_name"), (business) =>
+      matchesBusinessFilters(business, args),
+    ).paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Full-text search over business names and descriptions. A blank query
+ * lists the newest businesses matching the filters instead. `category` is a
+ * category slug; text searches can only filter on a business's primary
+ * category, while blank queries match any of its categories.
+ */
+export const searchBusinesses = query({
+  args: {
+    query: v.string(),
+    category: v.optional(v.string()),
+    locality: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const results = await searchBusinessPage(ctx, args);
+    return {
+      ...results,
+      page: await Promise.all(results.page.map((business) => withImageUrl(ctx, business))),
+    };
   },
 });
 
@@ -13,7 +54,10 @@ export const getBusinessByName = query({
     name: v.string(),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.query("businesses").filter((q) => q.eq(q.field("name"), args.name)).first();
+    return await ctx.db
+      .query("businesses")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
   },
 });
 
@@ -22,12 +66,44 @@ export const getBusinessBySlug = query({
     slug: v.string(),
   },  
   handler: async (ctx, args) => {
-    return await ctx.db.query("businesses").filter((q) => q.eq(q.field("slug"), args.slug)).first();
+    return await ctx.db
+      .query("businesses")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+  },
+});
+
+/**
+ * Looks a business up by its current slug, falling back to slugs it used to
+ * have. `redirectTo` is set when the caller should move to the canonical URL.
+ */
+export const resolveBusinessSlug = query({
+  args: {
+    slug: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db
+      .query("businesses")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+    if (business) {
+      return { business: await withImageUrl(ctx, business), redirectTo: null };
+    }
+    const previous = await ctx.db
+      .query("slugHistory")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+    const renamed = previous && (await ctx.db.get(previous.businessId));
+    if (!renamed?.slug) {
+      return null;
+    }
+    return { business: await withImageUrl(ctx, renamed), redirectTo: renamed.slug };
   },
 });
 
-export const updateBusiness = mutation({
+export const updateBusiness = adminMutation({
   args: {
+    id: v.id("businesses"),
     business: v.object({
       name: v.optional(v.string()),
       description: v.optional(v.string()),
@@ -36,31 +112,142 @@ export const updateBusiness = mutation({
     }),
   },
   handler: async (ctx, args) => {
-    const businesses = await ctx.db.query("businesses").collect();
-    const baseForSlug = (args.business.slug ?? args.business.name) ?? "";
-    const desiredSlug = baseForSlug
-      ? baseForSlug.trim().toLowerCase().replace(/\s+/g, "-")
-      : undefined;
+    await withAudit(ctx, "business:updateBusiness", "businesses", args.id, () =>
+      patchBusiness(ctx, args.id, args.business),
+    );
+    return (await ctx.db.get(args.id))?.slug ?? null;
+  },
+});
 
-    const existingBySlug = desiredSlug
-      ? businesses.find((b) => b.slug === desiredSlug)
-      : undefined;
-    const existingByName = args.business.name
-      ? businesses.find((b) => b.name === args.business.name)
-      : undefined;
-    const target = existingBySlug ?? existingByName;
-    if (!target) {
+export const setOpeningHours = adminMutation({
+  args: {
+    id: v.id("businesses"),
+    openingHours: v.union(openingHours, v.null()),
+  },
+  handler: async (ctx, args) => {
+    if (args.openingHours) {
+      const errors = openingHoursErrors(args.openingHours);
+      if (errors.length > 0) {
+        throw new Error(errors.join("; "));
+      }
+    }
+    await withAudit(ctx, "business:setOpeningHours", "businesses", args.id, () =>
+      patchBusiness(ctx, args.id, { openingHours: args.openingHours ?? undefined }),
+    );
+  },
+});
+
+/** Attaches an uploaded image to a business, or removes it with null. */
+export const setBusinessImage = memberMutation({
+  args: {
+    id: v.id("businesses"),
+    imageId: v.union(v.id("_storage"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db.get(args.id);
+    if (!business) {
       throw new Error("Business not found");
     }
-    const normalizedSlug = (desiredSlug ?? target.slug)
-      ? (desiredSlug ?? target.slug)!.replace(/-/g, "")
-      : undefined;
-    const update: Record<string, string | undefined> = {
-      name: args.business.name,
-      description: args.business.description,
-      email: args.business.email,
-      slug: normalizedSlug,
-    };
-    return await ctx.db.patch(target._id, update);
+    if (!canManageBusiness(ctx.user, business)) {
+      throw new Error("Not authorized");
+    }
+    if (args.imageId) {
+      await assertValidImage(ctx, args.imageId);
+    }
+    // The previous image is kept: earlier versions still point at it.
+    await withAudit(ctx, "business:setBusinessImage", "businesses", args.id, () =>
+      withVersion(ctx, args.id, () =>
+        ctx.db.patch(args.id, {
+          imageId: args.imageId ?? undefined,
+          updatedAt: new Date().toISOString(),
+        }),
+      ),
+    );
+  },
+});
+
+/**
+ * Gives every business a canonical slug. Older edits stripped the hyphens
+ * out of slugs, so those are regenerated and the stripped form is kept as a
+ * redirect. Run with `npx convex run business:backfillSlugs`.
+ */
+export const backfillSlugs = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
   },
-});
\ No newline at end of file
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("businesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const business of page.page) {
+      const canonical = slugify(business.name);
+      const stripped = business.slug === canonical.replace(/-/g, "");
+      if ((!business.slug || stripped) && business.slug !== canonical) {
+        await withAudit(ctx, "business:backfillSlugs", "businesses", business._id, () =>
+          patchBusiness(ctx, business._id, { slug: business.name }),
+        );
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.business.backfillSlugs, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Fills in the search index fields for businesses written before search
+ * existed. Run with `npx convex run business:backfillSearchFields`.
+ */
+export const backfillSearchFields = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("businesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const business of page.page) {
+      const fields = await searchFieldsFor(ctx, business);
+      await withAudit(ctx, "business:backfillSearchFields", "businesses", business._id, () =>
+        ctx.db.patch(business._id, fields),
+      );
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.business.backfillSearchFields, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Converts the legacy opening/closing time pair into weekly hours.
+ * Run with `npx convex run business:backfillOpeningHours`.
+ */
+export const backfillOpeningHours = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("businesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const business of page.page) {
+      const hours = business.openingHours
+        ? undefined
+        : hoursFromLegacy(business.openingTime, business.closingTime);
+      if (hours) {
+        await withAudit(ctx, "business:backfillOpeningHours", "businesses", business._id, () =>
+          withVersion(ctx, business._id, () => ctx.db.patch(business._id, { openingHours: hours })),
+        );
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.business.backfillOpeningHours, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
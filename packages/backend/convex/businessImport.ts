@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { createAddress } from "./lib/addresses";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation, adminQuery } from "./lib/auth";
+import { createBusiness, patchBusiness, type BusinessFields } from "./lib/businesses";
+import { hoursFromLegacy } from "./lib/hours";
+
+// Each call to importBusinesses is one transaction, so the web page sends
+// rows in batches of at most this many and reports progress in between.
+const IMPORT_BATCH_SIZE = 50;
+
+const importRow = v.object({
+  // Updates the business with this slug when set and found; creates one otherwise.
+  slug: v.optional(v.string()),
+  // Required when the row creates a business.
+  name: v.optional(v.string()),
+  description: v.optional(v.string()),
+  email: v.optional(v.string()),
+  address: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  website: v.optional(v.string()),
+  openingTime: v.optional(v.string()),
+  closingTime: v.optional(v.string()),
+});
+
+/** The businesses an import would update, for the dry-run report. */
+export const previewBusinessImport = adminQuery({
+  args: {
+    slugs: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const found: { slug: string; name: string }[] = [];
+    for (const slug of new Set(args.slugs)) {
+      const business = await ctx.db
+        .query("businesses")
+        .withIndex("by_slug", (q) => q.eq("slug", slug))
+        .first();
+      if (business) {
+        found.push({ slug, name: business.name });
+      }
+    }
+    return found;
+  },
+});
+
+/**
+ * Creates or updates one batch of already-validated rows. Fields a row
+ * leaves out keep their current value on update.
+ */
+export const importBusinesses = adminMutation({
+  args: {
+    rows: v.array(importRow),
+  },
+  handler: async (ctx, args) => {
+    if (args.rows.length > IMPORT_BATCH_SIZE) {
+      throw new Error(`Import at most ${IMPORT_BATCH_SIZE} rows at a time`);
+    }
+    let created = 0;
+    let updated = 0;
+    for (const { slug, name: rawName, address: rawAddress, ...row } of args.rows) {
+      const name = rawName?.trim();
+      const address = rawAddress?.trim();
+      const fields: Partial<BusinessFields> = name ? { ...row, name } : { ...row };
+      const openingHours = hoursFromLegacy(row.openingTime, row.closingTime);
+      if (openingHours) {
+        fields.openingHours = openingHours;
+      }
+
+      const existing = slug
+        ? await ctx.db
+            .query("businesses")
+            .withIndex("by_slug", (q) => q.eq("slug", slug))
+            .first()
+        : null;
+      if (existing) {
+        if (address && address !== existing.address?.trim()) {
+          fields.address = address;
+          fields.addressId = await createAddress(ctx, address);
+        }
+        await withAudit(ctx, "businessImport:importBusinesses", "businesses", existing._id, () =>
+          patchBusiness(ctx, existing._id, fields),
+        );
+        updated++;
+      } else {
+        if (!name) {
+          throw new Error("Rows that add a business need a name");
+        }
+        const id = await createBusiness(ctx, {
+          ...fields,
+          name,
+          address: address || undefined,
+          addressId: address ? await createAddress(ctx, address) : undefined,
+        });
+        await recordAudit(ctx, "businessImport:importBusinesses", "businesses", null, await ctx.db.get(id));
+        created++;
+      }
+    }
+    return { created, updated };
+  },
+});
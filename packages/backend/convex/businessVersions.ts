@@ -0,0 +1,65 @@
+import { v } from "convex/values";
+import { withAudit } from "./lib/audit";
+import { adminMutation, adminQuery } from "./lib/auth";
+import { createAddress } from "./lib/addresses";
+import { patchBusiness } from "./lib/businesses";
+import { SNAPSHOT_FIELDS } from "./lib/businessVersions";
+
+/** A business's revision timeline, newest first. */
+export const getBusinessVersions = adminQuery({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("businessVersions")
+      .withIndex("by_business_and_version", (q) => q.eq("businessId", args.businessId))
+      .order("desc")
+      .collect();
+    return await Promise.all(
+      versions.map(async (version) => ({
+        ...version,
+        imageUrl: version.snapshot.imageId ? await ctx.storage.getUrl(version.snapshot.imageId) : null,
+      })),
+    );
+  },
+});
+
+/**
+ * Puts a business back the way it was at an earlier version. The restore
+ * is itself recorded as a new version, so it can be undone the same way.
+ */
+export const restoreBusinessVersion = adminMutation({
+  args: {
+    id: v.id("businessVersions"),
+  },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.id);
+    if (!version) {
+      throw new Error("Version not found");
+    }
+    const business = await ctx.db.get(version.businessId);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    const { snapshot } = version;
+    if (snapshot.imageId && !(await ctx.db.system.get(snapshot.imageId))) {
+      throw new Error("This version's image is no longer available");
+    }
+
+    // Fields missing from the snapshot are cleared, not left as they are.
+    const patch: Record<string, unknown> = {};
+    for (const field of SNAPSHOT_FIELDS) {
+      patch[field] = snapshot[field];
+    }
+    const address = snapshot.address?.trim();
+    if (address !== business.address?.trim()) {
+      patch.addressId = address ? await createAddress(ctx, address) : undefined;
+    }
+
+    await withAudit(ctx, "businessVersions:restoreBusinessVersion", "businesses", business._id, () =>
+      patchBusiness(ctx, business._id, { ...patch, slug: snapshot.slug ?? snapshot.name }, version.version),
+    );
+    return (await ctx.db.get(business._id))?.slug ?? null;
+  },
+});
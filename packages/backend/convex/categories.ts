@@ -0,0 +1,336 @@
+import { internalMutation, query, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation } from "./lib/auth";
+import { assertValidImage, replaceImage, withImageUrl } from "./lib/images";
+import {
+  generateUniqueCategorySlug,
+  getBusinessCategoryIds,
+  setBusinessCategories as linkCategories,
+} from "./lib/categories";
+
+export const getCategories = query({
+  args: {},
+  handler: async (ctx) => {
+    const categories = await ctx.db.query("categories").collect();
+    const sorted = categories.sort((a, b) => a.name.localeCompare(b.name));
+    return await Promise.all(sorted.map((category) => withImageUrl(ctx, category)));
+  },
+});
+
+export const getCategoryBySlug = query({
+  args: {
+    slug: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const category = await ctx.db
+      .query("categories")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .unique();
+    if (!category) {
+      return null;
+    }
+    const parent = category.parentId ? await ctx.db.get(category.parentId) : null;
+    const children = await ctx.db
+      .query("categories")
+      .withIndex("by_parent", (q) => q.eq("parentId", category._id))
+      .collect();
+    return { category: await withImageUrl(ctx, category), parent, children };
+  },
+});
+
+export const getCategoryBusinesses = query({
+  args: {
+    categoryId: v.id("categories"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const links = await ctx.db
+      .query("businessCategories")
+      .withIndex("by_category", (q) => q.eq("categoryId", args.categoryId))
+      .paginate(args.paginationOpts);
+    const businesses = await Promise.all(links.page.map((link) => ctx.db.get(link.businessId)));
+    return {
+      ...links,
+      page: businesses.filter((business) => business !== null),
+    };
+  },
+});
+
+export const getBusinessCategories = query({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const ids = await getBusinessCategoryIds(ctx, args.businessId);
+    const categories = await Promise.all(ids.map((id) => ctx.db.get(id)));
+    return categories.filter((category) => category !== null);
+  },
+});
+
+async function assertValidParent(
+  ctx: MutationCtx,
+  parentId: Id<"categories"> | undefined,
+  categoryId?: Id<"categories">,
+) {
+  // Walk up from the new parent to make sure we are not creating a cycle
+  for (let current = parentId; current; ) {
+    if (current === categoryId) {
+      throw new Error("A category cannot be nested inside itself");
+    }
+    const parent = await ctx.db.get(current);
+    if (!parent) {
+      throw new Error("Parent category not found");
+    }
+    current = parent.parentId;
+  }
+}
+
+/**
+ * Replaces a business's categories and audits it as a change to the
+ * business, with its category IDs alongside its fields.
+ */
+async function linkCategoriesAudited(
+  ctx: MutationCtx,
+  action: string,
+  businessId: Id<"businesses">,
+  categoryIds: Id<"categories">[],
+) {
+  const withCategories = async () => {
+    const business = await ctx.db.get(businessId);
+    return business && { ...business, categoryIds: await getBusinessCategoryIds(ctx, businessId) };
+  };
+  const before = await withCategories();
+  await linkCategories(ctx, businessId, categoryIds);
+  await recordAudit(ctx, action, "businesses", before, await withCategories());
+}
+
+export const createCategory = adminMutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    parentId: v.optional(v.id("categories")),
+  },
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Category name is required");
+    }
+    await assertValidParent(ctx, args.parentId);
+    const now = new Date().toISOString();
+    const id = await ctx.db.insert("categories", {
+      name,
+      description: args.description,
+      parentId: args.parentId,
+      slug: await generateUniqueCategorySlug(ctx, name),
+      createdAt: now,
+      updatedAt: now,
+    });
+    await recordAudit(ctx, "categories:createCategory", "categories", null, await ctx.db.get(id));
+    return id;
+  },
+});
+
+/**
+ * Renames or moves a category. Businesses link to categories by ID, so a
+ * rename shows up everywhere without touching them. The slug only changes
+ * when one is passed in.
+ */
+export const updateCategory = adminMutation({
+  args: {
+    id: v.id("categories"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    parentId: v.optional(v.union(v.id("categories"), v.null())),
+    slug: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const category = await ctx.db.get(args.id);
+    if (!category) {
+      throw new Error("Category not found");
+    }
+    const name = args.name?.trim();
+    if (name === "") {
+      throw new Error("Category name is required");
+    }
+    if (args.parentId) {
+      await assertValidParent(ctx, args.parentId, args.id);
+    }
+    const patch: Partial<Doc<"categories">> = {};
+    if (name !== undefined) {
+      patch.name = name;
+    }
+    if (args.description !== undefined) {
+      patch.description = args.description;
+    }
+    if (args.parentId !== undefined) {
+      patch.parentId = args.parentId ?? undefined;
+    }
+    if (args.slug) {
+      patch.slug = await generateUniqueCategorySlug(ctx, args.slug, args.id);
+    }
+    await withAudit(ctx, "categories:updateCategory", "categories", args.id, () =>
+      ctx.db.patch(args.id, {
+        ...patch,
+        updatedAt: new Date().toISOString(),
+      }),
+    );
+  },
+});
+
+/**
+ * Deletes a category. Its children move up to its parent and businesses
+ * lose the link, falling back to another category as their primary one.
+ */
+export const deleteCategory = adminMutation({
+  args: {
+    id: v.id("categories"),
+  },
+  handler: async (ctx, args) => {
+    const category = await ctx.db.get(args.id);
+    if (!category) {
+      throw new Error("Category not found");
+    }
+    const children = await ctx.db
+      .query("categories")
+      .withIndex("by_parent", (q) => q.eq("parentId", args.id))
+      .collect();
+    for (const child of children) {
+      await withAudit(ctx, "categories:deleteCategory", "categories", child._id, () =>
+        ctx.db.patch(child._id, { parentId: category.parentId }),
+      );
+    }
+    const links = await ctx.db
+      .query("businessCategories")
+      .withIndex("by_category", (q) => q.eq("categoryId", args.id))
+      .collect();
+    for (const link of links) {
+      const remaining = (await getBusinessCategoryIds(ctx, link.businessId)).filter(
+        (id) => id !== args.id,
+      );
+      const business = await ctx.db.get(link.businessId);
+      const primary = business?.primaryCategoryId;
+      await linkCategoriesAudited(
+        ctx,
+        "categories:deleteCategory",
+        link.businessId,
+        primary && primary !== args.id ? [primary, ...remaining.filter((id) => id !== primary)] : remaining,
+      );
+    }
+    await ctx.db.delete(args.id);
+    await recordAudit(ctx, "categories:deleteCategory", "categories", category, null);
+    await replaceImage(ctx, category.imageId, undefined);
+  },
+});
+
+/** Attaches an uploaded image to a category, or removes it with null. */
+export const setCategoryImage = adminMutation({
+  args: {
+    id: v.id("categories"),
+    imageId: v.union(v.id("_storage"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const category = await ctx.db.get(args.id);
+    if (!category) {
+      throw new Error("Category not found");
+    }
+    if (args.imageId) {
+      await assertValidImage(ctx, args.imageId);
+    }
+    await withAudit(ctx, "categories:setCategoryImage", "categories", args.id, () =>
+      ctx.db.patch(args.id, {
+        imageId: args.imageId ?? undefined,
+        updatedAt: new Date().toISOString(),
+      }),
+    );
+    await replaceImage(ctx, category.imageId, args.imageId ?? undefined);
+  },
+});
+
+export const setBusinessCategories = adminMutation({
+  args: {
+    businessId: v.id("businesses"),
+    categoryIds: v.array(v.id("categories")),
+  },
+  handler: async (ctx, args) => {
+    if (!(await ctx.db.get(args.businessId))) {
+      throw new Error("Business not found");
+    }
+    for (const id of args.categoryIds) {
+      if (!(await ctx.db.get(id))) {
+        throw new Error("Category not found");
+      }
+    }
+    await linkCategoriesAudited(ctx, "categories:setBusinessCategories", args.businessId, args.categoryIds);
+  },
+});
+
+/**
+ * Turns the legacy `businesses.categories` name lists into category rows
+ * and links, creating any categories that don't exist yet.
+ * Run with `npx convex run categories:backfillBusinessCategories`.
+ */
+export const backfillBusinessCategories = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("businesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const business of page.page) {
+      const names = (business.categories ?? []).map((name) => name.trim()).filter(Boolean);
+      if (names.length === 0) {
+        continue;
+      }
+      const ids: Id<"categories">[] = [];
+      for (const name of names) {
+        const existing = await ctx.db
+          .query("categories")
+          .withIndex("by_name", (q) => q.eq("name", name))
+          .first();
+        if (existing) {
+          ids.push(existing._id);
+          continue;
+        }
+        const now = new Date().toISOString();
+        ids.push(
+          await ctx.db.insert("categories", {
+            name,
+            slug: await generateUniqueCategorySlug(ctx, name),
+            createdAt: now,
+            updatedAt: now,
+          }),
+        );
+      }
+      const linked = await getBusinessCategoryIds(ctx, business._id);
+      await linkCategories(ctx, business._id, [...new Set([...ids, ...linked])]);
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.categories.backfillBusinessCategories, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Gives categories created before slugs existed a slug.
+ * Run with `npx convex run categories:backfillCategorySlugs`.
+ */
+export const backfillCategorySlugs = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const categories = await ctx.db.query("categories").collect();
+    for (const category of categories) {
+      if (!category.slug) {
+        await ctx.db.patch(category._id, {
+          slug: await generateUniqueCategorySlug(ctx, category.name, category._id),
+        });
+      }
+    }
+  },
+});
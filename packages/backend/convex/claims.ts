@@ -0,0 +1,273 @@
+import { internalMutation, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { claimStatus } from "./schema";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation, adminQuery, memberMutation, memberQuery } from "./lib/auth";
+import { patchBusiness } from "./lib/businesses";
+import { queueEmail } from "./lib/emails";
+import { withImageUrl } from "./lib/images";
+import { rateLimit, rateLimitKeys } from "./lib/rateLimit";
+import { hasRole } from "./lib/roles";
+import { hashToken } from "./lib/tokens";
+
+const CLAIM_TTL_MS = 48 * 60 * 60 * 1000;
+
+/** The signed-in user's claim on a business, if any, for the claim button. */
+export const getMyClaim = memberQuery({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const claims = await ctx.db
+      .query("claims")
+      .withIndex("by_user", (q) => q.eq("userId", ctx.user._id))
+      .collect();
+    const claim = claims.find((claim) => claim.businessId === args.businessId && claim.status !== "revoked");
+    return claim ? { _id: claim._id, status: claim.status, createdAt: claim.createdAt } : null;
+  },
+});
+
+export const getClaims = adminQuery({
+  args: {
+    status: v.optional(claimStatus),
+  },
+  handler: async (ctx, args) => {
+    const claims = args.status
+      ? await ctx.db
+          .query("claims")
+          .withIndex("by_status", (q) => q.eq("status", args.status!))
+          .order("desc")
+          .collect()
+      : await ctx.db.query("claims").order("desc").collect();
+    return await Promise.all(
+      claims.map(async (claim) => {
+        const [business, user] = await Promise.all([ctx.db.get(claim.businessId), ctx.db.get(claim.userId)]);
+        const { tokenHash: _tokenHash, ...rest } = claim;
+        return {
+          ...rest,
+          businessName: business?.name ?? "(deleted business)",
+          businessSlug: business?.slug,
+          userName: user?.fullname ?? user?.username ?? user?.clerkId ?? "(deleted user)",
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Starts a claim: a one-time link is mailed to the business's own email
+ * address, so only someone with access to that inbox can take ownership.
+ * Rate limited per user and per business inbox.
+ */
+export const requestClaim = memberMutation({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db.get(args.businessId);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    if (business.ownerId === ctx.user._id) {
+      throw new Error("You already own this business");
+    }
+    if (business.ownerId) {
+      throw new Error("This business has already been claimed");
+    }
+    const email = business.email?.trim();
+    if (!email) {
+      throw new Error("This business has no email address to verify a claim with. Please contact us.");
+    }
+    await rateLimit(ctx, "claims:requestClaim", await rateLimitKeys(ctx, { email }));
+
+    const claims = await ctx.db
+      .query("claims")
+      .withIndex("by_business", (q) => q.eq("businessId", args.businessId))
+      .collect();
+    const existing = claims.find((claim) => claim.userId === ctx.user._id && claim.status === "pending");
+    let claimId = existing?._id;
+    if (!claimId) {
+      claimId = await ctx.db.insert("claims", {
+        businessId: args.businessId,
+        userId: ctx.user._id,
+        email,
+        status: "pending",
+        createdAt: new Date().toISOString(),
+      });
+      await recordAudit(ctx, "claims:requestClaim", "claims", null, await ctx.db.get(claimId));
+    }
+    await queueEmail(ctx, "claimVerification", existing?.email ?? email, { claimId });
+    return claimId;
+  },
+});
+
+/**
+ * Stores a fresh token hash on a pending claim; earlier links stop working.
+ * Called by `emailSender:send` as it mails the verification link.
+ */
+export const setClaimToken = internalMutation({
+  args: {
+    claimId: v.id("claims"),
+    tokenHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const claim = await ctx.db.get(args.claimId);
+    if (!claim || claim.status !== "pending") {
+      return null;
+    }
+    const business = await ctx.db.get(claim.businessId);
+    if (!business) {
+      return null;
+    }
+    await ctx.db.patch(args.claimId, {
+      tokenHash: args.tokenHash,
+      expiresAt: new Date(Date.now() + CLAIM_TTL_MS).toISOString(),
+    });
+    return { email: claim.email, businessName: business.name };
+  },
+});
+
+/**
+ * Confirms a claim from the emailed link. The link must be opened by the
+ * same signed-in user who asked for it.
+ */
+export const confirmClaim = memberMutation({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const tokenHash = await hashToken(args.token.trim());
+    const claim = await ctx.db
+      .query("claims")
+      .withIndex("by_tokenHash", (q) => q.eq("tokenHash", tokenHash))
+      .unique();
+    if (!claim || claim.status !== "pending") {
+      throw new Error("This link is invalid or has already been used");
+    }
+    if (claim.userId !== ctx.user._id) {
+      throw new Error("Sign in as the account that asked to claim this business");
+    }
+    if (!claim.expiresAt || claim.expiresAt < new Date().toISOString()) {
+      throw new Error("This link has expired. Please ask for a new one.");
+    }
+    const business = await ctx.db.get(claim.businessId);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    if (business.ownerId && business.ownerId !== ctx.user._id) {
+      throw new Error("This business has already been claimed");
+    }
+
+    await withAudit(ctx, "claims:confirmClaim", "claims", claim._id, () =>
+      ctx.db.patch(claim._id, {
+        status: "verified",
+        tokenHash: undefined,
+        verifiedAt: new Date().toISOString(),
+      }),
+    );
+    await withAudit(ctx, "claims:confirmClaim", "businesses", business._id, () =>
+      ctx.db.patch(business._id, { ownerId: ctx.user._id }),
+    );
+    if (!hasRole(ctx.user, "owner")) {
+      await withAudit(ctx, "claims:confirmClaim", "users", ctx.user._id, () =>
+        ctx.db.patch(ctx.user._id, { role: "owner" }),
+      );
+    }
+    return business.slug ?? null;
+  },
+});
+
+/**
+ * Revokes a claim. A verified claim's owner loses the listing, and drops
+ * back to member if it was the last business they owned.
+ */
+export const revokeClaim = adminMutation({
+  args: {
+    id: v.id("claims"),
+  },
+  handler: async (ctx, args) => {
+    const claim = await ctx.db.get(args.id);
+    if (!claim) {
+      throw new Error("Claim not found");
+    }
+    if (claim.status === "revoked") {
+      return;
+    }
+    await withAudit(ctx, "claims:revokeClaim", "claims", args.id, () =>
+      ctx.db.patch(args.id, {
+        status: "revoked",
+        tokenHash: undefined,
+        revokedAt: new Date().toISOString(),
+        revokedBy: ctx.user.clerkId,
+      }),
+    );
+    const business = await ctx.db.get(claim.businessId);
+    if (business?.ownerId === claim.userId) {
+      await withAudit(ctx, "claims:revokeClaim", "businesses", business._id, () =>
+        ctx.db.patch(business._id, { ownerId: undefined }),
+      );
+      await demoteIfNoLongerOwner(ctx, claim.userId);
+    }
+  },
+});
+
+async function demoteIfNoLongerOwner(ctx: MutationCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  if (user?.role !== "owner") {
+    return;
+  }
+  const owned = await ctx.db
+    .query("businesses")
+    .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+    .first();
+  if (!owned) {
+    await withAudit(ctx, "claims:revokeClaim", "users", userId, () =>
+      ctx.db.patch(userId, { role: "member" }),
+    );
+  }
+}
+
+export const getMyBusinesses = memberQuery({
+  args: {},
+  handler: async (ctx) => {
+    const businesses = await ctx.db
+      .query("businesses")
+      .withIndex("by_owner", (q) => q.eq("ownerId", ctx.user._id))
+      .collect();
+    return await Promise.all(businesses.map((business) => withImageUrl(ctx, business)));
+  },
+});
+
+/**
+ * The owner-scoped counterpart of `business:updateBusiness`: owners can
+ * edit the public details of listings they have claimed.
+ */
+export const updateOwnedBusiness = memberMutation({
+  args: {
+    id: v.id("businesses"),
+    business: v.object({
+      name: v.optional(v.string()),
+      description: v.optional(v.string()),
+      email: v.optional(v.string()),
+      phone: v.optional(v.string()),
+      website: v.optional(v.string()),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db.get(args.id);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    if (business.ownerId !== ctx.user._id) {
+      throw new Error("You can only edit businesses you own");
+    }
+    if (args.business.name !== undefined && !args.business.name.trim()) {
+      throw new Error("Business name is required");
+    }
+    await withAudit(ctx, "claims:updateOwnedBusiness", "businesses", args.id, () =>
+      patchBusiness(ctx, args.id, args.business),
+    );
+    return (await ctx.db.get(args.id))?.slug ?? null;
+  },
+});
@@ -0,0 +1,27 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.daily(
+  "cleanup orphaned uploads",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.images.cleanupOrphanedUploads,
+  {},
+);
+
+crons.daily(
+  "prune rate limit buckets",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.rateLimits.pruneRateLimits,
+  {},
+);
+
+crons.daily(
+  "prune used form nonces",
+  { hourUTC: 3, minuteUTC: 45 },
+  internal.botRejections.pruneFormNonces,
+  {},
+);
+
+export default crons;
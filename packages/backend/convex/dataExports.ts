@@ -0,0 +1,91 @@
+import { v } from "convex/values";
+import { paginationOptsValidator, type PaginationResult } from "convex/server";
+import { filter } from "convex-helpers/server/filter";
+import { submissionStatus, waitlistStatus } from "./schema";
+import { adminQuery } from "./lib/auth";
+import {
+  businessFilters,
+  matchesBusinessFilters,
+  matchesUserFilters,
+  pickColumns,
+  userFilters,
+  type ExportTable,
+} from "./lib/exports";
+
+// Exports are read a page at a time by the admin pages, which ask for the
+// next page until `isDone`, so no single query runs into Convex's read limits.
+// Filters match the ones on the corresponding admin table.
+
+function exportPage<T extends Record<string, unknown>>(
+  table: ExportTable,
+  result: PaginationResult<T>,
+  columns: string[],
+) {
+  return {
+    ...result,
+    page: result.page.map((doc) => pickColumns(table, doc, columns)),
+  };
+}
+
+const exportArgs = {
+  columns: v.array(v.string()),
+  paginationOpts: paginationOptsValidator,
+};
+
+export const exportBusinesses = adminQuery({
+  args: {
+    ...exportArgs,
+    ...businessFilters,
+  },
+  handler: async (ctx, args) => {
+    const result = await filter(ctx.db.query("businesses").withIndex("by_name"), (business) =>
+      matchesBusinessFilters(business, args),
+    ).paginate(args.paginationOpts);
+    return exportPage("businesses", result, args.columns);
+  },
+});
+
+export const exportSubmissions = adminQuery({
+  args: {
+    ...exportArgs,
+    status: v.optional(submissionStatus),
+  },
+  handler: async (ctx, args) => {
+    const { status } = args;
+    const submissions = status
+      ? ctx.db.query("submittedBusinesses").withIndex("by_status", (q) => q.eq("status", status))
+      : ctx.db.query("submittedBusinesses");
+    const result = await submissions.order("desc").paginate(args.paginationOpts);
+    return exportPage("submittedBusinesses", result, args.columns);
+  },
+});
+
+export const exportUsers = adminQuery({
+  args: {
+    ...exportArgs,
+    ...userFilters,
+  },
+  handler: async (ctx, args) => {
+    const result = await filter(ctx.db.query("users").order("desc"), (user) =>
+      matchesUserFilters(user, args),
+    ).paginate(args.paginationOpts);
+    return exportPage("users", result, args.columns);
+  },
+});
+
+export const exportWaitlist = adminQuery({
+  args: {
+    ...exportArgs,
+    status: v.optional(waitlistStatus),
+  },
+  handler: async (ctx, args) => {
+    const { status } = args;
+    const entries = status
+      ? ctx.db
+          .query("waitlist")
+          .withIndex("by_status_and_queueScore", (q) => q.eq("status", status))
+      : ctx.db.query("waitlist").order("desc");
+    const result = await entries.paginate(args.paginationOpts);
+    return exportPage("waitlist", result, args.columns);
+  },
+});
@@ -0,0 +1,55 @@
+import { v } from "convex/values";
+import { memberQuery, moderatorQuery } from "./lib/auth";
+import { findDuplicates } from "./lib/duplicates";
+
+/**
+ * Likely duplicates of a submission among listed businesses and the rest
+ * of the review queue, scored live so moderators see the current picture.
+ */
+export const getSubmissionDuplicates = moderatorQuery({
+  args: {
+    id: v.id("submittedBusinesses"),
+  },
+  handler: async (ctx, args) => {
+    const submission = await ctx.db.get(args.id);
+    if (!submission) {
+      return [];
+    }
+    const address = submission.addressId ? await ctx.db.get(submission.addressId) : null;
+    return await findDuplicates(
+      ctx,
+      {
+        name: submission.name,
+        email: submission.email,
+        phone: submission.phone,
+        website: submission.website,
+        address: submission.address,
+        postcode: address?.Postcode,
+      },
+      { includeSubmissions: true, excludeId: submission._id, minScore: 0.4, limit: 5 },
+    );
+  },
+});
+
+/**
+ * Listed businesses that look like the one being submitted, for the
+ * "Is this your business?" prompt on the submit form. Only confident
+ * matches are returned, and nothing the submitter didn't already type.
+ * Signed-in users only, so the listings can't be probed anonymously.
+ */
+export const findExistingBusinesses = memberQuery({
+  args: {
+    name: v.string(),
+    email: v.optional(v.string()),
+    phone: v.optional(v.string()),
+    website: v.optional(v.string()),
+    address: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (args.name.trim().length < 3) {
+      return [];
+    }
+    const matches = await findDuplicates(ctx, args, { includeSubmissions: false, minScore: 0.6, limit: 3 });
+    return matches.map((match) => ({ name: match.name, slug: match.slug, score: match.score }));
+  },
+});
@@ -0,0 +1,80 @@
+"use node";
+
+import { internalAction, type ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { renderEmail, type EmailTemplate, type OutboxData, type TemplateData } from "./lib/emails";
+import { siteUrl } from "./lib/mail";
+import { getMailTransport } from "./lib/mailTransports";
+import { sign } from "./lib/signing";
+import { generateToken, hashToken } from "./lib/tokens";
+
+// Runs in Node for the file and SMTP transports.
+
+/**
+ * The data to render a queued email with. One-time links get a fresh token
+ * on every attempt, so earlier links stop working; null means there's
+ * nothing to send any more, e.g. the claim is no longer pending.
+ */
+async function templateData(
+  ctx: ActionCtx,
+  email: Doc<"emailOutbox">,
+): Promise<TemplateData[EmailTemplate] | null> {
+  if (email.template === "claimVerification") {
+    const { claimId } = email.data as OutboxData["claimVerification"];
+    const token = generateToken();
+    const details = await ctx.runMutation(internal.claims.setClaimToken, {
+      claimId,
+      tokenHash: await hashToken(token),
+    });
+    return details && { businessName: details.businessName, link: siteUrl(`/claim/verify?token=${token}`) };
+  }
+  if (email.template === "waitlistConfirmation") {
+    const { waitlistId } = email.data as OutboxData["waitlistConfirmation"];
+    const token = generateToken();
+    const details = await ctx.runMutation(internal.waitlist.setConfirmToken, {
+      id: waitlistId,
+      tokenHash: await hashToken(token),
+    });
+    return (
+      details && {
+        confirmLink: siteUrl(`/waitlist/confirm?token=${token}`),
+        unsubscribeLink: siteUrl(`/waitlist/unsubscribe?id=${waitlistId}&signature=${await sign(waitlistId)}`),
+      }
+    );
+  }
+  return email.data as TemplateData[EmailTemplate];
+}
+
+export const send = internalAction({
+  args: {
+    id: v.id("emailOutbox"),
+  },
+  handler: async (ctx, args) => {
+    const email = await ctx.runQuery(internal.emails.loadEmail, { id: args.id });
+    if (!email) {
+      return;
+    }
+    let subject: string | undefined;
+    try {
+      const data = await templateData(ctx, email);
+      if (!data) {
+        await ctx.runMutation(internal.emails.recordAttempt, { id: args.id, result: "skipped" });
+        return;
+      }
+      const message = renderEmail(email.template, data);
+      subject = message.subject;
+      await getMailTransport().send({ to: email.to, ...message });
+    } catch (error) {
+      await ctx.runMutation(internal.emails.recordAttempt, {
+        id: args.id,
+        result: "failed",
+        subject,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    await ctx.runMutation(internal.emails.recordAttempt, { id: args.id, result: "sent", subject });
+  },
+});
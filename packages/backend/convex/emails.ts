@@ -0,0 +1,92 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { emailStatus } from "./schema";
+import { adminMutation, adminQuery } from "./lib/auth";
+import { MAX_EMAIL_ATTEMPTS, emailPreviews, retryDelayMs } from "./lib/emails";
+
+/** The outbox, newest first, optionally with one status. */
+export const listEmails = adminQuery({
+  args: {
+    status: v.optional(emailStatus),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { status } = args;
+    const emails = status
+      ? ctx.db.query("emailOutbox").withIndex("by_status", (q) => q.eq("status", status))
+      : ctx.db.query("emailOutbox");
+    return await emails.order("desc").paginate(args.paginationOpts);
+  },
+});
+
+/** Every template rendered with example data. */
+export const previewEmails = adminQuery({
+  args: {},
+  handler: async () => {
+    return emailPreviews();
+  },
+});
+
+/** Queues a failed email again with a fresh set of attempts. */
+export const retryEmail = adminMutation({
+  args: {
+    id: v.id("emailOutbox"),
+  },
+  handler: async (ctx, args) => {
+    const email = await ctx.db.get(args.id);
+    if (!email) {
+      throw new Error("Email not found");
+    }
+    if (email.status !== "failed") {
+      throw new Error(`Only failed emails can be retried; this one is ${email.status}`);
+    }
+    await ctx.db.patch(args.id, { status: "pending", attempts: 0, nextAttemptAt: undefined });
+    await ctx.scheduler.runAfter(0, internal.emailSender.send, { id: args.id });
+  },
+});
+
+export const loadEmail = internalQuery({
+  args: {
+    id: v.id("emailOutbox"),
+  },
+  handler: async (ctx, args) => {
+    const email = await ctx.db.get(args.id);
+    return email?.status === "pending" ? email : null;
+  },
+});
+
+/**
+ * Records one send attempt. A failure is retried after
+ * `retryDelayMs(attempts)` until MAX_EMAIL_ATTEMPTS have been made.
+ */
+export const recordAttempt = internalMutation({
+  args: {
+    id: v.id("emailOutbox"),
+    result: v.union(v.literal("sent"), v.literal("failed"), v.literal("skipped")),
+    subject: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const email = await ctx.db.get(args.id);
+    if (!email) {
+      return;
+    }
+    const attempts = email.attempts + 1;
+    const now = Date.now();
+    const retry = args.result === "failed" && attempts < MAX_EMAIL_ATTEMPTS;
+    await ctx.db.patch(args.id, {
+      attempts,
+      status: retry ? "pending" : args.result,
+      subject: args.subject ?? email.subject,
+      lastAttemptAt: new Date(now).toISOString(),
+      lastError: args.error,
+      nextAttemptAt: retry ? new Date(now + retryDelayMs(attempts)).toISOString() : undefined,
+      sentAt: args.result === "sent" ? new Date(now).toISOString() : undefined,
+    });
+    if (retry) {
+      await ctx.scheduler.runAfter(retryDelayMs(attempts), internal.emailSender.send, { id: args.id });
+    }
+  },
+});
@@ -0,0 +1,189 @@
+import { httpRouter } from "convex/server";
+import { httpAction, type ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { apiKeyFromRequest, type ApiKeyScope } from "./lib/apiKeys";
+import { toUserFields, verifyClerkWebhook } from "./lib/clerkWebhook";
+import { corsHeaders, errorResponse, jsonResponse, preflightResponse } from "./lib/httpApi";
+import { isInvalidCursorError } from "./lib/publicApi";
+import { isRateLimitedError } from "./lib/rateLimit";
+import { hashToken } from "./lib/tokens";
+
+const http = httpRouter();
+
+http.route({
+  path: "/clerk-users-webhook",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const secret = process.env.CLERK_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error("CLERK_WEBHOOK_SECRET is not set");
+      return new Response("Webhook not configured", { status: 500 });
+    }
+
+    const event = verifyClerkWebhook(await request.text(), request.headers, secret);
+    if (!event) {
+      return new Response("Error occurred", { status: 400 });
+    }
+
+    switch (event.type) {
+      case "user.created":
+      case "user.updated":
+        await ctx.runMutation(internal.user.upsertFromClerk, toUserFields(event.data));
+        break;
+      case "user.deleted":
+        if (event.data.id) {
+          await ctx.runMutation(internal.user.deleteFromClerk, { clerkId: event.data.id });
+        }
+        break;
+      default:
+        console.log("Ignored Clerk webhook event", (event as { type: string }).type);
+    }
+
+    return new Response(null, { status: 200 });
+  }),
+});
+
+// Public read API, versioned so the response shapes in lib/publicApi.ts can
+// change in a future /api/v2 without breaking partners.
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Wraps an API handler so it only runs for a live key with `scope`, and
+ * counts the request towards that key's daily usage.
+ */
+function withApiKey(
+  scope: ApiKeyScope,
+  handler: (ctx: ActionCtx, request: Request) => Promise<Response>,
+) {
+  return httpAction(async (ctx, request) => {
+    const key = apiKeyFromRequest(request);
+    if (!key) {
+      return errorResponse(401, "missing_key", "Send an API key as `Authorization: Bearer <key>`");
+    }
+    const result = await ctx.runQuery(internal.apiKeys.checkApiKey, {
+      secretHash: await hashToken(key),
+      scope,
+    });
+    if (!result.ok) {
+      return result.reason === "missing_scope"
+        ? errorResponse(403, "missing_scope", `This key does not have the ${scope} scope`)
+        : errorResponse(401, "invalid_key", "This API key is not valid or has been revoked");
+    }
+    await ctx.scheduler.runAfter(0, internal.apiKeys.recordApiKeyUsage, {
+      keyId: result.keyId,
+      usedAt: new Date().toISOString(),
+    });
+    return await handler(ctx, request);
+  });
+}
+
+http.route({
+  pathPrefix: "/api/v1/",
+  method: "OPTIONS",
+  handler: httpAction(async () => preflightResponse()),
+});
+
+http.route({
+  path: "/api/v1/businesses",
+  method: "GET",
+  handler: withApiKey("read:businesses", async (ctx, request) => {
+    const params = new URL(request.url).searchParams;
+    const limit = Number(params.get("limit") ?? 20);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return errorResponse(400, "invalid_limit", `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+    }
+    try {
+      const result = await ctx.runQuery(internal.publicApi.listBusinesses, {
+        query: params.get("q") ?? undefined,
+        category: params.get("category") ?? undefined,
+        locality: params.get("locality") ?? undefined,
+        cursor: params.get("cursor"),
+        limit,
+      });
+      return await jsonResponse(request, result);
+    } catch (error) {
+      if (isInvalidCursorError(error)) {
+        return errorResponse(400, "invalid_cursor", "cursor is not valid for this query");
+      }
+      console.error("Could not list businesses", error);
+      return errorResponse(500, "internal_error", "Something went wrong, please try again");
+    }
+  }),
+});
+
+http.route({
+  pathPrefix: "/api/v1/businesses/",
+  method: "GET",
+  handler: withApiKey("read:businesses", async (ctx, request) => {
+    const url = new URL(request.url);
+    const slug = decodeURIComponent(url.pathname.slice("/api/v1/businesses/".length));
+    if (!slug || slug.includes("/")) {
+      return errorResponse(404, "not_found", "No such endpoint");
+    }
+    const result = await ctx.runQuery(internal.publicApi.getBusiness, { slug });
+    if (!result) {
+      return errorResponse(404, "not_found", `No business with slug "${slug}"`);
+    }
+    if (result.redirectTo) {
+      return new Response(null, {
+        status: 301,
+        headers: {
+          ...corsHeaders(),
+          Location: new URL(`/api/v1/businesses/${encodeURIComponent(result.redirectTo)}`, url).toString(),
+        },
+      });
+    }
+    return await jsonResponse(request, { data: result.business });
+  }),
+});
+
+http.route({
+  path: "/api/v1/categories",
+  method: "GET",
+  handler: withApiKey("read:businesses", async (ctx, request) => {
+    return await jsonResponse(request, await ctx.runQuery(internal.publicApi.listCategories, {}));
+  }),
+});
+
+http.route({
+  path: "/api/v1/submissions",
+  method: "POST",
+  handler: withApiKey("write:submissions", async (ctx, request) => {
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, "invalid_json", "The request body must be a JSON object");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return errorResponse(400, "invalid_json", "The request body must be a JSON object");
+    }
+    const text = (field: string) => (typeof body[field] === "string" ? (body[field] as string).trim() : "");
+    const business = {
+      name: text("name"),
+      email: text("email"),
+      description: text("description"),
+      address: text("address") || undefined,
+      phone: text("phone") || undefined,
+      website: text("website") || undefined,
+    };
+    if (!business.name || !business.email || !business.description) {
+      return errorResponse(400, "invalid_submission", "name, email and description are required");
+    }
+    try {
+      await ctx.runMutation(internal.submittedBusinesses.addApiSubmission, { business });
+    } catch (error) {
+      if (isRateLimitedError(error)) {
+        return errorResponse(429, "rate_limited", `Try again in ${error.data.retryAfter} seconds`);
+      }
+      return errorResponse(400, "invalid_submission", error instanceof Error ? error.message : "Invalid submission");
+    }
+    return new Response(JSON.stringify({ data: { status: "pending" } }), {
+      status: 202,
+      headers: { ...corsHeaders(), "Content-Type": "application/json; charset=utf-8" },
+    });
+  }),
+});
+
+export default http;
@@ -0,0 +1,64 @@
+import { internalMutation, mutation, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+
+/**
+ * A short-lived URL the browser can POST a file to. Anyone may upload,
+ * since the public submission form takes an image; files only become
+ * visible once a mutation attaches them and checks their type and size.
+ */
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+async function isReferenced(ctx: QueryCtx, storageId: Id<"_storage">) {
+  const [business, version, category, submission] = await Promise.all([
+    ctx.db
+      .query("businesses")
+      .withIndex("by_imageId", (q) => q.eq("imageId", storageId))
+      .first(),
+    ctx.db
+      .query("businessVersions")
+      .withIndex("by_imageId", (q) => q.eq("snapshot.imageId", storageId))
+      .first(),
+    ctx.db
+      .query("categories")
+      .withIndex("by_imageId", (q) => q.eq("imageId", storageId))
+      .first(),
+    ctx.db
+      .query("submittedBusinesses")
+      .withIndex("by_imageId", (q) => q.eq("imageId", storageId))
+      .first(),
+  ]);
+  return business !== null || version !== null || category !== null || submission !== null;
+}
+
+/**
+ * Deletes uploads older than a day that nothing points at: abandoned forms
+ * and files that failed validation. Scheduled daily in crons.ts.
+ */
+export const cleanupOrphanedUploads = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    const page = await ctx.db.system
+      .query("_storage")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const file of page.page) {
+      if (file._creationTime < cutoff && !(await isReferenced(ctx, file._id))) {
+        await ctx.storage.delete(file._id);
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.images.cleanupOrphanedUploads, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -0,0 +1,20 @@
+import type { MutationCtx } from "../_generated/server";
+import { coordinatesForPostcode } from "./geo";
+import { parseAddress } from "./ukAddress";
+
+/**
+ * Parses a free-text address and stores it as an `addresses` row, placed at
+ * its postcode district's centroid (or its area's) when the postcode is
+ * recognised.
+ */
+export async function createAddress(ctx: MutationCtx, text: string) {
+  const parsed = parseAddress(text);
+  if (!parsed.combinedAddress) {
+    return undefined;
+  }
+  const id = await ctx.db.insert("addresses", {
+    ...parsed,
+    ...coordinatesForPostcode(parsed.Postcode),
+  });
+  return id;
+}
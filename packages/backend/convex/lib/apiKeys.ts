@@ -0,0 +1,48 @@
+import type { Infer } from "convex/values";
+import type { apiKeyScope } from "../schema";
+import { generateToken } from "./tokens";
+
+// API keys look like `ofk_<48 hex characters>`. Only the SHA-256 hash is
+// stored (see lib/tokens.ts), so a key can be shown once and never again;
+// the first few characters are kept in the clear to tell keys apart.
+
+export type ApiKeyScope = Infer<typeof apiKeyScope>;
+
+export const API_KEY_SCOPES = [
+  "read:businesses",
+  "write:submissions",
+] as const satisfies readonly ApiKeyScope[];
+
+const KEY_PREFIX = "ofk_";
+
+export function generateApiKey() {
+  const secret = `${KEY_PREFIX}${generateToken(24)}`;
+  return { secret, prefix: secret.slice(0, KEY_PREFIX.length + 6) };
+}
+
+/** The key sent as `Authorization: Bearer <key>` or `X-Api-Key: <key>`. */
+export function apiKeyFromRequest(request: Request) {
+  const authorization = request.headers.get("Authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const key = bearer ?? request.headers.get("X-Api-Key")?.trim();
+  return key?.startsWith(KEY_PREFIX) ? key : null;
+}
+
+// Each request adds to one of this many usage rows per key and day, picked
+// at random, and readers add them up.
+export const API_USAGE_SHARDS = 8;
+
+// `lastUsedAt` is only rewritten once it is this stale.
+export const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** The UTC day usage is counted against, as `YYYY-MM-DD`. */
+export function usageDay(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The last `days` UTC days, oldest first, ending today. */
+export function recentUsageDays(days: number, now = new Date()) {
+  return Array.from({ length: days }, (_, index) =>
+    usageDay(new Date(now.getTime() - (days - 1 - index) * 24 * 60 * 60 * 1000)),
+  );
+}
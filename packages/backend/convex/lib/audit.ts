@@ -0,0 +1,111 @@
+import type { Infer } from "convex/values";
+import type { Id, TableNames } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import type { auditChange } from "../schema";
+
+export type AuditChange = Infer<typeof auditChange>;
+
+// Derived or bookkeeping fields that would only add noise to a diff.
+const IGNORED_FIELDS = new Set(["updatedAt", "searchText"]);
+
+// Secrets, and hashes of one-time tokens, whose values must not end up in
+// the log. A change to one is still recorded, without the values.
+const REDACTED_FIELDS = new Set(["secret", "secretHash", "tokenHash", "confirmTokenHash"]);
+const REDACTED = "[redacted]";
+
+/** `change` with the values of secret fields replaced. */
+export function redactChange(change: AuditChange): AuditChange {
+  if (!REDACTED_FIELDS.has(change.field)) {
+    return change;
+  }
+  const redacted: AuditChange = { field: change.field };
+  if (change.before !== undefined) {
+    redacted.before = REDACTED;
+  }
+  if (change.after !== undefined) {
+    redacted.after = REDACTED;
+  }
+  return redacted;
+}
+
+/**
+ * Field-level differences between two versions of a document. A null
+ * `before` or `after` records a create or delete, so every field shows up.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (field.startsWith("_") || IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      const change: AuditChange = { field };
+      if (from !== undefined) {
+        change.before = from;
+      }
+      if (to !== undefined) {
+        change.after = to;
+      }
+      changes.push(redactChange(change));
+    }
+  }
+  return changes;
+}
+
+type Audited = { _id: string } & Record<string, unknown>;
+
+/**
+ * Writes an `auditLog` entry for a change to one document. The actor is the
+ * signed-in Clerk identity; internal and anonymous calls have none. Updates
+ * that change nothing are not recorded.
+ */
+export async function recordAudit(
+  ctx: MutationCtx,
+  action: string,
+  table: TableNames,
+  before: Audited | null,
+  after: Audited | null,
+) {
+  const target = after ?? before;
+  if (!target) {
+    return;
+  }
+  const changes = diffFields(before, after);
+  if (before && after && changes.length === 0) {
+    return;
+  }
+  const identity = await ctx.auth.getUserIdentity();
+  await ctx.db.insert("auditLog", {
+    actorId: identity?.subject,
+    actorName: identity?.name ?? undefined,
+    action,
+    table,
+    targetId: target._id,
+    changes,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Runs `change` and records how it altered the document `id`. Actions are
+ * named after the mutation that made the change, e.g. `business:updateBusiness`.
+ */
+export async function withAudit<T>(
+  ctx: MutationCtx,
+  action: string,
+  table: TableNames,
+  id: Id<TableNames>,
+  change: () => Promise<T>,
+) {
+  const before = (await ctx.db.get(id)) as Audited | null;
+  const result = await change();
+  const after = (await ctx.db.get(id)) as Audited | null;
+  await recordAudit(ctx, action, table, before, after);
+  return result;
+}
@@ -0,0 +1,60 @@
+import {
+  customCtx,
+  customMutation,
+  customQuery,
+} from "convex-helpers/server/customFunctions";
+import { mutation, query, type QueryCtx } from "../_generated/server";
+import { hasRole, type Role } from "./roles";
+
+/**
+ * Resolves the signed-in Clerk identity to its `users` row, or null when the
+ * caller is anonymous or has not been synced yet.
+ */
+export async function getCurrentUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (identity === null) {
+    return null;
+  }
+  return await ctx.db
+    .query("users")
+    .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
+    .unique();
+}
+
+export async function requireUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (identity === null) {
+    throw new Error("Not authenticated");
+  }
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  if (user.status === "banned") {
+    throw new Error("This account has been banned");
+  }
+  return user;
+}
+
+export async function requireRole(ctx: QueryCtx, role: Role) {
+  const user = await requireUser(ctx);
+  if (!hasRole(user, role)) {
+    throw new Error("Not authorized");
+  }
+  return user;
+}
+
+function withRole(role: Role) {
+  return customCtx(async (ctx: QueryCtx) => ({
+    user: await requireRole(ctx, role),
+  }));
+}
+
+export const memberQuery = customQuery(query, withRole("member"));
+export const memberMutation = customMutation(mutation, withRole("member"));
+
+export const moderatorQuery = customQuery(query, withRole("moderator"));
+export const moderatorMutation = customMutation(mutation, withRole("moderator"));
+
+export const adminQuery = customQuery(query, withRole("admin"));
+export const adminMutation = customMutation(mutation, withRole("admin"));
@@ -0,0 +1,84 @@
+import { v, type Infer } from "convex/values";
+import type { MutationCtx } from "../_generated/server";
+import { verifySolution } from "./proofOfWork";
+import { verifySignature } from "./signing";
+
+// The bot check on public forms. When a form renders, the web app hands it
+// a token signed with the shared `SIGNING_SECRET`:
+// "<issued at, ms>.<nonce>.<proof-of-work difficulty>.<signature>". The
+// form posts it back with its fields, which proves the post came from our
+// page and lets us enforce how long a person takes to fill it in. Each
+// nonce is only accepted once, so a token can't be replayed.
+
+// People don't fill in a form within a couple of seconds; scripts do.
+const MIN_FILL_MS = 3_000;
+export const FORM_TOKEN_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+/** What a public form posts along with its fields. */
+export const botCheck = v.object({
+  token: v.string(),
+  solution: v.optional(v.string()),
+  honeypot: v.optional(v.string()),
+  // Passed on by the web server, for the rejection log.
+  userAgent: v.optional(v.string()),
+});
+
+export type BotCheck = Infer<typeof botCheck>;
+
+async function rejectionReason(ctx: MutationCtx, check: BotCheck) {
+  if (!check.token) {
+    return "missing-token";
+  }
+  if (check.honeypot) {
+    return "honeypot";
+  }
+  const parts = check.token.split(".");
+  if (parts.length !== 4) {
+    return "bad-token";
+  }
+  const [issuedAt, nonce, difficulty] = parts;
+  const challenge = parts.slice(0, 3).join(".");
+  if (!(await verifySignature(challenge, parts[3]))) {
+    return "bad-token";
+  }
+  const age = Date.now() - Number(issuedAt);
+  if (age < MIN_FILL_MS) {
+    return "too-fast";
+  }
+  if (age > FORM_TOKEN_MAX_AGE_MS) {
+    return "expired";
+  }
+  if (Number(difficulty) > 0 && !(await verifySolution(challenge, check.solution ?? "", Number(difficulty)))) {
+    return "proof-of-work";
+  }
+  const used = await ctx.db
+    .query("formNonces")
+    .withIndex("by_nonce", (q) => q.eq("nonce", nonce))
+    .unique();
+  if (used) {
+    return "replayed";
+  }
+  await ctx.db.insert("formNonces", { nonce, expiresAt: Number(issuedAt) + FORM_TOKEN_MAX_AGE_MS });
+  return null;
+}
+
+/**
+ * Checks a public form post and uses up its token. A rejected post is
+ * logged for admins and its reason returned; callers should return rather
+ * than throw on it, or the log entry is rolled back with everything else.
+ * Answer honeypot hits as if they succeeded, so bots don't learn what gave
+ * them away.
+ */
+export async function checkBot(ctx: MutationCtx, form: string, check: BotCheck, ip: string | undefined) {
+  const reason = await rejectionReason(ctx, check);
+  if (reason) {
+    await ctx.db.insert("botRejections", {
+      form,
+      reason,
+      ip,
+      userAgent: check.userAgent,
+      createdAt: new Date().toISOString(),
+    });
+  }
+  return reason;
+}
@@ -0,0 +1,88 @@
+import type { Infer } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import type { businessSnapshot } from "../schema";
+import { emitBusinessEvent } from "./webhooks";
+
+export type BusinessSnapshot = Infer<typeof businessSnapshot>;
+
+export const SNAPSHOT_FIELDS = [
+  "name",
+  "slug",
+  "description",
+  "email",
+  "phone",
+  "website",
+  "address",
+  "openingTime",
+  "closingTime",
+  "openingHours",
+  "imageId",
+] as const satisfies readonly (keyof BusinessSnapshot)[];
+
+export function snapshotOf(business: Doc<"businesses">): BusinessSnapshot {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    if (business[field] !== undefined) {
+      snapshot[field] = business[field];
+    }
+  }
+  return snapshot as BusinessSnapshot;
+}
+
+function sameSnapshot(a: BusinessSnapshot, b: BusinessSnapshot) {
+  return SNAPSHOT_FIELDS.every((field) => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+}
+
+/**
+ * Stores `business` as its next version unless it matches the latest one.
+ * Edits record the state both before and after they run, so a business
+ * edited for the first time, or changed by code that skips this, keeps its
+ * earlier state in the timeline too.
+ */
+export async function recordVersion(
+  ctx: MutationCtx,
+  business: Doc<"businesses">,
+  restoredFrom?: number,
+) {
+  const snapshot = snapshotOf(business);
+  const latest = await ctx.db
+    .query("businessVersions")
+    .withIndex("by_business_and_version", (q) => q.eq("businessId", business._id))
+    .order("desc")
+    .first();
+  if (latest && sameSnapshot(latest.snapshot, snapshot)) {
+    return latest.version;
+  }
+  const identity = await ctx.auth.getUserIdentity();
+  const version = (latest?.version ?? 0) + 1;
+  await ctx.db.insert("businessVersions", {
+    businessId: business._id,
+    version,
+    snapshot,
+    actorId: identity?.subject,
+    actorName: identity?.name ?? undefined,
+    createdAt: new Date().toISOString(),
+    restoredFrom,
+  });
+  return version;
+}
+
+/**
+ * Runs `change` with a version recorded on either side of it, and sends
+ * `business.updated` webhooks if it made a new one.
+ */
+export async function withVersion<T>(
+  ctx: MutationCtx,
+  id: Id<"businesses">,
+  change: () => Promise<T>,
+) {
+  const before = await ctx.db.get(id);
+  const previousVersion = before ? await recordVersion(ctx, before) : undefined;
+  const result = await change();
+  const after = await ctx.db.get(id);
+  if (after && (await recordVersion(ctx, after)) !== previousVersion) {
+    await emitBusinessEvent(ctx, "business.updated", id);
+  }
+  return result;
+}
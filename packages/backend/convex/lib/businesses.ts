@@ -0,0 +1,106 @@
+import type { WithoutSystemFields } from "convex/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { recordVersion } from "./businessVersions";
+import { hasRole } from "./roles";
+import { searchFieldsFor } from "./search";
+import { generateUniqueSlug, slugify } from "./slug";
+import { emitBusinessEvent } from "./webhooks";
+
+export type BusinessFields = Omit<
+  WithoutSystemFields<Doc<"businesses">>,
+  "slug" | "createdAt" | "updatedAt" | "searchText" | "primaryCategoryId"
+>;
+
+/**
+ * Inserts a business with a freshly generated slug. All code paths that
+ * create listings should go through here so slugs stay unique.
+ */
+export async function createBusiness(ctx: MutationCtx, fields: BusinessFields) {
+  const now = new Date().toISOString();
+  const slug = await generateUniqueSlug(ctx, fields.name);
+  const id = await ctx.db.insert("businesses", {
+    ...fields,
+    ...(await searchFieldsFor(ctx, fields)),
+    slug,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await recordVersion(ctx, (await ctx.db.get(id))!);
+  await emitBusinessEvent(ctx, "business.created", id);
+  return id;
+}
+
+/** Admins can manage any business; owners only the ones they have claimed. */
+export function canManageBusiness(user: Doc<"users">, business: Doc<"businesses">) {
+  return hasRole(user, "admin") || business.ownerId === user._id;
+}
+
+/**
+ * Applies `patch` to a business. If the name or slug changes, a new unique
+ * slug is generated and the old one is kept in `slugHistory` so existing
+ * links keep resolving. The result is recorded in `businessVersions`;
+ * `restoredFrom` marks a patch that rolls back to that version. Webhook
+ * subscribers hear about it when that produced a new version.
+ */
+export async function patchBusiness(
+  ctx: MutationCtx,
+  id: Id<"businesses">,
+  patch: Partial<BusinessFields> & { slug?: string },
+  restoredFrom?: number,
+) {
+  const business = await ctx.db.get(id);
+  if (!business) {
+    throw new Error("Business not found");
+  }
+  const previousVersion = await recordVersion(ctx, business);
+
+  const { slug: requestedSlug, ...fields } = patch;
+  const slugSource =
+    requestedSlug ?? (fields.name !== undefined && fields.name !== business.name ? fields.name : undefined);
+  let slug = business.slug;
+  if (slugSource !== undefined && slugify(slugSource) !== business.slug) {
+    slug = await generateUniqueSlug(ctx, slugSource, id);
+    if (slug !== business.slug) {
+      await moveSlug(ctx, id, business.slug, slug);
+    }
+  } else if (!business.slug) {
+    slug = await generateUniqueSlug(ctx, fields.name ?? business.name, id);
+  }
+
+  await ctx.db.patch(id, {
+    ...fields,
+    ...(await searchFieldsFor(ctx, { ...business, ...fields })),
+    slug,
+    updatedAt: new Date().toISOString(),
+  });
+  const version = await recordVersion(ctx, (await ctx.db.get(id))!, restoredFrom);
+  if (version !== previousVersion) {
+    await emitBusinessEvent(ctx, "business.updated", id);
+  }
+}
+
+async function moveSlug(
+  ctx: MutationCtx,
+  businessId: Id<"businesses">,
+  from: string | undefined,
+  to: string,
+) {
+  const history = await ctx.db
+    .query("slugHistory")
+    .withIndex("by_business", (q) => q.eq("businessId", businessId))
+    .collect();
+  // Moving back to a slug the business used before reclaims it.
+  for (const entry of history) {
+    if (entry.slug === to) {
+      await ctx.db.delete(entry._id);
+    }
+  }
+  if (from && !history.some((entry) => entry.slug === from)) {
+    await ctx.db.insert("slugHistory", {
+      businessId,
+      slug: from,
+      createdAt: new Date().toISOString(),
+    });
+  }
+}
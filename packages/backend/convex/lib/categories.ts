@@ -0,0 +1,60 @@
+import type { Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import { slugify } from "./slug";
+
+/**
+ * Returns a slug for `base` that no other category is using, appending
+ * `-2`, `-3`, ... until a free one is found.
+ */
+export async function generateUniqueCategorySlug(
+  ctx: QueryCtx,
+  base: string,
+  exceptId?: Id<"categories">,
+) {
+  const root = slugify(base) || "category";
+  let candidate = root;
+  for (let suffix = 2; ; suffix++) {
+    const taken = await ctx.db
+      .query("categories")
+      .withIndex("by_slug", (q) => q.eq("slug", candidate))
+      .first();
+    if (!taken || taken._id === exceptId) {
+      return candidate;
+    }
+    candidate = `${root}-${suffix}`;
+  }
+}
+
+/**
+ * Replaces a business's categories with `categoryIds`. The first one becomes
+ * its primary category, which is what search results can be filtered by.
+ */
+export async function setBusinessCategories(
+  ctx: MutationCtx,
+  businessId: Id<"businesses">,
+  categoryIds: Id<"categories">[],
+) {
+  const wanted = new Set(categoryIds);
+  const existing = await ctx.db
+    .query("businessCategories")
+    .withIndex("by_business", (q) => q.eq("businessId", businessId))
+    .collect();
+  for (const link of existing) {
+    if (!wanted.has(link.categoryId)) {
+      await ctx.db.delete(link._id);
+    }
+    wanted.delete(link.categoryId);
+  }
+  for (const categoryId of wanted) {
+    await ctx.db.insert("businessCategories", { businessId, categoryId });
+  }
+  await ctx.db.patch(businessId, { primaryCategoryId: categoryIds[0] });
+}
+
+export async function getBusinessCategoryIds(ctx: QueryCtx, businessId: Id<"businesses">) {
+  const links = await ctx.db
+    .query("businessCategories")
+    .withIndex("by_business", (q) => q.eq("businessId", businessId))
+    .collect();
+  return links.map((link) => link.categoryId);
+}
@@ -0,0 +1,53 @@
+import { Webhook } from "svix";
+
+// The subset of Clerk's `UserJSON` payload that we store.
+export type ClerkUser = {
+  id: string;
+  username?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  banned?: boolean;
+  updated_at?: number;
+};
+
+export type ClerkWebhookEvent =
+  | { type: "user.created" | "user.updated"; data: ClerkUser }
+  | { type: "user.deleted"; data: { id?: string; deleted?: boolean } };
+
+/**
+ * Checks the Svix signature headers Clerk sends with every webhook and
+ * returns the parsed event, or null if the signature does not match
+ * `secret`. Payloads signed locally with `new Webhook(secret).sign(...)`
+ * verify the same way, so fixtures can be posted without Clerk.
+ */
+export function verifyClerkWebhook(
+  payload: string,
+  headers: Headers,
+  secret: string,
+): ClerkWebhookEvent | null {
+  const svixHeaders = {
+    "svix-id": headers.get("svix-id") ?? "",
+    "svix-timestamp": headers.get("svix-timestamp") ?? "",
+    "svix-signature": headers.get("svix-signature") ?? "",
+  };
+  try {
+    new Webhook(secret).verify(payload, svixHeaders);
+  } catch (error) {
+    console.error("Clerk webhook verification failed", error);
+    return null;
+  }
+  return JSON.parse(payload) as ClerkWebhookEvent;
+}
+
+export function toUserFields(user: ClerkUser) {
+  const fullname = [user.first_name, user.last_name]
+    .filter((part): part is string => Boolean(part))
+    .join(" ");
+  return {
+    clerkId: user.id,
+    username: user.username ?? undefined,
+    fullname: fullname || undefined,
+    status: user.banned ? "banned" : "active",
+    clerkUpdatedAt: user.updated_at,
+  };
+}
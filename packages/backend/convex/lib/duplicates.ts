@@ -0,0 +1,259 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import { findPostcode, outwardCode } from "./ukAddress";
+
+// Scores how likely a new business is one we already have, either listed or
+// waiting in the review queue. No single field is proof: names get
+// abbreviated, phones change and chains share websites, so each signal adds
+// to a score between 0 and 1 and the reasons are kept for moderators.
+
+export type DuplicateFields = {
+  name: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  // Free text; only its postcode is compared.
+  address?: string;
+  postcode?: string;
+};
+
+export type DuplicateMatch = {
+  kind: "business" | "submission";
+  id: Id<"businesses"> | Id<"submittedBusinesses">;
+  name: string;
+  slug?: string;
+  score: number;
+  reasons: string[];
+};
+
+// Words that say nothing about which business it is.
+const NAME_NOISE = new Set(["the", "and", "ltd", "limited", "llp", "plc", "co", "company", "uk"]);
+
+// Shared mailbox providers; two businesses on gmail.com are not related.
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "outlook.com",
+  "live.com",
+  "live.co.uk",
+  "yahoo.com",
+  "yahoo.co.uk",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "btinternet.com",
+  "sky.com",
+  "protonmail.com",
+]);
+
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && !NAME_NOISE.has(word))
+    .join(" ");
+}
+
+function bigrams(value: string) {
+  const compact = value.replace(/ /g, "");
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+}
+
+/** Dice similarity of the normalised names' letter pairs, from 0 to 1. */
+export function nameSimilarity(a: string, b: string) {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of leftPairs) {
+    shared += Math.min(count, rightPairs.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of rightPairs.values()) {
+    total += count;
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/** The national number, so "+44 113 496 0000" and "0113 4960000" match. */
+export function phoneDigits(phone: string | undefined) {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  const national = digits.startsWith("44") ? `0${digits.slice(2)}` : digits;
+  return national.length >= 9 ? national : undefined;
+}
+
+export function emailDomain(email: string | undefined) {
+  const domain = email?.trim().toLowerCase().split("@")[1];
+  return domain || undefined;
+}
+
+export function websiteHost(website: string | undefined) {
+  const value = website?.trim();
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    return url.hostname.toLowerCase().replace(/^www\./, "") || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function postcodeOf(fields: DuplicateFields) {
+  return fields.postcode ?? (fields.address ? findPostcode(fields.address) : undefined);
+}
+
+/** How alike two businesses are, from 0 to 1, and why. */
+export function scoreDuplicate(a: DuplicateFields, b: DuplicateFields) {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= 0.5) {
+    score += 0.5 * similarity;
+    reasons.push(similarity === 1 ? "Same name" : `Name ${Math.round(similarity * 100)}% similar`);
+  }
+
+  const phone = phoneDigits(a.phone);
+  if (phone && phone === phoneDigits(b.phone)) {
+    score += 0.3;
+    reasons.push("Same phone number");
+  }
+
+  const host = websiteHost(a.website);
+  if (host && host === websiteHost(b.website)) {
+    score += 0.3;
+    reasons.push("Same website");
+  }
+
+  const domain = emailDomain(a.email);
+  if (a.email && a.email.trim().toLowerCase() === b.email?.trim().toLowerCase()) {
+    score += 0.25;
+    reasons.push("Same email address");
+  } else if (domain && !FREE_MAIL_DOMAINS.has(domain) && domain === emailDomain(b.email)) {
+    score += 0.15;
+    reasons.push("Same email domain");
+  }
+
+  const postcode = postcodeOf(a);
+  const otherPostcode = postcodeOf(b);
+  if (postcode && postcode === otherPostcode) {
+    score += 0.2;
+    reasons.push("Same postcode");
+  } else if (postcode && otherPostcode && outwardCode(postcode) === outwardCode(otherPostcode)) {
+    score += 0.05;
+    reasons.push("Same postcode area");
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+async function fieldsOf(
+  ctx: QueryCtx,
+  row: Doc<"businesses"> | Doc<"submittedBusinesses">,
+): Promise<DuplicateFields> {
+  const addressId = row.addressId ? ctx.db.normalizeId("addresses", row.addressId) : null;
+  const address = addressId ? await ctx.db.get(addressId) : null;
+  return {
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    website: row.website,
+    address: row.address,
+    postcode: address?.Postcode,
+  };
+}
+
+type FindOptions = {
+  // Also look through submissions still waiting for review.
+  includeSubmissions: boolean;
+  // The submission being checked, so it doesn't match itself.
+  excludeId?: Id<"submittedBusinesses">;
+  minScore: number;
+  limit: number;
+};
+
+/**
+ * Likely duplicates of `fields`, best first. Listed businesses are found by
+ * name through the search index and by postcode, so a renamed business at
+ * the same address still turns up; pending submissions are few enough to
+ * compare one by one.
+ */
+export async function findDuplicates(ctx: QueryCtx, fields: DuplicateFields, options: FindOptions) {
+  const businesses = new Map<Id<"businesses">, Doc<"businesses">>();
+  if (normalizeName(fields.name)) {
+    const named = await ctx.db
+      .query("businesses")
+      .withSearchIndex("search_text", (q) => q.search("searchText", fields.name))
+      .take(20);
+    for (const business of named) {
+      businesses.set(business._id, business);
+    }
+  }
+  const postcode = postcodeOf(fields);
+  if (postcode) {
+    const addresses = await ctx.db
+      .query("addresses")
+      .withIndex("by_postcode", (q) => q.eq("Postcode", postcode))
+      .take(20);
+    for (const address of addresses) {
+      const atAddress = await ctx.db
+        .query("businesses")
+        .withIndex("by_addressId", (q) => q.eq("addressId", address._id))
+        .take(5);
+      for (const business of atAddress) {
+        businesses.set(business._id, business);
+      }
+    }
+  }
+
+  const matches: DuplicateMatch[] = [];
+  for (const business of businesses.values()) {
+    const { score, reasons } = scoreDuplicate(fields, await fieldsOf(ctx, business));
+    if (score >= options.minScore) {
+      matches.push({ kind: "business", id: business._id, name: business.name, slug: business.slug, score, reasons });
+    }
+  }
+
+  if (options.includeSubmissions) {
+    for (const status of ["pending", "needs-info"] as const) {
+      const submissions = await ctx.db
+        .query("submittedBusinesses")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .order("desc")
+        .take(200);
+      for (const submission of submissions) {
+        if (submission._id === options.excludeId) {
+          continue;
+        }
+        const { score, reasons } = scoreDuplicate(fields, await fieldsOf(ctx, submission));
+        if (score >= options.minScore) {
+          matches.push({ kind: "submission", id: submission._id, name: submission.name, score, reasons });
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, options.limit);
+}
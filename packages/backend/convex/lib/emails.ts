@@ -0,0 +1,153 @@
+import type { Infer } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { emailTemplate } from "../schema";
+import { assertEmailAddress, siteUrl } from "./mail";
+
+// Transactional email. Mutations queue a template and its data in
+// `emailOutbox`; `emailSender:send` renders it and hands it to the mail
+// transport, retrying with backoff until it goes out or runs out of attempts.
+
+export type EmailTemplate = Infer<typeof emailTemplate>;
+
+/** The data each template is rendered with. */
+export type TemplateData = {
+  submissionReceived: { businessName: string };
+  submissionApproved: { businessName: string; link: string };
+  submissionRejected: { businessName: string; reason: string };
+  claimVerification: { businessName: string; link: string };
+  waitlistConfirmation: { confirmLink: string; unsubscribeLink: string };
+};
+
+/**
+ * What the outbox stores for each template. Emails with one-time links
+ * store the record to issue a token for instead, so the token is only
+ * created when the email is sent and never written down.
+ */
+export type OutboxData = Omit<TemplateData, "claimVerification" | "waitlistConfirmation"> & {
+  claimVerification: { claimId: Id<"claims"> };
+  waitlistConfirmation: { waitlistId: Id<"waitlist"> };
+};
+
+export type RenderedEmail = { subject: string; text: string };
+
+type Template<T extends EmailTemplate> = {
+  description: string;
+  // Example data for the admin preview.
+  sample: () => TemplateData[T];
+  render: (data: TemplateData[T]) => RenderedEmail;
+};
+
+const templates: { [T in EmailTemplate]: Template<T> } = {
+  submissionReceived: {
+    description: "Sent when a signed-in submitter gives their own verified email address.",
+    sample: () => ({ businessName: "Corner Bakery" }),
+    render: ({ businessName }) => ({
+      subject: `We've received ${businessName}`,
+      text: [
+        `Thanks for submitting ${businessName} to the directory.`,
+        "A moderator will review it shortly, and we'll email you once it's been looked at.",
+      ].join("\n\n"),
+    }),
+  },
+  submissionApproved: {
+    description: "Sent to the submitter when a moderator approves the submission.",
+    sample: () => ({ businessName: "Corner Bakery", link: siteUrl("/businesses/corner-bakery") }),
+    render: ({ businessName, link }) => ({
+      subject: `${businessName} is now listed`,
+      text: [
+        `Good news: ${businessName} is now live in the directory.`,
+        link,
+        "If it's your business, claim the listing from that page to keep its details up to date.",
+      ].join("\n\n"),
+    }),
+  },
+  submissionRejected: {
+    description: "Sent to the submitter when a moderator rejects the submission, with their reason.",
+    sample: () => ({ businessName: "Corner Bakery", reason: "We couldn't verify the address." }),
+    render: ({ businessName, reason }) => ({
+      subject: `About your submission of ${businessName}`,
+      text: [
+        `Thanks for submitting ${businessName}. Unfortunately we weren't able to list it:`,
+        reason,
+        "You're welcome to submit it again once that's been addressed.",
+      ].join("\n\n"),
+    }),
+  },
+  claimVerification: {
+    description: "Sent to a business's own address when someone asks to claim it.",
+    sample: () => ({ businessName: "Corner Bakery", link: siteUrl("/claim/verify?token=example") }),
+    render: ({ businessName, link }) => ({
+      subject: `Confirm you own ${businessName}`,
+      text: [
+        `Someone asked to manage the listing for ${businessName}.`,
+        "If that was you, confirm within 48 hours by opening this link while signed in:",
+        link,
+        "If you didn't ask for this, you can ignore this email.",
+      ].join("\n\n"),
+    }),
+  },
+  waitlistConfirmation: {
+    description: "Sent when someone joins the waitlist, to confirm their address.",
+    sample: () => ({
+      confirmLink: siteUrl("/waitlist/confirm?token=example"),
+      unsubscribeLink: siteUrl("/waitlist/unsubscribe?id=example&signature=example"),
+    }),
+    render: ({ confirmLink, unsubscribeLink }) => ({
+      subject: "Confirm your place on the waitlist",
+      text: [
+        "Thanks for joining the waitlist. Confirm your email address to claim your place:",
+        confirmLink,
+        `If you didn't sign up, ignore this email or unsubscribe: ${unsubscribeLink}`,
+      ].join("\n\n"),
+    }),
+  },
+};
+
+export function renderEmail<T extends EmailTemplate>(template: T, data: TemplateData[T]) {
+  return templates[template].render(data);
+}
+
+/** Every template rendered with its sample data. */
+export function emailPreviews() {
+  return (Object.keys(templates) as EmailTemplate[]).map(preview);
+}
+
+function preview<T extends EmailTemplate>(template: T) {
+  const { description, sample, render } = templates[template];
+  return { template, description, ...render(sample()) };
+}
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+const FIRST_RETRY_MS = 60 * 1000;
+
+/** How long to wait after `attempts` failed tries: 1m, 4m, 16m, ~1h. */
+export function retryDelayMs(attempts: number) {
+  return FIRST_RETRY_MS * 4 ** (attempts - 1);
+}
+
+/**
+ * Adds an email to the outbox and schedules its first send. Throws if `to`
+ * isn't a plain email address.
+ */
+export async function queueEmail<T extends EmailTemplate>(
+  ctx: MutationCtx,
+  template: T,
+  to: string,
+  data: OutboxData[T],
+) {
+  const address = to.trim();
+  assertEmailAddress(address);
+  const id = await ctx.db.insert("emailOutbox", {
+    to: address,
+    template,
+    data,
+    status: "pending",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  });
+  await ctx.scheduler.runAfter(0, internal.emailSender.send, { id });
+  return id;
+}
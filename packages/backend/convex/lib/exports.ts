@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { roleOf } from "./roles";
+
+// Columns admins can export from each table. Kept free of server imports so
+// the web export picker offers the same list; anything not named here, such
+// as token hashes or search fields, never leaves the backend.
+
+export const EXPORT_COLUMNS = {
+  businesses: [
+    "_id",
+    "name",
+    "slug",
+    "description",
+    "email",
+    "phone",
+    "website",
+    "address",
+    "locality",
+    "openingHours",
+    "rating",
+    "reviewCount",
+    "ownerId",
+    "createdAt",
+    "updatedAt",
+  ],
+  submittedBusinesses: [
+    "_id",
+    "name",
+    "description",
+    "email",
+    "phone",
+    "website",
+    "address",
+    "openingHours",
+    "status",
+    "submittedAt",
+    "reviewedBy",
+    "reviewedAt",
+    "reviewReason",
+    "businessId",
+  ],
+  users: ["_id", "clerkId", "username", "fullname", "role", "status", "_creationTime"],
+  waitlist: [
+    "_id",
+    "email",
+    "name",
+    "phone",
+    "status",
+    "joinedAt",
+    "confirmedAt",
+    "unsubscribedAt",
+    "referralCode",
+    "referralCount",
+  ],
+} as const;
+
+export type ExportTable = keyof typeof EXPORT_COLUMNS;
+
+export type ExportRow = Record<string, unknown>;
+
+/** `doc` cut down to `columns`, in that order; unknown columns are an error. */
+export function pickColumns(table: ExportTable, doc: Record<string, unknown>, columns: string[]): ExportRow {
+  const allowed: readonly string[] = EXPORT_COLUMNS[table];
+  const row: ExportRow = {};
+  for (const column of columns) {
+    if (!allowed.includes(column)) {
+      throw new Error(`Cannot export ${table}.${column}`);
+    }
+    row[column] = doc[column];
+  }
+  return row;
+}
+
+// Filters on the businesses and users admin tables. The table queries and
+// the exports both apply these, so an export holds the rows the table shows.
+
+export const businessFilters = {
+  // Whether the business has a verified owner.
+  claimed: v.optional(v.boolean()),
+};
+
+export const userFilters = {
+  role: v.optional(v.string()),
+  status: v.optional(v.string()),
+};
+
+export type BusinessFilters = { claimed?: boolean };
+
+export type UserFilters = { role?: string; status?: string };
+
+export function matchesBusinessFilters(business: { ownerId?: string }, filters: BusinessFilters) {
+  return filters.claimed === undefined || (business.ownerId !== undefined) === filters.claimed;
+}
+
+export function matchesUserFilters(user: { role?: string; status?: string }, filters: UserFilters) {
+  return (
+    (!filters.role || roleOf(user) === filters.role) &&
+    (!filters.status || (user.status ?? "active") === filters.status)
+  );
+}
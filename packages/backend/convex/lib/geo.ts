@@ -0,0 +1,90 @@
+import type { Infer } from "convex/values";
+import type { coordinatePrecision } from "../schema";
+import { POSTCODE_AREA_CENTROIDS } from "./postcodeAreas";
+import { POSTCODE_DISTRICT_CENTROIDS } from "./postcodeDistricts";
+import { outwardCode } from "./ukAddress";
+
+export type CoordinatePrecision = Infer<typeof coordinatePrecision>;
+
+// Addresses are bucketed into a grid of 0.1° cells (roughly 11km north-south
+// by 7km east-west in the UK) so nearby lookups only read a few index ranges.
+const CELLS_PER_DEGREE = 10;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+const EARTH_RADIUS_KM = 6371;
+
+export const MAX_RADIUS_KM = 50;
+
+export function gridCell(latitude: number, longitude: number) {
+  return `${Math.floor(latitude * CELLS_PER_DEGREE)}:${Math.floor(longitude * CELLS_PER_DEGREE)}`;
+}
+
+/** Every grid cell that overlaps the bounding box of the circle. */
+export function cellsWithin(latitude: number, longitude: number, radiusKm: number) {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos((latitude * Math.PI) / 180));
+  const cells: string[] = [];
+  const minLat = Math.floor((latitude - latDelta) * CELLS_PER_DEGREE);
+  const maxLat = Math.floor((latitude + latDelta) * CELLS_PER_DEGREE);
+  const minLng = Math.floor((longitude - lngDelta) * CELLS_PER_DEGREE);
+  const maxLng = Math.floor((longitude + lngDelta) * CELLS_PER_DEGREE);
+  for (let lat = minLat; lat <= maxLat; lat++) {
+    for (let lng = minLng; lng <= maxLng; lng++) {
+      cells.push(`${lat}:${lng}`);
+    }
+  }
+  return cells;
+}
+
+export function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/** Coordinate fields for an `addresses` row placed at a point. */
+export function coordinateFields(latitude: number, longitude: number, precision: CoordinatePrecision) {
+  return {
+    latitude,
+    longitude,
+    geoCell: gridCell(latitude, longitude),
+    coordinatePrecision: precision,
+  };
+}
+
+// Sub-districts such as "EC1A" or "W1K" share their district's centroid.
+function districtCentroid(district: string) {
+  return POSTCODE_DISTRICT_CENTROIDS[district] ?? POSTCODE_DISTRICT_CENTROIDS[district.replace(/[A-Z]$/, "")];
+}
+
+/**
+ * Coordinate fields for an `addresses` row from its postcode: its
+ * district's centroid if the bundled table has it, otherwise its area's.
+ */
+export function coordinatesForPostcode(postcode: string | undefined) {
+  const district = postcode ? outwardCode(postcode) : undefined;
+  if (!district) {
+    return {};
+  }
+  const centroid = districtCentroid(district);
+  if (centroid) {
+    return {
+      ...coordinateFields(centroid[0], centroid[1], "district"),
+      coordinateSource: "postcode" as const,
+    };
+  }
+  const area = POSTCODE_AREA_CENTROIDS[district.match(/^[A-Z]+/)?.[0] ?? ""];
+  if (!area) {
+    return {};
+  }
+  return {
+    ...coordinateFields(area[0], area[1], "area"),
+    coordinateSource: "postcode" as const,
+  };
+}
@@ -0,0 +1,193 @@
+// Weekly opening hours. Kept free of server imports so the web and native
+// apps can work out "open now" with the same rules as the backend.
+
+export const DAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type Day = (typeof DAYS)[number];
+
+export const DAY_LABELS: Record<Day, string> = {
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Saturday",
+  sun: "Sunday",
+};
+
+export const DEFAULT_TIMEZONE = "Europe/London";
+
+/**
+ * A span of "HH:MM" local times. A close at or before the open runs past
+ * midnight into the next day, and "00:00"–"00:00" is open all day.
+ */
+export type TimeRange = { open: string; close: string };
+
+/** Replaces the weekly hours on one date; no ranges means closed all day. */
+export type HoursException = { date: string; ranges: TimeRange[]; note?: string };
+
+export type OpeningHours = {
+  timezone: string;
+  weekly: Record<Day, TimeRange[]>;
+  exceptions: HoursException[];
+};
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTime(value: string) {
+  return TIME.test(value);
+}
+
+function minutes(time: string) {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + mins;
+}
+
+function isOvernight(range: TimeRange) {
+  return minutes(range.close) <= minutes(range.open);
+}
+
+export function emptyOpeningHours(timezone = DEFAULT_TIMEZONE): OpeningHours {
+  return {
+    timezone,
+    weekly: { mon: [], tue: [], wed: [], thu: [], fri: [], sat: [], sun: [] },
+    exceptions: [],
+  };
+}
+
+/**
+ * Weekly hours from the old single `openingTime`/`closingTime` pair, which
+ * applied every day. Returns undefined if either is missing or malformed.
+ */
+export function hoursFromLegacy(openingTime: string | undefined, closingTime: string | undefined) {
+  const open = openingTime?.trim().padStart(5, "0");
+  const close = closingTime?.trim().padStart(5, "0");
+  if (!open || !close || !isValidTime(open) || !isValidTime(close)) {
+    return undefined;
+  }
+  const hours = emptyOpeningHours();
+  for (const day of DAYS) {
+    hours.weekly[day] = [{ open, close }];
+  }
+  return hours;
+}
+
+/** Every problem with `hours`, as messages suitable for showing to a user. */
+export function openingHoursErrors(hours: OpeningHours) {
+  const errors: string[] = [];
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: hours.timezone });
+  } catch {
+    errors.push(`Unknown timezone "${hours.timezone}"`);
+  }
+  const checkRanges = (ranges: TimeRange[], label: string) => {
+    for (const range of ranges) {
+      if (!isValidTime(range.open) || !isValidTime(range.close)) {
+        errors.push(`${label}: times must be HH:MM`);
+      }
+    }
+  };
+  for (const day of DAYS) {
+    checkRanges(hours.weekly[day], DAY_LABELS[day]);
+  }
+  const dates = new Set<string>();
+  for (const exception of hours.exceptions) {
+    if (!DATE.test(exception.date) || Number.isNaN(Date.parse(exception.date))) {
+      errors.push(`"${exception.date}" is not a valid date`);
+    } else if (dates.has(exception.date)) {
+      errors.push(`${exception.date} has more than one exception`);
+    }
+    dates.add(exception.date);
+    checkRanges(exception.ranges, exception.date);
+  }
+  return errors;
+}
+
+type LocalTime = { date: string; day: Day; minutes: number };
+
+const weekdays: Record<string, Day> = {
+  Mon: "mon",
+  Tue: "tue",
+  Wed: "wed",
+  Thu: "thu",
+  Fri: "fri",
+  Sat: "sat",
+  Sun: "sun",
+};
+
+/** The wall-clock date, weekday and minute of `date` in `timezone`. */
+function localTime(date: Date, timezone: string): LocalTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: weekdays[parts.weekday],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function previousDate(date: string) {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().slice(0, 10);
+}
+
+/** The ranges that apply on a local date, taking exceptions into account. */
+export function rangesOn(hours: OpeningHours, date: string, day: Day) {
+  const exception = hours.exceptions.find((entry) => entry.date === date);
+  return exception ? exception.ranges : hours.weekly[day];
+}
+
+/**
+ * Whether a business is open at `date`. Businesses with no hours, or only
+ * the legacy opening/closing times that can't be read, are never open.
+ */
+export function isOpenAt(
+  business: { openingHours?: OpeningHours; openingTime?: string; closingTime?: string },
+  date: Date,
+) {
+  const hours = business.openingHours ?? hoursFromLegacy(business.openingTime, business.closingTime);
+  if (!hours) {
+    return false;
+  }
+  const now = localTime(date, hours.timezone);
+  const today = rangesOn(hours, now.date, now.day);
+  for (const range of today) {
+    const open = minutes(range.open);
+    if (isOvernight(range) ? now.minutes >= open : now.minutes >= open && now.minutes < minutes(range.close)) {
+      return true;
+    }
+  }
+  // Late ranges from yesterday that run past midnight
+  const yesterday = DAYS[(DAYS.indexOf(now.day) + 6) % 7];
+  for (const range of rangesOn(hours, previousDate(now.date), yesterday)) {
+    if (isOvernight(range) && now.minutes < minutes(range.close)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** "09:00–12:00, 13:00–17:30", or "Closed". */
+export function formatRanges(ranges: TimeRange[]) {
+  if (ranges.length === 0) {
+    return "Closed";
+  }
+  return ranges
+    .map((range) =>
+      range.open === "00:00" && range.close === "00:00" ? "Open 24 hours" : `${range.open}–${range.close}`,
+    )
+    .join(", ");
+}
@@ -0,0 +1,60 @@
+// Response helpers for the public /api/v1 routes: CORS so partner sites can
+// call them from the browser, and ETags so unchanged responses cost a 304.
+
+const API_CACHE_SECONDS = 60;
+
+/** `API_CORS_ORIGIN` limits browser access to one site; any origin by default. */
+export function corsHeaders(): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": process.env.API_CORS_ORIGIN || "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type, If-None-Match, X-Api-Key",
+    "Access-Control-Expose-Headers": "ETag",
+    "Access-Control-Max-Age": "86400",
+    // Responses depend on the API key, so shared caches must key on it.
+    Vary: "Origin, Authorization, X-Api-Key",
+  };
+}
+
+export function preflightResponse() {
+  return new Response(null, { status: 204, headers: corsHeaders() });
+}
+
+async function etagFor(body: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `"${hex}"`;
+}
+
+function matchesEtag(header: string | null, etag: string) {
+  return header?.split(",").some((value) => {
+    const tag = value.trim().replace(/^W\//, "");
+    return tag === "*" || tag === etag;
+  }) ?? false;
+}
+
+/** `body` as JSON, or a 304 when the caller's `If-None-Match` still matches. */
+export async function jsonResponse(request: Request, body: unknown, status = 200) {
+  const text = JSON.stringify(body);
+  const etag = await etagFor(text);
+  const headers = {
+    ...corsHeaders(),
+    ETag: etag,
+    "Cache-Control": `private, max-age=${API_CACHE_SECONDS}`,
+  };
+  if (matchesEtag(request.headers.get("If-None-Match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(text, {
+    status,
+    headers: { ...headers, "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+/** Errors share one shape: `{ "error": { "code", "message" } }`. */
+export function errorResponse(status: number, code: string, message: string) {
+  return new Response(JSON.stringify({ error: { code, message } }), {
+    status,
+    headers: { ...corsHeaders(), "Content-Type": "application/json; charset=utf-8" },
+  });
+}
@@ -0,0 +1,60 @@
+import type { Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+
+// The limits are checked in the browser before uploading and again here
+// once the file is in storage, since upload URLs accept anything.
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Why a file can't be used as an image, or undefined if it can. */
+export function imageError(file: { type?: string; size: number }) {
+  if (!file.type || !IMAGE_TYPES.includes(file.type)) {
+    return "Images must be JPEG, PNG, WebP or GIF";
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return `Images must be smaller than ${MAX_IMAGE_BYTES / 1024 / 1024}MB`;
+  }
+  return undefined;
+}
+
+/**
+ * Throws unless `storageId` is an uploaded image within the limits. Rejected
+ * files are left for `images:cleanupOrphanedUploads` to remove, as deleting
+ * them here would be rolled back along with the failed mutation.
+ */
+export async function assertValidImage(ctx: QueryCtx, storageId: Id<"_storage">) {
+  const file = await ctx.db.system.get(storageId);
+  if (!file) {
+    throw new Error("Uploaded file not found");
+  }
+  const error = imageError({ type: file.contentType, size: file.size });
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+/** Deletes the previous image once it has been replaced or removed. */
+export async function replaceImage(
+  ctx: MutationCtx,
+  previous: Id<"_storage"> | undefined,
+  next: Id<"_storage"> | undefined,
+) {
+  if (previous && previous !== next) {
+    await ctx.storage.delete(previous);
+  }
+}
+
+/** A serving URL for a row's image, falling back to the legacy `image` URL. */
+export async function imageUrl(ctx: QueryCtx, doc: { imageId?: Id<"_storage">; image?: string }) {
+  if (doc.imageId) {
+    return await ctx.storage.getUrl(doc.imageId);
+  }
+  return doc.image ?? null;
+}
+
+export async function withImageUrl<T extends { imageId?: Id<"_storage">; image?: string }>(
+  ctx: QueryCtx,
+  doc: T,
+) {
+  return { ...doc, imageUrl: await imageUrl(ctx, doc) };
+}
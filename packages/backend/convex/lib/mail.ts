@@ -0,0 +1,60 @@
+// Outgoing mail. Messages are queued through lib/emails.ts and sent by an
+// action with the transport configured on the deployment, so local
+// development needs no mail provider: the default transport just logs them.
+// Transports that need Node live in lib/mailTransports.ts.
+
+// A bare `local@domain` address. Spaces, control characters, angle
+// brackets and the other specials are refused, so an address can't end an
+// SMTP command early or smuggle in another header or recipient.
+const EMAIL_ADDRESS = /^[^\s\x00-\x1f\x7f<>()[\]\\,;:@"]+@[^\s\x00-\x1f\x7f<>()[\]\\,;:@"]+$/;
+
+export function isEmailAddress(value: string) {
+  return EMAIL_ADDRESS.test(value);
+}
+
+/** Throws unless `value` is an address mail can safely be sent to. */
+export function assertEmailAddress(value: string) {
+  if (!isEmailAddress(value)) {
+    throw new Error(`${JSON.stringify(value)} is not a valid email address`);
+  }
+}
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Bodies carry one-time links (claims, confirmations), so only the envelope
+// is logged.
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`[mail] to=${message.to} subject=${message.subject}`);
+  },
+};
+
+/** Posts each message as JSON to `url`, e.g. a mail relay or a local catcher. */
+export function webhookTransport(url: string): MailTransport {
+  return {
+    async send(message) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+      });
+      if (!response.ok) {
+        throw new Error(`Mail webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/** Absolute link to a page of the web app, from `SITE_URL`. */
+export function siteUrl(path: string) {
+  const base = process.env.SITE_URL ?? "http://localhost:3001";
+  return new URL(path, base).toString();
+}
@@ -0,0 +1,130 @@
+"use node";
+
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import nodemailer from "nodemailer";
+import { assertEmailAddress, consoleTransport, webhookTransport, type MailMessage, type MailTransport } from "./mail";
+
+// Transports that need Node, built on nodemailer. Only import this from
+// "use node" actions.
+
+/** `MAIL_FROM`, e.g. `Onfindr <hello@example.com>`. */
+function mailFrom() {
+  return process.env.MAIL_FROM ?? "Onfindr <no-reply@localhost>";
+}
+
+function envelope(message: MailMessage) {
+  const from = mailFrom();
+  const sender = /<([^>]+)>/.exec(from)?.[1] ?? from;
+  // Checked again here as well as when queued, since these end up in SMTP
+  // commands and headers.
+  assertEmailAddress(message.to);
+  assertEmailAddress(sender);
+  return { from, to: message.to, subject: message.subject, text: message.text };
+}
+
+// Saving mail to disk only makes sense where someone can open the files, and
+// only a local backend may send without choosing a transport.
+function isLocalBackend() {
+  const url = process.env.CONVEX_CLOUD_URL;
+  const host = url ? new URL(url).hostname : "";
+  return host === "localhost" || host === "127.0.0.1";
+}
+
+/** Writes each message to `dir` as a .eml file any mail client can open. */
+export function fileTransport(dir: string): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "windows" });
+  return {
+    async send(message) {
+      const { message: eml } = await transporter.sendMail(envelope(message));
+      await mkdir(dir, { recursive: true });
+      const file = join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`);
+      await writeFile(file, eml as Buffer);
+      console.log(`[mail] to=${message.to} subject=${message.subject} saved to ${file}`);
+    },
+  };
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // Implicit TLS from the start, as on port 465; otherwise STARTTLS.
+  secure: boolean;
+  user?: string;
+  password?: string;
+};
+
+/**
+ * Sends through an SMTP server. With credentials on a connection that
+ * doesn't start out encrypted, STARTTLS is required, so the password is
+ * never sent in the clear.
+ */
+export function smtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: !options.secure && Boolean(options.user),
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+  return {
+    async send(message) {
+      await transporter.sendMail(envelope(message));
+    },
+  };
+}
+
+/**
+ * The transport named by `MAIL_TRANSPORT`, which must be set unless the
+ * backend is local, where it defaults to "console":
+ * - "console" logs who each message is to, without the body;
+ * - "file" saves them under `MAIL_FILE_DIR` (default `/tmp/mail`), and only
+ *   works with a local backend;
+ * - "webhook" posts them to `MAIL_WEBHOOK_URL`;
+ * - "smtp" sends them through `SMTP_HOST`, with `SMTP_PORT` (default 587),
+ *   `SMTP_SECURE` ("true" for implicit TLS, the default on port 465),
+ *   `SMTP_USER` and `SMTP_PASSWORD`.
+ */
+export function getMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT ?? (isLocalBackend() ? "console" : undefined);
+  if (!transport) {
+    throw new Error("MAIL_TRANSPORT is not set");
+  }
+  if (transport === "console") {
+    return consoleTransport;
+  }
+  if (transport === "file") {
+    if (!isLocalBackend()) {
+      throw new Error('MAIL_TRANSPORT "file" only works with a local Convex backend');
+    }
+    return fileTransport(process.env.MAIL_FILE_DIR ?? "/tmp/mail");
+  }
+  if (transport === "webhook") {
+    const url = process.env.MAIL_WEBHOOK_URL;
+    if (!url) {
+      throw new Error("MAIL_WEBHOOK_URL is not set");
+    }
+    return webhookTransport(url);
+  }
+  if (transport === "smtp") {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error("SMTP_HOST is not set");
+    }
+    const port = Number(process.env.SMTP_PORT ?? 587);
+    return smtpTransport({
+      host,
+      port,
+      secure: (process.env.SMTP_SECURE ?? String(port === 465)) === "true",
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    });
+  }
+  throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+}
@@ -0,0 +1,437 @@
+// Centroids of UK postcode districts (outward codes, e.g. "LS6"), used to
+// place an address from its postcode without a geocoding service. This
+// covers London and the largest cities; run
+// scripts/build-postcode-districts.mjs with the ONS Postcode Directory to
+// regenerate it for every district. Postcodes in a district that's missing
+// fall back to their area's centroid in lib/postcodeAreas.ts.
+export const POSTCODE_DISTRICT_CENTROIDS: Record<string, [latitude: number, longitude: number]> = {
+  // London
+  E1: [51.517, -0.059],
+  E1W: [51.507, -0.058],
+  E2: [51.529, -0.061],
+  E3: [51.527, -0.024],
+  E4: [51.626, -0.001],
+  E5: [51.559, -0.054],
+  E6: [51.528, 0.054],
+  E7: [51.547, 0.026],
+  E8: [51.543, -0.066],
+  E9: [51.542, -0.041],
+  E10: [51.567, -0.013],
+  E11: [51.569, 0.011],
+  E12: [51.551, 0.052],
+  E13: [51.528, 0.025],
+  E14: [51.505, -0.018],
+  E15: [51.541, 0],
+  E16: [51.509, 0.03],
+  E17: [51.586, -0.02],
+  E18: [51.592, 0.025],
+  E20: [51.545, -0.012],
+  EC1: [51.524, -0.1],
+  EC2: [51.518, -0.088],
+  EC3: [51.512, -0.08],
+  EC4: [51.513, -0.102],
+  N1: [51.538, -0.097],
+  N2: [51.589, -0.166],
+  N3: [51.601, -0.193],
+  N4: [51.57, -0.103],
+  N5: [51.553, -0.098],
+  N6: [51.571, -0.146],
+  N7: [51.554, -0.117],
+  N8: [51.585, -0.118],
+  N9: [51.627, -0.058],
+  N10: [51.592, -0.144],
+  N11: [51.614, -0.137],
+  N12: [51.615, -0.177],
+  N13: [51.619, -0.106],
+  N14: [51.633, -0.127],
+  N15: [51.581, -0.082],
+  N16: [51.562, -0.076],
+  N17: [51.597, -0.068],
+  N18: [51.614, -0.064],
+  N19: [51.566, -0.131],
+  N20: [51.63, -0.173],
+  N21: [51.636, -0.1],
+  N22: [51.6, -0.113],
+  NW1: [51.533, -0.146],
+  NW2: [51.558, -0.218],
+  NW3: [51.553, -0.172],
+  NW4: [51.588, -0.225],
+  NW5: [51.553, -0.141],
+  NW6: [51.541, -0.196],
+  NW7: [51.614, -0.234],
+  NW8: [51.533, -0.172],
+  NW9: [51.587, -0.256],
+  NW10: [51.54, -0.245],
+  NW11: [51.577, -0.197],
+  SE1: [51.5, -0.094],
+  SE2: [51.489, 0.119],
+  SE3: [51.466, 0.011],
+  SE4: [51.46, -0.035],
+  SE5: [51.474, -0.092],
+  SE6: [51.438, -0.018],
+  SE7: [51.482, 0.038],
+  SE8: [51.479, -0.027],
+  SE9: [51.447, 0.054],
+  SE10: [51.481, 0.003],
+  SE11: [51.489, -0.111],
+  SE12: [51.445, 0.02],
+  SE13: [51.461, -0.01],
+  SE14: [51.476, -0.045],
+  SE15: [51.47, -0.066],
+  SE16: [51.496, -0.052],
+  SE17: [51.488, -0.093],
+  SE18: [51.484, 0.072],
+  SE19: [51.418, -0.086],
+  SE20: [51.412, -0.06],
+  SE21: [51.442, -0.087],
+  SE22: [51.452, -0.068],
+  SE23: [51.442, -0.047],
+  SE24: [51.452, -0.099],
+  SE25: [51.398, -0.073],
+  SE26: [51.428, -0.054],
+  SE27: [51.431, -0.104],
+  SE28: [51.503, 0.11],
+  SW1: [51.497, -0.137],
+  SW2: [51.452, -0.118],
+  SW3: [51.49, -0.167],
+  SW4: [51.462, -0.138],
+  SW5: [51.49, -0.19],
+  SW6: [51.475, -0.201],
+  SW7: [51.496, -0.175],
+  SW8: [51.477, -0.13],
+  SW9: [51.468, -0.114],
+  SW10: [51.482, -0.182],
+  SW11: [51.465, -0.163],
+  SW12: [51.446, -0.148],
+  SW13: [51.474, -0.245],
+  SW14: [51.464, -0.267],
+  SW15: [51.456, -0.221],
+  SW16: [51.421, -0.127],
+  SW17: [51.428, -0.166],
+  SW18: [51.451, -0.192],
+  SW19: [51.422, -0.206],
+  SW20: [51.41, -0.229],
+  W1: [51.515, -0.143],
+  W2: [51.515, -0.18],
+  W3: [51.51, -0.268],
+  W4: [51.492, -0.262],
+  W5: [51.512, -0.302],
+  W6: [51.493, -0.225],
+  W7: [51.511, -0.336],
+  W8: [51.5, -0.193],
+  W9: [51.526, -0.193],
+  W10: [51.523, -0.212],
+  W11: [51.513, -0.205],
+  W12: [51.508, -0.235],
+  W13: [51.515, -0.32],
+  W14: [51.495, -0.209],
+  WC1: [51.521, -0.122],
+  WC2: [51.512, -0.123],
+  // Birmingham
+  B1: [52.48, -1.907],
+  B2: [52.479, -1.898],
+  B3: [52.483, -1.902],
+  B4: [52.484, -1.891],
+  B5: [52.47, -1.895],
+  B6: [52.505, -1.88],
+  B7: [52.492, -1.874],
+  B8: [52.489, -1.837],
+  B9: [52.475, -1.846],
+  B10: [52.468, -1.858],
+  B11: [52.455, -1.866],
+  B12: [52.46, -1.885],
+  B13: [52.441, -1.877],
+  B14: [52.425, -1.89],
+  B15: [52.464, -1.925],
+  B16: [52.477, -1.93],
+  B17: [52.461, -1.955],
+  B18: [52.493, -1.922],
+  B19: [52.5, -1.9],
+  B20: [52.514, -1.918],
+  B21: [52.508, -1.94],
+  B23: [52.528, -1.842],
+  B24: [52.52, -1.82],
+  B25: [52.472, -1.813],
+  B26: [52.466, -1.785],
+  B27: [52.446, -1.82],
+  B28: [52.427, -1.84],
+  B29: [52.435, -1.943],
+  B30: [52.422, -1.923],
+  B31: [52.41, -1.97],
+  B32: [52.452, -1.99],
+  B33: [52.485, -1.79],
+  B34: [52.49, -1.77],
+  B35: [52.52, -1.79],
+  B36: [52.5, -1.78],
+  B37: [52.48, -1.735],
+  B38: [52.405, -1.93],
+  B40: [52.455, -1.72],
+  B42: [52.543, -1.9],
+  B43: [52.555, -1.93],
+  B44: [52.548, -1.88],
+  B45: [52.395, -2.01],
+  B46: [52.5, -1.7],
+  B47: [52.38, -1.88],
+  B48: [52.35, -1.96],
+  B49: [52.215, -1.87],
+  B50: [52.165, -1.86],
+  B60: [52.335, -2.055],
+  B61: [52.345, -2.07],
+  B62: [52.455, -2.03],
+  B63: [52.45, -2.06],
+  B64: [52.47, -2.08],
+  B65: [52.485, -2.05],
+  B66: [52.495, -1.965],
+  B67: [52.483, -1.97],
+  B68: [52.475, -2],
+  B69: [52.5, -2.02],
+  B70: [52.52, -2],
+  B71: [52.54, -1.99],
+  B72: [52.555, -1.82],
+  B73: [52.56, -1.84],
+  B74: [52.59, -1.85],
+  B75: [52.58, -1.8],
+  B76: [52.54, -1.77],
+  B77: [52.62, -1.68],
+  B78: [52.6, -1.66],
+  B79: [52.65, -1.69],
+  B80: [52.27, -1.89],
+  B90: [52.405, -1.82],
+  B91: [52.412, -1.777],
+  B92: [52.44, -1.74],
+  B93: [52.37, -1.75],
+  B94: [52.35, -1.78],
+  B95: [52.29, -1.78],
+  B96: [52.27, -1.96],
+  B97: [52.3, -1.96],
+  B98: [52.3, -1.92],
+  // Bristol
+  BS1: [51.453, -2.593],
+  BS2: [51.46, -2.58],
+  BS3: [51.44, -2.6],
+  BS4: [51.435, -2.565],
+  BS5: [51.462, -2.555],
+  BS6: [51.47, -2.6],
+  BS7: [51.49, -2.585],
+  BS8: [51.457, -2.617],
+  BS9: [51.49, -2.63],
+  BS10: [51.505, -2.605],
+  BS11: [51.495, -2.69],
+  BS13: [51.41, -2.6],
+  BS14: [51.41, -2.56],
+  BS15: [51.46, -2.505],
+  BS16: [51.485, -2.52],
+  // Cardiff
+  CF3: [51.52, -3.11],
+  CF5: [51.485, -3.24],
+  CF10: [51.478, -3.177],
+  CF11: [51.475, -3.2],
+  CF14: [51.52, -3.2],
+  CF15: [51.53, -3.26],
+  CF23: [51.51, -3.16],
+  CF24: [51.49, -3.16],
+  // Edinburgh
+  EH1: [55.951, -3.19],
+  EH2: [55.954, -3.197],
+  EH3: [55.95, -3.205],
+  EH4: [55.962, -3.25],
+  EH5: [55.975, -3.22],
+  EH6: [55.972, -3.175],
+  EH7: [55.96, -3.17],
+  EH8: [55.948, -3.17],
+  EH9: [55.935, -3.185],
+  EH10: [55.925, -3.21],
+  EH11: [55.935, -3.24],
+  EH12: [55.943, -3.28],
+  EH13: [55.905, -3.25],
+  EH14: [55.915, -3.27],
+  EH15: [55.95, -3.11],
+  EH16: [55.925, -3.15],
+  EH17: [55.905, -3.14],
+  // Glasgow
+  G1: [55.86, -4.25],
+  G2: [55.862, -4.26],
+  G3: [55.866, -4.28],
+  G4: [55.87, -4.245],
+  G5: [55.848, -4.25],
+  G11: [55.872, -4.305],
+  G12: [55.878, -4.295],
+  G13: [55.89, -4.345],
+  G14: [55.875, -4.34],
+  G15: [55.905, -4.37],
+  G20: [55.888, -4.28],
+  G21: [55.88, -4.225],
+  G22: [55.885, -4.25],
+  G23: [55.9, -4.27],
+  G31: [55.858, -4.21],
+  G32: [55.85, -4.17],
+  G33: [55.87, -4.16],
+  G34: [55.868, -4.11],
+  G40: [55.847, -4.225],
+  G41: [55.837, -4.28],
+  G42: [55.832, -4.255],
+  G43: [55.82, -4.29],
+  G44: [55.812, -4.26],
+  G45: [55.805, -4.23],
+  G46: [55.805, -4.3],
+  G51: [55.86, -4.315],
+  G52: [55.85, -4.35],
+  G53: [55.825, -4.34],
+  // Leeds
+  LS1: [53.797, -1.548],
+  LS2: [53.802, -1.545],
+  LS3: [53.801, -1.562],
+  LS4: [53.81, -1.585],
+  LS5: [53.823, -1.612],
+  LS6: [53.82, -1.575],
+  LS7: [53.82, -1.535],
+  LS8: [53.825, -1.505],
+  LS9: [53.8, -1.51],
+  LS10: [53.77, -1.535],
+  LS11: [53.775, -1.56],
+  LS12: [53.795, -1.59],
+  LS13: [53.81, -1.635],
+  LS14: [53.82, -1.46],
+  LS15: [53.805, -1.44],
+  LS16: [53.855, -1.59],
+  LS17: [53.86, -1.53],
+  LS18: [53.84, -1.64],
+  LS19: [53.865, -1.685],
+  LS20: [53.875, -1.71],
+  LS21: [53.905, -1.69],
+  LS22: [53.93, -1.39],
+  LS23: [53.9, -1.34],
+  LS24: [53.885, -1.26],
+  LS25: [53.79, -1.38],
+  LS26: [53.75, -1.47],
+  LS27: [53.745, -1.6],
+  LS28: [53.795, -1.665],
+  LS29: [53.925, -1.82],
+  // Liverpool
+  L1: [53.402, -2.982],
+  L2: [53.408, -2.988],
+  L3: [53.41, -2.985],
+  L4: [53.437, -2.96],
+  L5: [53.425, -2.97],
+  L6: [53.42, -2.95],
+  L7: [53.408, -2.95],
+  L8: [53.39, -2.96],
+  L9: [53.465, -2.96],
+  L10: [53.47, -2.93],
+  L11: [53.445, -2.925],
+  L12: [53.43, -2.9],
+  L13: [53.42, -2.925],
+  L14: [53.41, -2.89],
+  L15: [53.398, -2.925],
+  L16: [53.39, -2.88],
+  L17: [53.37, -2.935],
+  L18: [53.375, -2.905],
+  L19: [53.355, -2.9],
+  L20: [53.45, -2.99],
+  L21: [53.47, -2.995],
+  L22: [53.475, -3.02],
+  L23: [53.49, -3.03],
+  L24: [53.345, -2.85],
+  L25: [53.375, -2.865],
+  L26: [53.36, -2.83],
+  L27: [53.395, -2.84],
+  L28: [53.42, -2.85],
+  L29: [53.5, -2.97],
+  L30: [53.49, -2.96],
+  L31: [53.515, -2.94],
+  L32: [53.48, -2.89],
+  L33: [53.48, -2.86],
+  L34: [53.43, -2.8],
+  L35: [53.415, -2.79],
+  L36: [53.41, -2.84],
+  L37: [53.56, -3.06],
+  L38: [53.52, -3.02],
+  L39: [53.57, -2.88],
+  L40: [53.6, -2.85],
+  // Leicester
+  LE1: [52.635, -1.133],
+  LE2: [52.615, -1.12],
+  LE3: [52.63, -1.18],
+  LE4: [52.66, -1.13],
+  LE5: [52.64, -1.09],
+  // Manchester
+  M1: [53.478, -2.236],
+  M2: [53.48, -2.245],
+  M3: [53.483, -2.252],
+  M4: [53.484, -2.228],
+  M5: [53.478, -2.29],
+  M6: [53.495, -2.29],
+  M7: [53.505, -2.26],
+  M8: [53.51, -2.235],
+  M9: [53.52, -2.21],
+  M11: [53.478, -2.18],
+  M12: [53.463, -2.205],
+  M13: [53.462, -2.225],
+  M14: [53.448, -2.225],
+  M15: [53.466, -2.25],
+  M16: [53.455, -2.265],
+  M17: [53.47, -2.32],
+  M18: [53.463, -2.18],
+  M19: [53.44, -2.19],
+  M20: [53.418, -2.23],
+  M21: [53.44, -2.275],
+  M22: [53.385, -2.26],
+  M23: [53.395, -2.29],
+  M24: [53.55, -2.2],
+  M25: [53.53, -2.28],
+  M26: [53.56, -2.32],
+  M27: [53.51, -2.34],
+  M28: [53.52, -2.4],
+  M29: [53.51, -2.46],
+  M30: [53.483, -2.34],
+  M31: [53.42, -2.42],
+  M32: [53.45, -2.31],
+  M33: [53.425, -2.32],
+  M34: [53.455, -2.12],
+  M35: [53.51, -2.16],
+  M38: [53.53, -2.42],
+  M40: [53.51, -2.19],
+  M41: [53.45, -2.355],
+  M43: [53.48, -2.15],
+  M44: [53.44, -2.42],
+  M45: [53.555, -2.3],
+  M46: [53.525, -2.49],
+  M50: [53.472, -2.295],
+  M90: [53.36, -2.275],
+  // Newcastle upon Tyne
+  NE1: [54.973, -1.613],
+  NE2: [54.985, -1.6],
+  NE3: [55.005, -1.625],
+  NE4: [54.972, -1.65],
+  NE5: [54.995, -1.7],
+  NE6: [54.975, -1.57],
+  NE7: [54.995, -1.58],
+  NE8: [54.955, -1.61],
+  NE12: [55.03, -1.56],
+  NE13: [55.03, -1.65],
+  NE15: [54.98, -1.73],
+  // Nottingham
+  NG1: [52.954, -1.15],
+  NG2: [52.94, -1.14],
+  NG3: [52.965, -1.13],
+  NG5: [53, -1.15],
+  NG7: [52.95, -1.18],
+  NG8: [52.96, -1.21],
+  NG9: [52.925, -1.22],
+  NG11: [52.905, -1.18],
+  // Sheffield
+  S1: [53.381, -1.47],
+  S2: [53.37, -1.455],
+  S3: [53.39, -1.475],
+  S4: [53.4, -1.45],
+  S5: [53.425, -1.46],
+  S6: [53.4, -1.51],
+  S7: [53.35, -1.49],
+  S8: [53.34, -1.47],
+  S9: [53.4, -1.41],
+  S10: [53.375, -1.52],
+  S11: [53.36, -1.51],
+  S12: [53.34, -1.41],
+  S13: [53.36, -1.38],
+  S14: [53.345, -1.44],
+};
@@ -0,0 +1,22 @@
+// A hashcash-style challenge: find a `solution` such that
+// SHA-256("<challenge>:<solution>") starts with `difficulty` zero bits.
+// Cheap for one visitor, costly for a script posting thousands of forms.
+// Uses Web Crypto, so the browser can solve what Convex verifies.
+
+async function leadingZeroBits(text: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+  let bits = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+export async function verifySolution(challenge: string, solution: string, difficulty: number) {
+  return (await leadingZeroBits(`${challenge}:${solution}`)) >= difficulty;
+}
@@ -0,0 +1,116 @@
+import { ConvexError } from "convex/values";
+import type { Doc } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import { getBusinessCategoryIds } from "./categories";
+import { hoursFromLegacy, type OpeningHours } from "./hours";
+import { imageUrl } from "./images";
+
+// The JSON shapes of the public /api/v1 endpoints. Partners build against
+// these, so fields are only ever added: internal document fields can be
+// renamed or dropped without changing them. Missing values are null rather
+// than absent so every object has the same keys.
+
+export type ApiBusiness = {
+  slug: string;
+  name: string;
+  description: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  address: {
+    text: string | null;
+    locality: string | null;
+    postcode: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  openingHours: OpeningHours | null;
+  rating: number | null;
+  reviewCount: number;
+  categories: { slug: string; name: string }[];
+  imageUrl: string | null;
+  updatedAt: string | null;
+};
+
+export type ApiCategory = {
+  slug: string;
+  name: string;
+  description: string | null;
+  parent: string | null;
+  imageUrl: string | null;
+};
+
+export type ApiList<T> = {
+  data: T[];
+  // Pass as `cursor` to get the next page; null on the last page.
+  nextCursor: string | null;
+};
+
+/**
+ * Rethrows a pagination error caused by the caller's cursor, e.g. one from
+ * another query or an older deployment, as a `ConvexError` the HTTP route
+ * can tell apart from everything else.
+ */
+export function rethrowCursorError(error: unknown): never {
+  if (error instanceof Error && /cursor/i.test(error.message)) {
+    throw new ConvexError({ kind: "InvalidCursor" });
+  }
+  throw error;
+}
+
+export function isInvalidCursorError(error: unknown) {
+  return error instanceof ConvexError && (error.data as { kind?: unknown } | null)?.kind === "InvalidCursor";
+}
+
+export async function toApiBusiness(
+  ctx: QueryCtx,
+  business: Doc<"businesses"> & { slug: string },
+): Promise<ApiBusiness> {
+  const addressId = business.addressId ? ctx.db.normalizeId("addresses", business.addressId) : null;
+  const address = addressId ? await ctx.db.get(addressId) : null;
+  const categories = await Promise.all(
+    (await getBusinessCategoryIds(ctx, business._id)).map((id) => ctx.db.get(id)),
+  );
+  return {
+    slug: business.slug,
+    name: business.name,
+    description: business.description ?? null,
+    email: business.email ?? null,
+    phone: business.phone ?? null,
+    website: business.website ?? null,
+    address: {
+      text: address?.combinedAddress ?? business.address ?? null,
+      locality: business.locality ?? null,
+      postcode: address?.Postcode ?? null,
+      latitude: address?.latitude ?? null,
+      longitude: address?.longitude ?? null,
+    },
+    openingHours:
+      business.openingHours ?? hoursFromLegacy(business.openingTime, business.closingTime) ?? null,
+    rating: business.rating ?? null,
+    reviewCount: business.reviewCount ?? 0,
+    categories: categories
+      .filter((category): category is Doc<"categories"> & { slug: string } => Boolean(category?.slug))
+      .map((category) => ({ slug: category.slug, name: category.name })),
+    imageUrl: await imageUrl(ctx, business),
+    updatedAt: business.updatedAt ?? business.createdAt ?? null,
+  };
+}
+
+export async function toApiCategory(
+  ctx: QueryCtx,
+  category: Doc<"categories"> & { slug: string },
+): Promise<ApiCategory> {
+  const parent = category.parentId ? await ctx.db.get(category.parentId) : null;
+  return {
+    slug: category.slug,
+    name: category.name,
+    description: category.description ?? null,
+    parent: parent?.slug ?? null,
+    imageUrl: await imageUrl(ctx, category),
+  };
+}
+
+export function hasSlug<T extends { slug?: string }>(doc: T | null): doc is T & { slug: string } {
+  return Boolean(doc?.slug);
+}
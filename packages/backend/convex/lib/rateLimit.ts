@@ -0,0 +1,114 @@
+import { ConvexError, v, type Infer } from "convex/values";
+import type { MutationCtx } from "../_generated/server";
+import { verifySignature } from "./signing";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+type RateLimit = {
+  // Calls allowed in a burst before the caller has to wait.
+  capacity: number;
+  // How long an empty bucket takes to fill back up to `capacity`.
+  period: number;
+};
+
+/**
+ * Token-bucket limits for public mutations, named after the mutation they
+ * guard. Each caller key gets its own bucket, so one busy address doesn't
+ * lock everyone else out.
+ */
+export const RATE_LIMITS = {
+  "submittedBusinesses:addSubmittedBusiness": { capacity: 5, period: HOUR },
+  "waitlist:addEmail": { capacity: 3, period: 10 * MINUTE },
+  "claims:requestClaim": { capacity: 3, period: HOUR },
+} satisfies Record<string, RateLimit>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+// Buckets idle this long have refilled under every limit and can be dropped.
+export const RATE_LIMIT_IDLE_MS = Math.max(...Object.values(RATE_LIMITS).map((limit) => limit.period));
+
+/**
+ * The caller's IP as seen by the web server, signed with the shared
+ * `SIGNING_SECRET` so it can't be picked by whoever calls the mutation.
+ */
+export const signedIp = v.object({
+  ip: v.string(),
+  signature: v.string(),
+});
+
+export type SignedIp = Infer<typeof signedIp>;
+
+/** The IP in `ip` if its signature checks out, otherwise undefined. */
+export async function verifiedIp(ip: SignedIp | undefined) {
+  return ip && (await verifySignature(ip.ip, ip.signature)) ? ip.ip : undefined;
+}
+
+/** The data of the `ConvexError` thrown when a caller is over a limit. */
+export type RateLimitedError = {
+  kind: "RateLimited";
+  name: RateLimitName;
+  // Whole seconds until the call will be allowed again.
+  retryAfter: number;
+};
+
+export function isRateLimitedError(error: unknown): error is ConvexError<RateLimitedError> {
+  return error instanceof ConvexError && (error.data as { kind?: unknown } | null)?.kind === "RateLimited";
+}
+
+/**
+ * The keys a call is limited by: the Clerk user when signed in, plus the
+ * email it's about and the caller's IP when those are known. An IP whose
+ * signature doesn't check out is ignored rather than trusted.
+ */
+export async function rateLimitKeys(
+  ctx: MutationCtx,
+  caller: { email?: string; ip?: SignedIp },
+) {
+  const keys: string[] = [];
+  const identity = await ctx.auth.getUserIdentity();
+  if (identity) {
+    keys.push(`user:${identity.subject}`);
+  }
+  const email = caller.email?.trim().toLowerCase();
+  if (email) {
+    keys.push(`email:${email}`);
+  }
+  const ip = await verifiedIp(caller.ip);
+  if (ip) {
+    keys.push(`ip:${ip}`);
+  }
+  return keys;
+}
+
+/**
+ * Takes a token from the `name` bucket of every key, or throws a
+ * `RateLimitedError` if any of them is empty. Throwing rolls the whole
+ * mutation back, so a refused call doesn't use up the other keys' tokens.
+ */
+export async function rateLimit(ctx: MutationCtx, name: RateLimitName, keys: string[]) {
+  const { capacity, period } = RATE_LIMITS[name];
+  const perMs = capacity / period;
+  const now = Date.now();
+  for (const key of keys) {
+    const bucket = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_name_and_key", (q) => q.eq("name", name).eq("key", key))
+      .unique();
+    const tokens = bucket
+      ? Math.min(capacity, bucket.tokens + (now - bucket.refilledAt) * perMs)
+      : capacity;
+    if (tokens < 1) {
+      throw new ConvexError<RateLimitedError>({
+        kind: "RateLimited",
+        name,
+        retryAfter: Math.ceil((1 - tokens) / perMs / 1000),
+      });
+    }
+    if (bucket) {
+      await ctx.db.patch(bucket._id, { tokens: tokens - 1, refilledAt: now });
+    } else {
+      await ctx.db.insert("rateLimits", { name, key, tokens: tokens - 1, refilledAt: now });
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+
+/** What a review contributes to its business's rating. */
+export function ratingContribution(review: Pick<Doc<"reviews">, "stars" | "hidden"> | null) {
+  return review && !review.hidden ? { stars: review.stars, count: 1 } : { stars: 0, count: 0 };
+}
+
+/**
+ * Moves a business's rating from one review state to another. Called in the
+ * same mutation as the review write, so the totals never drift from the
+ * reviews table.
+ */
+export async function updateRating(
+  ctx: MutationCtx,
+  businessId: Id<"businesses">,
+  before: Pick<Doc<"reviews">, "stars" | "hidden"> | null,
+  after: Pick<Doc<"reviews">, "stars" | "hidden"> | null,
+) {
+  const business = await ctx.db.get(businessId);
+  if (!business) {
+    return;
+  }
+  const removed = ratingContribution(before);
+  const added = ratingContribution(after);
+  const reviewCount = (business.reviewCount ?? 0) - removed.count + added.count;
+  const ratingTotal = (business.ratingTotal ?? 0) - removed.stars + added.stars;
+  await ctx.db.patch(businessId, {
+    reviewCount,
+    ratingTotal,
+    rating: reviewCount > 0 ? ratingTotal / reviewCount : undefined,
+  });
+}
+
+export function assertValidStars(stars: number) {
+  if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+    throw new Error("Rating must be a whole number of stars from 1 to 5");
+  }
+}
@@ -0,0 +1,28 @@
+// Kept free of server imports so the web and native apps can share it.
+
+export type Role = "admin" | "moderator" | "owner" | "member";
+
+const rank: Record<Role, number> = {
+  member: 0,
+  owner: 1,
+  moderator: 2,
+  admin: 3,
+};
+
+export const roles = Object.keys(rank) as Role[];
+
+export function isRole(value: string): value is Role {
+  return (roles as string[]).includes(value);
+}
+
+/** Users without a role, or with one we don't know, are treated as members. */
+export function roleOf(user: { role?: string }): Role {
+  return user.role && isRole(user.role) ? user.role : "member";
+}
+
+export function hasRole(user: { role?: string } | null | undefined, role: Role) {
+  if (!user) {
+    return false;
+  }
+  return rank[roleOf(user)] >= rank[role];
+}
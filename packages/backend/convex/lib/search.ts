@@ -0,0 +1,84 @@
+import type { Doc } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import type { PaginationOptions } from "convex/server";
+
+type Searchable = Pick<
+  Doc<"businesses">,
+  "name" | "description" | "addressId" | "locality"
+>;
+
+/**
+ * Derives the denormalised fields behind the `search_text` index. Convex
+ * search indexes cover a single field, so name and description are joined
+ * into `searchText`.
+ */
+export async function searchFieldsFor(ctx: QueryCtx, business: Searchable) {
+  const addressId = business.addressId
+    ? ctx.db.normalizeId("addresses", business.addressId)
+    : null;
+  const address = addressId ? await ctx.db.get(addressId) : null;
+  return {
+    searchText: [business.name, business.description]
+      .filter((part): part is string => Boolean(part))
+      .join("\n"),
+    locality: address?.Locality ?? address?.TownOrCity ?? business.locality,
+  };
+}
+
+/**
+ * One page of `searchBusinesses` results; see there for how the filters
+ * combine. Shared with the public HTTP API.
+ */
+export async function searchBusinessPage(
+  ctx: QueryCtx,
+  args: { query: string; category?: string; locality?: string; paginationOpts: PaginationOptions },
+) {
+  const category = args.category
+    ? await ctx.db
+        .query("categories")
+        .withIndex("by_slug", (q) => q.eq("slug", args.category))
+        .unique()
+    : undefined;
+  if (category === null) {
+    return { page: [], isDone: true, continueCursor: "" };
+  }
+
+  const text = args.query.trim();
+  if (!text && category) {
+    const links = await ctx.db
+      .query("businessCategories")
+      .withIndex("by_category", (q) => q.eq("categoryId", category._id))
+      .paginate(args.paginationOpts);
+    const businesses = await Promise.all(links.page.map((link) => ctx.db.get(link.businessId)));
+    return {
+      ...links,
+      page: businesses.filter(
+        (business): business is Doc<"businesses"> =>
+          business !== null &&
+          (args.locality === undefined || business.locality === args.locality),
+      ),
+    };
+  }
+  if (!text) {
+    return await ctx.db
+      .query("businesses")
+      .order("desc")
+      .filter((q) =>
+        args.locality === undefined ? true : q.eq(q.field("locality"), args.locality),
+      )
+      .paginate(args.paginationOpts);
+  }
+  return await ctx.db
+    .query("businesses")
+    .withSearchIndex("search_text", (q) => {
+      let search = q.search("searchText", text);
+      if (category) {
+        search = search.eq("primaryCategoryId", category._id);
+      }
+      if (args.locality !== undefined) {
+        search = search.eq("locality", args.locality);
+      }
+      return search;
+    })
+    .paginate(args.paginationOpts);
+}
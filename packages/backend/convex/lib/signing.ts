@@ -0,0 +1,40 @@
+// HMAC signatures for values handed out in links that must not be forged,
+// such as unsubscribe links. The key is `SIGNING_SECRET` on the deployment.
+
+async function signingKey() {
+  const secret = process.env.SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("SIGNING_SECRET is not set");
+  }
+  return await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+function toHex(bytes: ArrayBuffer) {
+  return Array.from(new Uint8Array(bytes), (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string) {
+  const pairs = /^(?:[0-9a-f]{2})+$/i.test(hex) ? hex.match(/../g)! : [];
+  return new Uint8Array(pairs.map((pair) => parseInt(pair, 16)));
+}
+
+export async function sign(value: string) {
+  const signature = await crypto.subtle.sign("HMAC", await signingKey(), new TextEncoder().encode(value));
+  return toHex(signature);
+}
+
+/** Checks `signature` against `value` in constant time. */
+export async function verifySignature(value: string, signature: string) {
+  return await crypto.subtle.verify(
+    "HMAC",
+    await signingKey(),
+    fromHex(signature),
+    new TextEncoder().encode(value),
+  );
+}
@@ -0,0 +1,62 @@
+import type { Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+
+/**
+ * The one slug format used everywhere: accents are folded to their base
+ * letter, `&` becomes "and", apostrophes are dropped and any other run of
+ * punctuation or whitespace becomes a single hyphen. Letters from other
+ * scripts are kept as-is.
+ *
+ *   slugify("Café & Crème")    // "cafe-and-creme"
+ *   slugify("Joe's  Bakery!")  // "joes-bakery"
+ */
+export function slugify(value: string) {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Whether `slug` is in use by a business other than `exceptId`, either as
+ * its current slug or as one it used to have.
+ */
+export async function isSlugTaken(
+  ctx: QueryCtx,
+  slug: string,
+  exceptId?: Id<"businesses">,
+) {
+  const current = await ctx.db
+    .query("businesses")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  if (current && current._id !== exceptId) {
+    return true;
+  }
+  const previous = await ctx.db
+    .query("slugHistory")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  return previous !== null && previous.businessId !== exceptId;
+}
+
+/**
+ * Returns a slug for `base` that no other business is using, appending
+ * `-2`, `-3`, ... until a free one is found.
+ */
+export async function generateUniqueSlug(
+  ctx: QueryCtx,
+  base: string,
+  exceptId?: Id<"businesses">,
+) {
+  const root = slugify(base) || "business";
+  let candidate = root;
+  for (let suffix = 2; await isSlugTaken(ctx, candidate, exceptId); suffix++) {
+    candidate = `${root}-${suffix}`;
+  }
+  return candidate;
+}
@@ -0,0 +1,12 @@
+// One-time tokens. Only the SHA-256 hash is stored, so a leaked table dump
+// can't be used to confirm anything.
+
+export function generateToken(bytes = 32) {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+export async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (value) => value.toString(16).padStart(2, "0")).join("");
+}
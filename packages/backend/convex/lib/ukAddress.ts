@@ -0,0 +1,96 @@
+// Free-text UK address parsing. Kept free of server imports so the web
+// forms can validate postcodes with the same rules.
+
+const POSTCODE = /^(GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})$/i;
+const POSTCODE_IN_TEXT = /\b(GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})\b/i;
+const STREET = /^(\d+[A-Z]?(?:\s*[-–]\s*\d+[A-Z]?)?),?\s+(.+)$/i;
+
+export type ParsedAddress = {
+  streetNumber?: string;
+  streetName?: string;
+  TownOrCity?: string;
+  Locality?: string;
+  Postcode?: string;
+  combinedAddress: string;
+};
+
+export function isValidPostcode(value: string) {
+  return POSTCODE.test(value.trim());
+}
+
+/**
+ * Upper-cases a postcode and puts the single space before the inward code,
+ * e.g. "sw1a1aa" becomes "SW1A 1AA". Returns undefined if it isn't valid.
+ */
+export function formatPostcode(value: string) {
+  if (!isValidPostcode(value)) {
+    return undefined;
+  }
+  const compact = value.replace(/\s+/g, "").toUpperCase();
+  return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+}
+
+/** The outward code ("SW1A" of "SW1A 1AA"), used for area lookups. */
+export function outwardCode(postcode: string) {
+  return formatPostcode(postcode)?.split(" ")[0];
+}
+
+export function findPostcode(text: string) {
+  const match = text.match(POSTCODE_IN_TEXT);
+  return match ? formatPostcode(match[1]) : undefined;
+}
+
+function titleCase(value: string) {
+  return value.replace(/\S+/g, (word) =>
+    word === word.toUpperCase() || word === word.toLowerCase()
+      ? word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+      : word,
+  );
+}
+
+/**
+ * Splits a free-text address on commas and new lines into the fields of the
+ * `addresses` table. The postcode can appear anywhere; the first part that
+ * starts with a number is the street, the last remaining part is the town
+ * and anything between them is the locality.
+ *
+ *   parseAddress("12 High Street, Headingley, Leeds ls6 2ab")
+ *   // { streetNumber: "12", streetName: "High Street", Locality: "Headingley",
+ *   //   TownOrCity: "Leeds", Postcode: "LS6 2AB", combinedAddress: "..." }
+ */
+export function parseAddress(text: string): ParsedAddress {
+  const postcode = findPostcode(text);
+  const parts = text
+    .split(/[,\n]+/)
+    .map((part) =>
+      (postcode ? part.replace(POSTCODE_IN_TEXT, "") : part).replace(/\s+/g, " ").trim(),
+    )
+    .filter((part) => part.length > 0 && part.toLowerCase() !== "uk" && part.toLowerCase() !== "united kingdom");
+
+  const result: ParsedAddress = { Postcode: postcode, combinedAddress: "" };
+
+  const streetIndex = parts.findIndex((part) => STREET.test(part));
+  const afterStreet = streetIndex === -1 ? parts.slice(1) : parts.slice(streetIndex + 1);
+  if (streetIndex !== -1) {
+    const [, number, name] = parts[streetIndex].match(STREET)!;
+    result.streetNumber = number.replace(/\s+/g, "").toUpperCase();
+    result.streetName = titleCase(name);
+  } else if (parts.length > 1) {
+    result.streetName = titleCase(parts[0]);
+  }
+
+  if (afterStreet.length > 0) {
+    result.TownOrCity = titleCase(afterStreet[afterStreet.length - 1]);
+  }
+  if (afterStreet.length > 1) {
+    result.Locality = titleCase(afterStreet[afterStreet.length - 2]);
+  }
+  if (parts.length === 1 && streetIndex === -1) {
+    result.TownOrCity = titleCase(parts[0]);
+  }
+
+  result.combinedAddress = [...parts, postcode]
+    .filter((part): part is string => Boolean(part))
+    .join(", ");
+  return result;
+}
@@ -0,0 +1,58 @@
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+
+// Each confirmed referral moves its referrer ahead as if they had joined
+// this much earlier.
+export const REFERRAL_BOOST_MS = 7 * 24 * 60 * 60 * 1000;
+
+// No 0/O or 1/I, so codes survive being read out or retyped.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** A short, unused referral code. Codes are public, so they needn't be secret. */
+export async function generateReferralCode(ctx: QueryCtx, length = 8) {
+  for (;;) {
+    const code = Array.from(
+      { length },
+      () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)],
+    ).join("");
+    const taken = await ctx.db
+      .query("waitlist")
+      .withIndex("by_referralCode", (q) => q.eq("referralCode", code))
+      .first();
+    if (!taken) {
+      return code;
+    }
+  }
+}
+
+/** Credits a referrer once someone they referred confirms. */
+export async function creditReferral(ctx: MutationCtx, entry: Doc<"waitlist">) {
+  const referrer = entry.referredBy ? await ctx.db.get(entry.referredBy) : null;
+  if (!referrer) {
+    return;
+  }
+  await ctx.db.patch(referrer._id, {
+    referralCount: (referrer.referralCount ?? 0) + 1,
+    queueScore: (referrer.queueScore ?? referrer._creationTime) - REFERRAL_BOOST_MS,
+  });
+}
+
+/**
+ * An entry's 1-based place among confirmed entries, and how many there are.
+ * Both are counted by walking the status index, which is fine at waitlist
+ * sizes.
+ */
+export async function waitlistPosition(ctx: QueryCtx, entry: Doc<"waitlist">) {
+  const score = entry.queueScore ?? entry._creationTime;
+  const [ahead, confirmed] = await Promise.all([
+    ctx.db
+      .query("waitlist")
+      .withIndex("by_status_and_queueScore", (q) => q.eq("status", "confirmed").lt("queueScore", score))
+      .collect(),
+    ctx.db
+      .query("waitlist")
+      .withIndex("by_status_and_queueScore", (q) => q.eq("status", "confirmed"))
+      .collect(),
+  ]);
+  return { position: ahead.length + 1, total: confirmed.length };
+}
@@ -0,0 +1,133 @@
+import type { Infer } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { webhookEvent } from "../schema";
+import { hasSlug, toApiBusiness } from "./publicApi";
+
+// Outbound webhooks. Each event becomes one `webhookDeliveries` row per
+// subscribed endpoint, posted by `webhooks:deliver` and retried with
+// exponential backoff until it succeeds or runs out of attempts.
+//
+// Requests are JSON `{ type, createdAt, data }` with headers:
+//   X-Webhook-Event      the event type
+//   X-Webhook-Delivery   an ID that stays the same across retries and replays
+//   X-Webhook-Signature  `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+// signed with the subscription's secret.
+
+export type WebhookEvent = Infer<typeof webhookEvent>;
+
+export const WEBHOOK_EVENTS = [
+  "business.created",
+  "business.updated",
+  "submission.received",
+  "submission.approved",
+] as const satisfies readonly WebhookEvent[];
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const FIRST_RETRY_MS = 30 * 1000;
+
+/** How long to wait after `attempts` failed tries: 30s, 2m, 8m, 32m, ~2h. */
+export function retryDelayMs(attempts: number) {
+  return FIRST_RETRY_MS * 4 ** (attempts - 1);
+}
+
+function toHex(bytes: ArrayBuffer) {
+  return Array.from(new Uint8Array(bytes), (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+/** The `X-Webhook-Signature` header for `body` sent at `timestamp` (seconds). */
+export async function webhookSignature(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+/**
+ * Queues `event` for every active subscription that wants it. `data` is
+ * only built when someone is listening.
+ */
+export async function emitWebhookEvent(
+  ctx: MutationCtx,
+  event: WebhookEvent,
+  data: () => Promise<unknown>,
+) {
+  const subscriptions = (await ctx.db.query("webhookSubscriptions").collect()).filter(
+    (subscription) => subscription.active && subscription.events.includes(event),
+  );
+  if (subscriptions.length === 0) {
+    return;
+  }
+  const now = new Date().toISOString();
+  const payload = JSON.stringify({ type: event, createdAt: now, data: await data() });
+  for (const subscription of subscriptions) {
+    await queueDelivery(ctx, subscription._id, event, payload);
+  }
+}
+
+export async function queueDelivery(
+  ctx: MutationCtx,
+  subscriptionId: Id<"webhookSubscriptions">,
+  event: WebhookEvent,
+  payload: string,
+  replayOf?: Id<"webhookDeliveries">,
+) {
+  const id = await ctx.db.insert("webhookDeliveries", {
+    subscriptionId,
+    event,
+    payload,
+    status: "pending",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    replayOf,
+  });
+  await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { id });
+  return id;
+}
+
+/** Sends `event` with the business in its public API shape. */
+export async function emitBusinessEvent(
+  ctx: MutationCtx,
+  event: "business.created" | "business.updated",
+  id: Id<"businesses">,
+) {
+  await emitWebhookEvent(ctx, event, async () => {
+    const business = await ctx.db.get(id);
+    return hasSlug(business) ? await toApiBusiness(ctx, business) : null;
+  });
+}
+
+/** Sends `event` with the parts of a submission partners may see. */
+export async function emitSubmissionEvent(
+  ctx: MutationCtx,
+  event: "submission.received" | "submission.approved",
+  id: Id<"submittedBusinesses">,
+) {
+  await emitWebhookEvent(ctx, event, async () => {
+    const submission = await ctx.db.get(id);
+    if (!submission) {
+      return null;
+    }
+    const business = submission.businessId ? await ctx.db.get(submission.businessId) : null;
+    return submissionData(submission, business?.slug);
+  });
+}
+
+function submissionData(submission: Doc<"submittedBusinesses">, businessSlug: string | undefined) {
+  return {
+    id: submission._id,
+    name: submission.name,
+    description: submission.description ?? null,
+    status: submission.status ?? "pending",
+    submittedAt: submission.submittedAt ?? new Date(submission._creationTime).toISOString(),
+    // The listing it became, once approved.
+    business: businessSlug ?? null,
+  };
+}
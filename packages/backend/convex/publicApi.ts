@@ -0,0 +1,76 @@
+import { internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import {
+  hasSlug,
+  rethrowCursorError,
+  toApiBusiness,
+  toApiCategory,
+  type ApiBusiness,
+  type ApiCategory,
+  type ApiList,
+} from "./lib/publicApi";
+import { searchBusinessPage } from "./lib/search";
+
+// Read models behind the /api/v1 routes in http.ts.
+
+export const listBusinesses = internalQuery({
+  args: {
+    query: v.optional(v.string()),
+    category: v.optional(v.string()),
+    locality: v.optional(v.string()),
+    cursor: v.union(v.string(), v.null()),
+    limit: v.number(),
+  },
+  handler: async (ctx, args): Promise<ApiList<ApiBusiness>> => {
+    const result = await searchBusinessPage(ctx, {
+      query: args.query ?? "",
+      category: args.category,
+      locality: args.locality,
+      paginationOpts: { cursor: args.cursor, numItems: args.limit },
+    }).catch(rethrowCursorError);
+    return {
+      data: await Promise.all(result.page.filter(hasSlug).map((business) => toApiBusiness(ctx, business))),
+      nextCursor: result.isDone ? null : result.continueCursor,
+    };
+  },
+});
+
+/**
+ * A business by slug. Old slugs come back with the current one in
+ * `redirectTo` instead, so the API can send partners to the canonical URL.
+ */
+export const getBusiness = internalQuery({
+  args: {
+    slug: v.string(),
+  },
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ business: ApiBusiness; redirectTo: null } | { business: null; redirectTo: string } | null> => {
+    const business = await ctx.db
+      .query("businesses")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+    if (hasSlug(business)) {
+      return { business: await toApiBusiness(ctx, business), redirectTo: null };
+    }
+    const previous = await ctx.db
+      .query("slugHistory")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+    const renamed = previous && (await ctx.db.get(previous.businessId));
+    return renamed?.slug ? { business: null, redirectTo: renamed.slug } : null;
+  },
+});
+
+export const listCategories = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<ApiList<ApiCategory>> => {
+    const categories = await ctx.db.query("categories").collect();
+    const sorted = categories.filter(hasSlug).sort((a, b) => a.name.localeCompare(b.name));
+    return {
+      data: await Promise.all(sorted.map((category) => toApiCategory(ctx, category))),
+      nextCursor: null,
+    };
+  },
+});
@@ -0,0 +1,23 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { RATE_LIMIT_IDLE_MS } from "./lib/rateLimit";
+
+/**
+ * Deletes buckets that have been idle long enough to be full again, 100 at
+ * a time. Run daily from `crons.ts`.
+ */
+export const pruneRateLimits = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const stale = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_refilledAt", (q) => q.lt("refilledAt", Date.now() - RATE_LIMIT_IDLE_MS))
+      .take(100);
+    for (const bucket of stale) {
+      await ctx.db.delete(bucket._id);
+    }
+    if (stale.length === 100) {
+      await ctx.scheduler.runAfter(0, internal.rateLimits.pruneRateLimits, {});
+    }
+  },
+});
@@ -0,0 +1,206 @@
+import { internalMutation, query, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import type { Doc } from "./_generated/dataModel";
+import { withAudit } from "./lib/audit";
+import { adminMutation, adminQuery, getCurrentUser, memberMutation } from "./lib/auth";
+import { assertValidStars, ratingContribution, updateRating } from "./lib/reviews";
+
+async function withAuthors(ctx: QueryCtx, reviews: Doc<"reviews">[]) {
+  return await Promise.all(
+    reviews.map(async (review) => {
+      const author = await ctx.db.get(review.userId);
+      return {
+        ...review,
+        authorName: author?.fullname ?? author?.username ?? "Anonymous",
+      };
+    }),
+  );
+}
+
+export const getRating = query({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const business = await ctx.db.get(args.businessId);
+    return {
+      rating: business?.rating ?? null,
+      reviewCount: business?.reviewCount ?? 0,
+    };
+  },
+});
+
+/** Visible reviews for a business, newest first. */
+export const getReviews = query({
+  args: {
+    businessId: v.id("businesses"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("reviews")
+      .withIndex("by_business_and_hidden", (q) =>
+        q.eq("businessId", args.businessId).eq("hidden", false),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return { ...page, page: await withAuthors(ctx, page.page) };
+  },
+});
+
+/** Every review for a business, hidden ones included, for moderation. */
+export const getAllReviews = adminQuery({
+  args: {
+    businessId: v.id("businesses"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("reviews")
+      .withIndex("by_business_and_user", (q) => q.eq("businessId", args.businessId))
+      .paginate(args.paginationOpts);
+    return { ...page, page: await withAuthors(ctx, page.page) };
+  },
+});
+
+/** The signed-in user's review of a business, or null. */
+export const getMyReview = query({
+  args: {
+    businessId: v.id("businesses"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+    return await ctx.db
+      .query("reviews")
+      .withIndex("by_business_and_user", (q) =>
+        q.eq("businessId", args.businessId).eq("userId", user._id),
+      )
+      .unique();
+  },
+});
+
+/**
+ * Creates or edits the signed-in user's review. Each user has at most one
+ * review per business, so submitting again replaces it.
+ */
+export const saveReview = memberMutation({
+  args: {
+    businessId: v.id("businesses"),
+    stars: v.number(),
+    text: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    assertValidStars(args.stars);
+    if (!(await ctx.db.get(args.businessId))) {
+      throw new Error("Business not found");
+    }
+    const text = args.text?.trim() || undefined;
+    if (text && text.length > 2000) {
+      throw new Error("Reviews cannot be longer than 2000 characters");
+    }
+    const now = new Date().toISOString();
+    const existing = await ctx.db
+      .query("reviews")
+      .withIndex("by_business_and_user", (q) =>
+        q.eq("businessId", args.businessId).eq("userId", ctx.user._id),
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { stars: args.stars, text, updatedAt: now });
+      await updateRating(ctx, args.businessId, existing, { ...existing, stars: args.stars });
+      return existing._id;
+    }
+    const review = {
+      businessId: args.businessId,
+      userId: ctx.user._id,
+      stars: args.stars,
+      text,
+      hidden: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const id = await ctx.db.insert("reviews", review);
+    await updateRating(ctx, args.businessId, null, review);
+    return id;
+  },
+});
+
+export const deleteReview = memberMutation({
+  args: {
+    id: v.id("reviews"),
+  },
+  handler: async (ctx, args) => {
+    const review = await ctx.db.get(args.id);
+    if (!review) {
+      throw new Error("Review not found");
+    }
+    if (review.userId !== ctx.user._id) {
+      throw new Error("You can only delete your own review");
+    }
+    await ctx.db.delete(args.id);
+    await updateRating(ctx, review.businessId, review, null);
+  },
+});
+
+export const setReviewHidden = adminMutation({
+  args: {
+    id: v.id("reviews"),
+    hidden: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const review = await ctx.db.get(args.id);
+    if (!review) {
+      throw new Error("Review not found");
+    }
+    if (review.hidden === args.hidden) {
+      return;
+    }
+    await withAudit(ctx, "reviews:setReviewHidden", "reviews", args.id, () =>
+      ctx.db.patch(args.id, {
+        hidden: args.hidden,
+        hiddenBy: args.hidden ? ctx.user.clerkId : undefined,
+      }),
+    );
+    await updateRating(ctx, review.businessId, review, { ...review, hidden: args.hidden });
+  },
+});
+
+/**
+ * Recomputes every business's rating from its reviews, replacing the old
+ * hand-entered ratings. Run with `npx convex run reviews:backfillRatings`.
+ */
+export const backfillRatings = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("businesses")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const business of page.page) {
+      const reviews = await ctx.db
+        .query("reviews")
+        .withIndex("by_business_and_hidden", (q) =>
+          q.eq("businessId", business._id).eq("hidden", false),
+        )
+        .collect();
+      const ratingTotal = reviews.reduce((total, review) => total + ratingContribution(review).stars, 0);
+      await ctx.db.patch(business._id, {
+        reviewCount: reviews.length,
+        ratingTotal,
+        rating: reviews.length > 0 ? ratingTotal / reviews.length : undefined,
+      });
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.reviews.backfillRatings, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -1,39 +1,214 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const userRole = v.union(
+  v.literal("admin"),
+  v.literal("moderator"),
+  v.literal("owner"),
+  v.literal("member"),
+);
+
+export const submissionStatus = v.union(
+  v.literal("pending"),
+  v.literal("approved"),
+  v.literal("rejected"),
+  v.literal("needs-info"),
+);
+
+const timeRange = v.object({
+  open: v.string(),
+  close: v.string(),
+});
+
+// Mirrors the OpeningHours type in lib/hours.ts.
+export const openingHours = v.object({
+  timezone: v.string(),
+  weekly: v.object({
+    mon: v.array(timeRange),
+    tue: v.array(timeRange),
+    wed: v.array(timeRange),
+    thu: v.array(timeRange),
+    fri: v.array(timeRange),
+    sat: v.array(timeRange),
+    sun: v.array(timeRange),
+  }),
+  exceptions: v.array(
+    v.object({
+      date: v.string(),
+      ranges: v.array(timeRange),
+      note: v.optional(v.string()),
+    }),
+  ),
+});
+
+export const claimStatus = v.union(
+  v.literal("pending"),
+  v.literal("verified"),
+  v.literal("revoked"),
+);
+
+export const waitlistStatus = v.union(
+  v.literal("unconfirmed"),
+  v.literal("confirmed"),
+  v.literal("unsubscribed"),
+);
+
+export const apiKeyScope = v.union(
+  v.literal("read:businesses"),
+  v.literal("write:submissions"),
+);
+
+// How close an address's coordinates are likely to be: entered by hand, the
+// centroid of its district (the outward code, e.g. "LS6") or only of its
+// area (e.g. "LS"), which can be tens of km out.
+export const coordinatePrecision = v.union(
+  v.literal("exact"),
+  v.literal("district"),
+  v.literal("area"),
+);
+
+export const webhookEvent = v.union(
+  v.literal("business.created"),
+  v.literal("business.updated"),
+  v.literal("submission.received"),
+  v.literal("submission.approved"),
+);
+
+export const webhookDeliveryStatus = v.union(
+  v.literal("pending"),
+  v.literal("succeeded"),
+  v.literal("failed"),
+);
+
+export const emailTemplate = v.union(
+  v.literal("submissionReceived"),
+  v.literal("submissionApproved"),
+  v.literal("submissionRejected"),
+  v.literal("claimVerification"),
+  v.literal("waitlistConfirmation"),
+);
+
+export const emailStatus = v.union(
+  v.literal("pending"),
+  v.literal("sent"),
+  v.literal("failed"),
+  // Nothing left to send, e.g. the claim was revoked before its email went out.
+  v.literal("skipped"),
+);
+
+// The editable fields of a business, as stored in businessVersions.
+// Derived fields (search, ratings, the parsed address) and ownership are
+// left out: they are rebuilt or managed elsewhere and must not be rolled back.
+export const businessSnapshot = v.object({
+  name: v.string(),
+  slug: v.optional(v.string()),
+  description: v.optional(v.string()),
+  email: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  website: v.optional(v.string()),
+  address: v.optional(v.string()),
+  openingTime: v.optional(v.string()),
+  closingTime: v.optional(v.string()),
+  openingHours: v.optional(openingHours),
+  imageId: v.optional(v.id("_storage")),
+});
+
+// One field of an audited document; a missing side means the field was
+// added or removed. See lib/audit.ts.
+export const auditChange = v.object({
+  field: v.string(),
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+});
+
 export default defineSchema({
   businesses: defineTable({
+    // Legacy free-form category names; businessCategories is the source of truth.
     categories: v.optional(v.array(v.string())),
     createdAt: v.optional(v.string()),
     description: v.optional(v.string()),
     email: v.optional(v.string()),
+    // Legacy image URL; imageId points at an uploaded file instead.
     image: v.optional(v.string()),
+    imageId: v.optional(v.id("_storage")),
     address: v.optional(v.string()),
 	addressId: v.optional(v.string()),
     name: v.string(),
 	slug: v.optional(v.string()),
+	// Legacy single daily hours; openingHours is the source of truth.
 	openingTime: v.optional(v.string()),
 	closingTime: v.optional(v.string()),
+    openingHours: v.optional(openingHours),
     phone: v.optional(v.string()),
+    // Average of visible review stars; maintained by lib/reviews.ts.
     rating: v.optional(v.float64()),
+    reviewCount: v.optional(v.number()),
+    ratingTotal: v.optional(v.number()),
     updatedAt: v.optional(v.string()),
     website: v.optional(v.string()),
-	
-  }),
+    // Denormalised for the search index; maintained by lib/search.ts.
+    searchText: v.optional(v.string()),
+    primaryCategoryId: v.optional(v.id("categories")),
+    locality: v.optional(v.string()),
+    // Set when a claim is verified; see claims.ts.
+    ownerId: v.optional(v.id("users")),
+  })
+    .index("by_slug", ["slug"])
+    .index("by_name", ["name"])
+    .index("by_addressId", ["addressId"])
+    .index("by_owner", ["ownerId"])
+    .index("by_imageId", ["imageId"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["primaryCategoryId", "locality"],
+    }),
+  // Slugs a business used to have, kept so old URLs can redirect.
+  slugHistory: defineTable({
+    businessId: v.id("businesses"),
+    slug: v.string(),
+    createdAt: v.string(),
+  })
+    .index("by_slug", ["slug"])
+    .index("by_business", ["businessId"]),
   categories: defineTable({
     createdAt: v.optional(v.string()),
+    // Legacy image URL; imageId points at an uploaded file instead.
     image: v.optional(v.string()),
+    imageId: v.optional(v.id("_storage")),
     name: v.string(),
 	  description: v.optional(v.string()),
     updatedAt: v.optional(v.string()),
-  }),
+    slug: v.optional(v.string()),
+    parentId: v.optional(v.id("categories")),
+  })
+    .index("by_slug", ["slug"])
+    .index("by_name", ["name"])
+    .index("by_parent", ["parentId"])
+    .index("by_imageId", ["imageId"]),
+  businessCategories: defineTable({
+    businessId: v.id("businesses"),
+    categoryId: v.id("categories"),
+  })
+    .index("by_business", ["businessId", "categoryId"])
+    .index("by_category", ["categoryId", "businessId"]),
   users: defineTable({
 	  clerkId:v.string(),
 	  username: v.optional(v.string()),
+    // Still any string: rows from before roles were checked may hold values
+    // other than `userRole`. Narrow it once `user:backfillRoles` has run.
     role: v.optional(v.string()),
     status: v.optional(v.string()),
 	  fullname: v.optional(v.string()),
-  }),
+    // Clerk's `updated_at` (ms) for the last event applied, so an older event
+    // delivered late doesn't overwrite a newer one.
+    clerkUpdatedAt: v.optional(v.number()),
+  }).index("by_clerkId", ["clerkId"]),
+  // Clerk users we have deleted. Clerk never reuses IDs, so any later
+  // `user.created` or `user.updated` for one is a late delivery and ignored.
+  deletedUsers: defineTable({
+    clerkId: v.string(),
+    deletedAt: v.string(),
+  }).index("by_clerkId", ["clerkId"]),
   addresses: defineTable({
     streetNumber: v.optional(v.string()),
     streetName: v.optional(v.string()),
@@ -41,20 +216,219 @@ export default defineSchema({
     Locality: v.optional(v.string()),
     Postcode: v.optional(v.string()),
     combinedAddress: v.optional(v.string()),
-  }),
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+    // Grid bucket from lib/geo.ts, for nearby lookups.
+    geoCell: v.optional(v.string()),
+    coordinateSource: v.optional(v.union(v.literal("postcode"), v.literal("manual"))),
+    coordinatePrecision: v.optional(coordinatePrecision),
+  })
+    .index("by_postcode", ["Postcode"])
+    .index("by_geoCell", ["geoCell"]),
   submittedBusinesses: defineTable({
     name: v.string(),
     description: v.optional(v.string()),
     email: v.string(),
     openingTime: v.optional(v.string()),
     closingTime: v.optional(v.string()),
+    openingHours: v.optional(openingHours),
+    imageId: v.optional(v.id("_storage")),
     address: v.optional(v.string()),
+    addressId: v.optional(v.id("addresses")),
     phone: v.optional(v.string()),
     website: v.optional(v.string()),
+    // Set when `email` was the signed-in submitter's own verified address;
+    // only then is it mailed about the submission.
+    emailVerified: v.optional(v.boolean()),
+    // How much it looked like a listed business or another submission when
+    // it came in, from 0 to 1; see lib/duplicates.ts.
+    duplicateScore: v.optional(v.number()),
+    // Submissions made before the review queue existed have no status and
+    // are treated as pending.
+    status: v.optional(submissionStatus),
+    submittedAt: v.optional(v.string()),
+    reviewedBy: v.optional(v.string()),
+    reviewedAt: v.optional(v.string()),
+    reviewReason: v.optional(v.string()),
+    businessId: v.optional(v.id("businesses")),
+  })
+    .index("by_status", ["status"])
+    .index("by_status_and_duplicateScore", ["status", "duplicateScore"])
+    .index("by_imageId", ["imageId"]),
+  reviews: defineTable({
+    businessId: v.id("businesses"),
+    userId: v.id("users"),
+    stars: v.number(),
+    text: v.optional(v.string()),
+    // Hidden by an admin; left out of listings and the business rating.
+    hidden: v.boolean(),
+    hiddenBy: v.optional(v.string()),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+    .index("by_business_and_user", ["businessId", "userId"])
+    .index("by_business_and_hidden", ["businessId", "hidden"]),
+  claims: defineTable({
+    businessId: v.id("businesses"),
+    userId: v.id("users"),
+    // The business email the verification link was sent to.
+    email: v.string(),
+    status: claimStatus,
+    tokenHash: v.optional(v.string()),
+    expiresAt: v.optional(v.string()),
+    createdAt: v.string(),
+    verifiedAt: v.optional(v.string()),
+    revokedAt: v.optional(v.string()),
+    revokedBy: v.optional(v.string()),
+  })
+    .index("by_tokenHash", ["tokenHash"])
+    .index("by_business", ["businessId"])
+    .index("by_user", ["userId"])
+    .index("by_status", ["status"]),
+  // Immutable snapshots of every edit to a business; see lib/businessVersions.ts.
+  businessVersions: defineTable({
+    businessId: v.id("businesses"),
+    version: v.number(),
+    snapshot: businessSnapshot,
+    actorId: v.optional(v.string()),
+    actorName: v.optional(v.string()),
+    createdAt: v.string(),
+    // Set when this version was made by restoring an earlier one.
+    restoredFrom: v.optional(v.number()),
+  })
+    .index("by_business_and_version", ["businessId", "version"])
+    .index("by_imageId", ["snapshot.imageId"]),
+  auditLog: defineTable({
+    // Clerk ID of whoever made the change; unset for internal or anonymous calls.
+    actorId: v.optional(v.string()),
+    actorName: v.optional(v.string()),
+    action: v.string(),
+    table: v.string(),
+    targetId: v.string(),
+    changes: v.array(auditChange),
+    createdAt: v.string(),
+  })
+    .index("by_actor", ["actorId"])
+    .index("by_action", ["action"])
+    .index("by_table", ["table"])
+    .index("by_target", ["targetId"]),
+  // Keys for the public /api/v1 routes; see lib/apiKeys.ts.
+  apiKeys: defineTable({
+    name: v.string(),
+    ownerId: v.id("users"),
+    // The start of the key, shown so admins can tell keys apart.
+    prefix: v.string(),
+    secretHash: v.string(),
+    scopes: v.array(apiKeyScope),
+    createdAt: v.string(),
+    createdBy: v.string(),
+    lastUsedAt: v.optional(v.string()),
+    revokedAt: v.optional(v.string()),
+    revokedBy: v.optional(v.string()),
+    // Set on the key that replaced `rotatedFrom` when it was rotated.
+    rotatedFrom: v.optional(v.id("apiKeys")),
+  })
+    .index("by_secretHash", ["secretHash"])
+    .index("by_owner", ["ownerId"]),
+  // Requests per key per day, split over a few rows per day (see
+  // `API_USAGE_SHARDS`) so concurrent requests don't all write the same one.
+  apiKeyUsage: defineTable({
+    keyId: v.id("apiKeys"),
+    day: v.string(),
+    // Rows from before sharding have no shard.
+    shard: v.optional(v.number()),
+    count: v.number(),
+  }).index("by_key_and_day", ["keyId", "day", "shard"]),
+  // Partner endpoints notified of listing changes; see lib/webhooks.ts.
+  webhookSubscriptions: defineTable({
+    url: v.string(),
+    // Kept readable: every delivery is signed with it.
+    secret: v.string(),
+    events: v.array(webhookEvent),
+    active: v.boolean(),
+    description: v.optional(v.string()),
+    createdAt: v.string(),
+    createdBy: v.string(),
   }),
+  webhookDeliveries: defineTable({
+    subscriptionId: v.id("webhookSubscriptions"),
+    event: webhookEvent,
+    // The JSON body, fixed when the event happened so retries send the same thing.
+    payload: v.string(),
+    status: webhookDeliveryStatus,
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.string()),
+    lastAttemptAt: v.optional(v.string()),
+    lastStatusCode: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    createdAt: v.string(),
+    // Set on deliveries an admin replayed from an earlier one.
+    replayOf: v.optional(v.id("webhookDeliveries")),
+  })
+    .index("by_subscription", ["subscriptionId"])
+    .index("by_status", ["status"]),
+  // Transactional mail, sent by `emailSender:send`; see lib/emails.ts.
+  emailOutbox: defineTable({
+    to: v.string(),
+    template: emailTemplate,
+    // The template's data as queued; see `OutboxData`.
+    data: v.any(),
+    status: emailStatus,
+    attempts: v.number(),
+    // The subject as last rendered, for the log.
+    subject: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.string()),
+    lastAttemptAt: v.optional(v.string()),
+    lastError: v.optional(v.string()),
+    sentAt: v.optional(v.string()),
+    createdAt: v.string(),
+  }).index("by_status", ["status"]),
+  // Public form posts turned away by the bot check in `lib/botCheck`.
+  botRejections: defineTable({
+    form: v.string(),
+    reason: v.string(),
+    ip: v.optional(v.string()),
+    userAgent: v.optional(v.string()),
+    createdAt: v.string(),
+  }).index("by_form", ["form"]),
+  // Form token nonces that `lib/botCheck` has accepted, so each token only
+  // works once. Kept until the token would have expired anyway.
+  formNonces: defineTable({
+    nonce: v.string(),
+    // Milliseconds since the epoch, like `rateLimits.refilledAt`.
+    expiresAt: v.number(),
+  })
+    .index("by_nonce", ["nonce"])
+    .index("by_expiresAt", ["expiresAt"]),
+  // Token buckets for `lib/rateLimit`, one per limit and caller key.
+  rateLimits: defineTable({
+    name: v.string(),
+    key: v.string(),
+    tokens: v.number(),
+    // Milliseconds since the epoch, as the bucket maths works in them.
+    refilledAt: v.number(),
+  })
+    .index("by_name_and_key", ["name", "key"])
+    .index("by_refilledAt", ["refilledAt"]),
   waitlist: defineTable({
     email: v.string(),
     name: v.optional(v.string()),
     phone: v.optional(v.string()),
-  }).index("by_email", ["email"]),
+    // Entries from before double opt-in have no status until
+    // `waitlist:backfillWaitlist` marks them confirmed.
+    status: v.optional(waitlistStatus),
+    confirmTokenHash: v.optional(v.string()),
+    confirmedAt: v.optional(v.string()),
+    unsubscribedAt: v.optional(v.string()),
+    joinedAt: v.optional(v.string()),
+    referralCode: v.optional(v.string()),
+    referredBy: v.optional(v.id("waitlist")),
+    referralCount: v.optional(v.number()),
+    // Lower is nearer the front; confirmed referrals lower it. See lib/waitlist.ts.
+    queueScore: v.optional(v.number()),
+  })
+    .index("by_email", ["email"])
+    .index("by_confirmTokenHash", ["confirmTokenHash"])
+    .index("by_referralCode", ["referralCode"])
+    .index("by_status_and_queueScore", ["status", "queueScore"]),
 });
\ No newline at end of file
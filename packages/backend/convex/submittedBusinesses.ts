@@ -1,27 +1,292 @@
-import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { internalMutation, mutation, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v, type Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { openingHours, submissionStatus } from "./schema";
+import { createBusiness } from "./lib/businesses";
+import { createAddress } from "./lib/addresses";
+import { findDuplicates } from "./lib/duplicates";
+import { queueEmail } from "./lib/emails";
+import { hoursFromLegacy, openingHoursErrors } from "./lib/hours";
+import { assertValidImage, replaceImage } from "./lib/images";
+import { siteUrl } from "./lib/mail";
+import { recordAudit, withAudit } from "./lib/audit";
+import { moderatorMutation, moderatorQuery } from "./lib/auth";
+import { botCheck, checkBot } from "./lib/botCheck";
+import { rateLimit, rateLimitKeys, signedIp, verifiedIp } from "./lib/rateLimit";
+import { emitSubmissionEvent } from "./lib/webhooks";
 
-export const getSubmittedBusinesses = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db.query("submittedBusinesses").collect();
+/**
+ * Submissions, newest first, a page at a time, optionally with one status.
+ * With a status, `likelyDuplicatesFirst` orders them by `duplicateScore`
+ * instead. Legacy submissions without a status only show up unfiltered
+ * until `backfillSubmissionStatus` has run.
+ */
+export const getSubmittedBusinesses = moderatorQuery({
+  args: {
+    status: v.optional(submissionStatus),
+    likelyDuplicatesFirst: v.optional(v.boolean()),
+    paginationOpts: paginationOptsValidator,
   },
+  handler: async (ctx, args) => {
+    const { status } = args;
+    const submissions = !status
+      ? ctx.db.query("submittedBusinesses")
+      : args.likelyDuplicatesFirst
+        ? ctx.db
+            .query("submittedBusinesses")
+            .withIndex("by_status_and_duplicateScore", (q) => q.eq("status", status))
+        : ctx.db.query("submittedBusinesses").withIndex("by_status", (q) => q.eq("status", status));
+    return await submissions.order("desc").paginate(args.paginationOpts);
+  },
+});
+
+const submittedBusiness = v.object({
+  name: v.string(),
+  email: v.string(),
+  description: v.string(),
+  address: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  openingTime: v.optional(v.string()),
+  closingTime: v.optional(v.string()),
+  openingHours: v.optional(openingHours),
+  website: v.optional(v.string()),
+  imageId: v.optional(v.id("_storage")),
 });
 
+async function submitBusiness(ctx: MutationCtx, business: Infer<typeof submittedBusiness>) {
+  if (business.imageId) {
+    await assertValidImage(ctx, business.imageId);
+  }
+  if (business.openingHours) {
+    const errors = openingHoursErrors(business.openingHours);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+  }
+  const address = business.address?.trim();
+  const emailVerified = await isCallersVerifiedEmail(ctx, business.email);
+  // Scored once here so the queue can be sorted by it; the review page
+  // still shows the live matches.
+  const [closest] = await findDuplicates(
+    ctx,
+    { ...business, address },
+    { includeSubmissions: true, minScore: 0, limit: 1 },
+  );
+  const id = await ctx.db.insert("submittedBusinesses", {
+    ...business,
+    address: address || undefined,
+    addressId: address ? await createAddress(ctx, address) : undefined,
+    emailVerified,
+    duplicateScore: closest?.score ?? 0,
+    status: "pending",
+    submittedAt: new Date().toISOString(),
+  });
+  await recordAudit(ctx, "submittedBusinesses:addSubmittedBusiness", "submittedBusinesses", null, await ctx.db.get(id));
+  await emitSubmissionEvent(ctx, "submission.received", id);
+  if (emailVerified) {
+    await queueEmail(ctx, "submissionReceived", business.email, { businessName: business.name });
+  }
+  return id;
+}
+
+/**
+ * Whether `email` is the signed-in caller's own, verified address. Anyone
+ * can type any address into the form, so the receipt only goes out when it
+ * can't be used to mail a stranger; the same goes for the review outcome.
+ */
+async function isCallersVerifiedEmail(ctx: MutationCtx, email: string) {
+  const identity = await ctx.auth.getUserIdentity();
+  return Boolean(
+    identity?.email &&
+      identity.emailVerified &&
+      identity.email.trim().toLowerCase() === email.trim().toLowerCase(),
+  );
+}
+
+/**
+ * Submits a business from the public form. Rate limited per user, email
+ * and IP, and the post must pass the bot check in `lib/botCheck`; a
+ * rejected post comes back as `{ ok: false, reason }`.
+ */
 export const addSubmittedBusiness = mutation({
-    args: {
-        business: v.object({
-            name: v.string(),
-            email: v.string(),
-            description: v.string(),
-            address: v.optional(v.string()),
-            phone: v.optional(v.string()),
-            openingTime: v.optional(v.string()),
-            closingTime: v.optional(v.string()),
-            website: v.optional(v.string()),
-        }),
-    },
-    handler: async (ctx, args) => {
-        return await ctx.db.insert("submittedBusinesses", args.business);
-    },
+  args: {
+    business: submittedBusiness,
+    ip: v.optional(signedIp),
+    botCheck,
+  },
+  handler: async (ctx, args) => {
+    await rateLimit(
+      ctx,
+      "submittedBusinesses:addSubmittedBusiness",
+      await rateLimitKeys(ctx, { email: args.business.email, ip: args.ip }),
+    );
+    const rejected = await checkBot(ctx, "submit-business", args.botCheck, await verifiedIp(args.ip));
+    if (rejected) {
+      return { ok: false as const, reason: rejected };
+    }
+    return { ok: true as const, id: await submitBusiness(ctx, args.business) };
+  },
+});
+
+/**
+ * Submits a business through the public API. Its callers authenticate
+ * with an API key instead of a form token, so there's no bot check.
+ */
+export const addApiSubmission = internalMutation({
+  args: {
+    business: submittedBusiness,
+  },
+  handler: async (ctx, args) => {
+    await rateLimit(
+      ctx,
+      "submittedBusinesses:addSubmittedBusiness",
+      await rateLimitKeys(ctx, { email: args.business.email }),
+    );
+    return await submitBusiness(ctx, args.business);
+  },
+});
+
+async function loadReviewable(ctx: MutationCtx, id: Id<"submittedBusinesses">) {
+  const submission = await ctx.db.get(id);
+  if (!submission) {
+    throw new Error("Submission not found");
+  }
+  const status = submission.status ?? "pending";
+  if (status !== "pending" && status !== "needs-info") {
+    throw new Error(`Submission has already been ${status}`);
+  }
+  return submission;
+}
+
+function reviewFields(reviewer: string, reason: string | undefined) {
+  return {
+    reviewedBy: reviewer,
+    reviewedAt: new Date().toISOString(),
+    reviewReason: reason?.trim() || undefined,
+  } satisfies Partial<Doc<"submittedBusinesses">>;
+}
+
+export const approveSubmission = moderatorMutation({
+  args: {
+    id: v.id("submittedBusinesses"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const reviewer = ctx.user.clerkId;
+    const submission = await loadReviewable(ctx, args.id);
+    const addressId =
+      submission.addressId ??
+      (submission.address ? await createAddress(ctx, submission.address) : undefined);
+
+    const businessId = await createBusiness(ctx, {
+      name: submission.name.trim(),
+      description: submission.description,
+      email: submission.email,
+      address: submission.address,
+      addressId,
+      phone: submission.phone,
+      website: submission.website,
+      openingTime: submission.openingTime,
+      closingTime: submission.closingTime,
+      openingHours:
+        submission.openingHours ?? hoursFromLegacy(submission.openingTime, submission.closingTime),
+      imageId: submission.imageId,
+    });
+    const business = (await ctx.db.get(businessId))!;
+    await recordAudit(ctx, "submittedBusinesses:approveSubmission", "businesses", null, business);
+
+    await withAudit(ctx, "submittedBusinesses:approveSubmission", "submittedBusinesses", args.id, () =>
+      ctx.db.patch(args.id, {
+        status: "approved",
+        businessId,
+        ...reviewFields(reviewer, args.reason),
+      }),
+    );
+    await emitSubmissionEvent(ctx, "submission.approved", args.id);
+    if (submission.emailVerified) {
+      await queueEmail(ctx, "submissionApproved", submission.email, {
+        businessName: business.name,
+        link: siteUrl(`/businesses/${business.slug}`),
+      });
+    }
+    return businessId;
+  },
+});
+
+export const rejectSubmission = moderatorMutation({
+  args: {
+    id: v.id("submittedBusinesses"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const reviewer = ctx.user.clerkId;
+    const submission = await loadReviewable(ctx, args.id);
+    if (!args.reason.trim()) {
+      throw new Error("A reason is required to reject a submission");
+    }
+    await withAudit(ctx, "submittedBusinesses:rejectSubmission", "submittedBusinesses", args.id, () =>
+      ctx.db.patch(args.id, {
+        status: "rejected",
+        imageId: undefined,
+        ...reviewFields(reviewer, args.reason),
+      }),
+    );
+    // Rejected listings never go live, so their image isn't needed
+    await replaceImage(ctx, submission.imageId, undefined);
+    if (submission.emailVerified) {
+      await queueEmail(ctx, "submissionRejected", submission.email, {
+        businessName: submission.name,
+        reason: args.reason.trim(),
+      });
+    }
+  },
+});
+
+export const requestMoreInfo = moderatorMutation({
+  args: {
+    id: v.id("submittedBusinesses"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const reviewer = ctx.user.clerkId;
+    await loadReviewable(ctx, args.id);
+    if (!args.reason.trim()) {
+      throw new Error("Say what information is missing");
+    }
+    await withAudit(ctx, "submittedBusinesses:requestMoreInfo", "submittedBusinesses", args.id, () =>
+      ctx.db.patch(args.id, {
+        status: "needs-info",
+        ...reviewFields(reviewer, args.reason),
+      }),
+    );
+  },
+});
+
+/**
+ * Marks submissions made before the review queue existed as pending, so
+ * the status index finds them. Run with
+ * `npx convex run submittedBusinesses:backfillSubmissionStatus`.
+ */
+export const backfillSubmissionStatus = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("submittedBusinesses")
+      .withIndex("by_status", (q) => q.eq("status", undefined))
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const submission of page.page) {
+      await withAudit(ctx, "submittedBusinesses:backfillSubmissionStatus", "submittedBusinesses", submission._id, () =>
+        ctx.db.patch(submission._id, { status: "pending" }),
+      );
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.submittedBusinesses.backfillSubmissionStatus, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
 });
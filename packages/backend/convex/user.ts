@@ -1,9 +1,198 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { filter } from "convex-helpers/server/filter";
+import { userRole } from "./schema";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation, adminQuery, getCurrentUser } from "./lib/auth";
+import { matchesUserFilters, userFilters } from "./lib/exports";
+import { isRole } from "./lib/roles";
 
-export const getUsers = query({
+/** Users, newest first, a page at a time. */
+export const getUsers = adminQuery({
+  args: {
+    ...userFilters,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    return await filter(ctx.db.query("users").order("desc"), (user) => matchesUserFilters(user, args)).paginate(
+      args.paginationOpts,
+    );
+  },
+});
+
+/** The signed-in user's row, or null for anonymous callers. */
+export const me = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("users").collect();
+    return await getCurrentUser(ctx);
+  },
+});
+
+export const setRole = adminMutation({
+  args: {
+    id: v.id("users"),
+    role: userRole,
+  },
+  handler: async (ctx, args) => {
+    if (args.id === ctx.user._id && args.role !== "admin") {
+      throw new Error("You cannot remove your own admin role");
+    }
+    await withAudit(ctx, "user:setRole", "users", args.id, () =>
+      ctx.db.patch(args.id, { role: args.role }),
+    );
+  },
+});
+
+/**
+ * Grants a role by Clerk ID. Internal so it can bootstrap the first admin
+ * from the CLI: `npx convex run user:grantRole '{"clerkId": "...", "role": "admin"}'`.
+ */
+export const grantRole = internalMutation({
+  args: {
+    clerkId: v.string(),
+    role: userRole,
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", args.clerkId))
+      .unique();
+    if (!user) {
+      throw new Error("User not found");
+    }
+    await withAudit(ctx, "user:grantRole", "users", user._id, () =>
+      ctx.db.patch(user._id, { role: args.role }),
+    );
+  },
+});
+
+/**
+ * Applies a `user.created` or `user.updated` event. Clerk doesn't promise
+ * to deliver events in order, so ones older than what we have, or for a
+ * user that has since been deleted, are dropped.
+ */
+export const upsertFromClerk = internalMutation({
+  args: {
+    clerkId: v.string(),
+    username: v.optional(v.string()),
+    fullname: v.optional(v.string()),
+    status: v.optional(v.string()),
+    clerkUpdatedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const deleted = await ctx.db
+      .query("deletedUsers")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", args.clerkId))
+      .first();
+    if (deleted) {
+      console.warn(`Ignoring event for deleted Clerk user ID: ${args.clerkId}`);
+      return null;
+    }
+    const existing = await ctx.db
+      .query("users")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", args.clerkId))
+      .unique();
+    if (existing?.clerkUpdatedAt && args.clerkUpdatedAt && args.clerkUpdatedAt < existing.clerkUpdatedAt) {
+      console.warn(`Ignoring out-of-date event for Clerk user ID: ${args.clerkId}`);
+      return existing._id;
+    }
+    if (existing) {
+      // Roles are managed here, not in Clerk, so updates leave them alone.
+      await withAudit(ctx, "user:upsertFromClerk", "users", existing._id, () =>
+        ctx.db.patch(existing._id, args),
+      );
+      return existing._id;
+    }
+    const id = await ctx.db.insert("users", { ...args, role: "member" });
+    await recordAudit(ctx, "user:upsertFromClerk", "users", null, await ctx.db.get(id));
+    return id;
+  },
+});
+
+/**
+ * Deletes a user removed in Clerk along with what they held: their API keys
+ * and open claims are revoked and the businesses they owned are released.
+ * Reviews stay, shown without an author name. The Clerk ID is remembered
+ * in `deletedUsers` so late events can't bring the user back.
+ */
+export const deleteFromClerk = internalMutation({
+  args: {
+    clerkId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const deleted = await ctx.db
+      .query("deletedUsers")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", args.clerkId))
+      .first();
+    if (!deleted) {
+      await ctx.db.insert("deletedUsers", { clerkId: args.clerkId, deletedAt: new Date().toISOString() });
+    }
+    const existing = await ctx.db
+      .query("users")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", args.clerkId))
+      .unique();
+    if (!existing) {
+      console.warn(`Can't delete user, there is none for Clerk user ID: ${args.clerkId}`);
+      return;
+    }
+    const now = new Date().toISOString();
+
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_owner", (q) => q.eq("ownerId", existing._id))
+      .collect();
+    for (const key of keys.filter((key) => !key.revokedAt)) {
+      await withAudit(ctx, "user:deleteFromClerk", "apiKeys", key._id, () =>
+        ctx.db.patch(key._id, { revokedAt: now, revokedBy: args.clerkId }),
+      );
+    }
+
+    const claims = await ctx.db
+      .query("claims")
+      .withIndex("by_user", (q) => q.eq("userId", existing._id))
+      .collect();
+    for (const claim of claims.filter((claim) => claim.status !== "revoked")) {
+      await withAudit(ctx, "user:deleteFromClerk", "claims", claim._id, () =>
+        ctx.db.patch(claim._id, { status: "revoked", tokenHash: undefined, revokedAt: now, revokedBy: args.clerkId }),
+      );
+    }
+
+    const businesses = await ctx.db
+      .query("businesses")
+      .withIndex("by_owner", (q) => q.eq("ownerId", existing._id))
+      .collect();
+    for (const business of businesses) {
+      await withAudit(ctx, "user:deleteFromClerk", "businesses", business._id, () =>
+        ctx.db.patch(business._id, { ownerId: undefined }),
+      );
+    }
+
+    await ctx.db.delete(existing._id);
+    await recordAudit(ctx, "user:deleteFromClerk", "users", existing, null);
+  },
+});
+
+/**
+ * Resets roles that aren't one of `userRole` to "member", so `users.role`
+ * can be narrowed in the schema. Run with `npx convex run user:backfillRoles`.
+ */
+export const backfillRoles = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query("users").paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const user of page.page) {
+      if (user.role !== undefined && !isRole(user.role)) {
+        await withAudit(ctx, "user:backfillRoles", "users", user._id, () =>
+          ctx.db.patch(user._id, { role: "member" }),
+        );
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.user.backfillRoles, { cursor: page.continueCursor });
+    }
   },
 });
@@ -1,14 +1,41 @@
-import { mutation } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { waitlistStatus } from "./schema";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminQuery } from "./lib/auth";
+import { botCheck, checkBot } from "./lib/botCheck";
+import { queueEmail } from "./lib/emails";
+import { siteUrl } from "./lib/mail";
+import { rateLimit, rateLimitKeys, signedIp, verifiedIp } from "./lib/rateLimit";
+import { verifySignature } from "./lib/signing";
+import { hashToken } from "./lib/tokens";
+import { creditReferral, generateReferralCode, waitlistPosition } from "./lib/waitlist";
 
+/**
+ * Adds an email to the waitlist as unconfirmed and mails a confirmation
+ * link. Signing up again resends the link; `referralCode` credits whoever
+ * shared it once this entry is confirmed. Rate limited per email and IP,
+ * and the post must pass the bot check in `lib/botCheck`; a rejected post
+ * comes back as `{ ok: false, reason }`.
+ */
 export const addEmail = mutation({
   args: {
     email: v.string(),
     name: v.optional(v.string()),
     phone: v.optional(v.string()),
+    referralCode: v.optional(v.string()),
+    ip: v.optional(signedIp),
+    botCheck,
   },
   handler: async (ctx, args) => {
     const normalizedEmail = args.email.trim().toLowerCase();
+    await rateLimit(ctx, "waitlist:addEmail", await rateLimitKeys(ctx, { email: normalizedEmail, ip: args.ip }));
+    const rejected = await checkBot(ctx, "waitlist", args.botCheck, await verifiedIp(args.ip));
+    if (rejected) {
+      return { ok: false as const, reason: rejected };
+    }
 
     const existing = await ctx.db
       .query("waitlist")
@@ -16,16 +43,198 @@ export const addEmail = mutation({
       .unique();
 
     if (existing) {
-      return existing._id;
+      if (existing.status === "unsubscribed") {
+        await withAudit(ctx, "waitlist:addEmail", "waitlist", existing._id, () =>
+          ctx.db.patch(existing._id, { status: "unconfirmed", unsubscribedAt: undefined }),
+        );
+      }
+      if (existing.status === "unconfirmed" || existing.status === "unsubscribed") {
+        await queueEmail(ctx, "waitlistConfirmation", existing.email, { waitlistId: existing._id });
+      }
+      return { ok: true as const, id: existing._id };
     }
 
+    const code = args.referralCode?.trim().toUpperCase();
+    const referrer = code
+      ? await ctx.db
+          .query("waitlist")
+          .withIndex("by_referralCode", (q) => q.eq("referralCode", code))
+          .unique()
+      : null;
+    const now = Date.now();
     const id = await ctx.db.insert("waitlist", {
       email: normalizedEmail,
       name: args.name,
       phone: args.phone,
+      status: "unconfirmed",
+      joinedAt: new Date(now).toISOString(),
+      referralCode: await generateReferralCode(ctx),
+      referredBy: referrer?._id,
+      referralCount: 0,
+      queueScore: now,
     });
-    return id;
+    await recordAudit(ctx, "waitlist:addEmail", "waitlist", null, await ctx.db.get(id));
+    await queueEmail(ctx, "waitlistConfirmation", normalizedEmail, { waitlistId: id });
+    return { ok: true as const, id };
+  },
+});
+
+/**
+ * Stores a fresh confirmation token hash; earlier links stop working.
+ * Called by `emailSender:send` as it mails the confirmation link.
+ */
+export const setConfirmToken = internalMutation({
+  args: {
+    id: v.id("waitlist"),
+    tokenHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.id);
+    if (!entry || entry.status !== "unconfirmed") {
+      return null;
+    }
+    await withAudit(ctx, "waitlist:setConfirmToken", "waitlist", args.id, () =>
+      ctx.db.patch(args.id, { confirmTokenHash: args.tokenHash }),
+    );
+    return { email: entry.email };
+  },
+});
+
+/** Confirms an entry from the emailed link and returns its referral code. */
+export const confirmEmail = mutation({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const tokenHash = await hashToken(args.token.trim());
+    const entry = await ctx.db
+      .query("waitlist")
+      .withIndex("by_confirmTokenHash", (q) => q.eq("confirmTokenHash", tokenHash))
+      .unique();
+    if (!entry || entry.status !== "unconfirmed") {
+      throw new Error("This link is invalid or has already been used");
+    }
+    await withAudit(ctx, "waitlist:confirmEmail", "waitlist", entry._id, () =>
+      ctx.db.patch(entry._id, {
+        status: "confirmed",
+        confirmTokenHash: undefined,
+        confirmedAt: new Date().toISOString(),
+      }),
+    );
+    if (entry.referredBy) {
+      await withAudit(ctx, "waitlist:confirmEmail", "waitlist", entry.referredBy, () =>
+        creditReferral(ctx, entry),
+      );
+    }
+    return entry.referralCode ?? null;
+  },
+});
+
+/** Handles the signed unsubscribe link included in waitlist emails. */
+export const unsubscribe = mutation({
+  args: {
+    id: v.string(),
+    signature: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId("waitlist", args.id);
+    if (!id || !(await verifySignature(args.id, args.signature))) {
+      throw new Error("This unsubscribe link is invalid");
+    }
+    const entry = await ctx.db.get(id);
+    if (!entry || entry.status === "unsubscribed") {
+      return;
+    }
+    await withAudit(ctx, "waitlist:unsubscribe", "waitlist", id, () =>
+      ctx.db.patch(id, {
+        status: "unsubscribed",
+        confirmTokenHash: undefined,
+        unsubscribedAt: new Date().toISOString(),
+      }),
+    );
+  },
+});
+
+/**
+ * Queue position and referral stats for the confirmation page. Looked up by
+ * referral code, which the entrant shares publicly anyway.
+ */
+export const getWaitlistEntry = query({
+  args: {
+    referralCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query("waitlist")
+      .withIndex("by_referralCode", (q) => q.eq("referralCode", args.referralCode.trim().toUpperCase()))
+      .unique();
+    if (!entry || entry.status !== "confirmed") {
+      return null;
+    }
+    return {
+      ...(await waitlistPosition(ctx, entry)),
+      referralCount: entry.referralCount ?? 0,
+      referralCode: entry.referralCode,
+      referralLink: siteUrl(`/waitlist?ref=${entry.referralCode}`),
+    };
   },
 });
 
+/**
+ * Waitlist entries a page at a time: in queue order for one status, or
+ * newest first across all of them.
+ */
+export const getWaitlist = adminQuery({
+  args: {
+    status: v.optional(waitlistStatus),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { status } = args;
+    const entries = status
+      ? ctx.db
+          .query("waitlist")
+          .withIndex("by_status_and_queueScore", (q) => q.eq("status", status))
+      : ctx.db.query("waitlist").order("desc");
+    const result = await entries.paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ confirmTokenHash: _, ...entry }) => entry),
+    };
+  },
+});
 
+/**
+ * Marks entries from before double opt-in as confirmed and gives them a
+ * referral code. Run with `npx convex run waitlist:backfillWaitlist`.
+ */
+export const backfillWaitlist = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("waitlist")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+    for (const entry of page.page) {
+      if (entry.status) {
+        continue;
+      }
+      const referralCode = await generateReferralCode(ctx);
+      await withAudit(ctx, "waitlist:backfillWaitlist", "waitlist", entry._id, () =>
+        ctx.db.patch(entry._id, {
+          status: "confirmed",
+          joinedAt: new Date(entry._creationTime).toISOString(),
+          referralCode,
+          referralCount: 0,
+          queueScore: entry._creationTime,
+        }),
+      );
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.waitlist.backfillWaitlist, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -0,0 +1,253 @@
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { webhookDeliveryStatus, webhookEvent } from "./schema";
+import { recordAudit, withAudit } from "./lib/audit";
+import { adminMutation, adminQuery } from "./lib/auth";
+import { generateToken } from "./lib/tokens";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  queueDelivery,
+  retryDelayMs,
+  webhookSignature,
+} from "./lib/webhooks";
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+function assertWebhookUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Enter a full URL, e.g. https://example.com/webhooks");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error("Webhook URLs must use http or https");
+  }
+}
+
+export const listSubscriptions = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("webhookSubscriptions").order("desc").collect();
+  },
+});
+
+export const createSubscription = adminMutation({
+  args: {
+    url: v.string(),
+    events: v.array(webhookEvent),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const url = args.url.trim();
+    assertWebhookUrl(url);
+    if (args.events.length === 0) {
+      throw new Error("Choose at least one event");
+    }
+    const id = await ctx.db.insert("webhookSubscriptions", {
+      url,
+      secret: `whsec_${generateToken(24)}`,
+      events: [...new Set(args.events)],
+      active: true,
+      description: args.description?.trim() || undefined,
+      createdAt: new Date().toISOString(),
+      createdBy: ctx.user.clerkId,
+    });
+    await recordAudit(ctx, "webhooks:createSubscription", "webhookSubscriptions", null, await ctx.db.get(id));
+    return id;
+  },
+});
+
+export const updateSubscription = adminMutation({
+  args: {
+    id: v.id("webhookSubscriptions"),
+    url: v.optional(v.string()),
+    events: v.optional(v.array(webhookEvent)),
+    active: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { id, ...patch } = args;
+    if (patch.url !== undefined) {
+      patch.url = patch.url.trim();
+      assertWebhookUrl(patch.url);
+    }
+    if (patch.events?.length === 0) {
+      throw new Error("Choose at least one event");
+    }
+    await withAudit(ctx, "webhooks:updateSubscription", "webhookSubscriptions", id, () =>
+      ctx.db.patch(id, patch),
+    );
+  },
+});
+
+/**
+ * Deletes a subscription. Its delivery log is kept; pending deliveries fail
+ * on their next attempt without being retried.
+ */
+export const deleteSubscription = adminMutation({
+  args: {
+    id: v.id("webhookSubscriptions"),
+  },
+  handler: async (ctx, args) => {
+    const subscription = await ctx.db.get(args.id);
+    if (!subscription) {
+      return;
+    }
+    await ctx.db.delete(args.id);
+    await recordAudit(ctx, "webhooks:deleteSubscription", "webhookSubscriptions", subscription, null);
+  },
+});
+
+/** Deliveries, newest first, optionally for one subscription or status. */
+export const listDeliveries = adminQuery({
+  args: {
+    subscriptionId: v.optional(v.id("webhookSubscriptions")),
+    status: v.optional(webhookDeliveryStatus),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { subscriptionId, status } = args;
+    const deliveries = subscriptionId
+      ? ctx.db
+          .query("webhookDeliveries")
+          .withIndex("by_subscription", (q) => q.eq("subscriptionId", subscriptionId))
+      : status
+        ? ctx.db.query("webhookDeliveries").withIndex("by_status", (q) => q.eq("status", status))
+        : ctx.db.query("webhookDeliveries");
+    const filtered =
+      subscriptionId && status ? deliveries.filter((q) => q.eq(q.field("status"), status)) : deliveries;
+    return await filtered.order("desc").paginate(args.paginationOpts);
+  },
+});
+
+/** Sends a delivery's payload again as a new delivery with fresh retries. */
+export const replayDelivery = adminMutation({
+  args: {
+    id: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.id);
+    if (!delivery) {
+      throw new Error("Delivery not found");
+    }
+    if (!(await ctx.db.get(delivery.subscriptionId))) {
+      throw new Error("The subscription for this delivery has been deleted");
+    }
+    return await queueDelivery(
+      ctx,
+      delivery.subscriptionId,
+      delivery.event,
+      delivery.payload,
+      delivery.replayOf ?? delivery._id,
+    );
+  },
+});
+
+export const loadDelivery = internalQuery({
+  args: {
+    id: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.id);
+    if (!delivery || delivery.status !== "pending") {
+      return null;
+    }
+    const subscription = await ctx.db.get(delivery.subscriptionId);
+    return { delivery, subscription };
+  },
+});
+
+/**
+ * Records one delivery attempt. A failure is retried after
+ * `retryDelayMs(attempts)` until MAX_DELIVERY_ATTEMPTS have been made,
+ * unless it is `final`, e.g. because the subscription is gone.
+ */
+export const recordAttempt = internalMutation({
+  args: {
+    id: v.id("webhookDeliveries"),
+    ok: v.boolean(),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    final: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.id);
+    if (!delivery) {
+      return;
+    }
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+    const retry = !args.ok && !args.final && attempts < MAX_DELIVERY_ATTEMPTS;
+    await ctx.db.patch(args.id, {
+      attempts,
+      status: args.ok ? "succeeded" : retry ? "pending" : "failed",
+      lastAttemptAt: new Date(now).toISOString(),
+      lastStatusCode: args.statusCode,
+      lastError: args.error,
+      nextAttemptAt: retry ? new Date(now + retryDelayMs(attempts)).toISOString() : undefined,
+    });
+    if (retry) {
+      await ctx.scheduler.runAfter(retryDelayMs(attempts), internal.webhooks.deliver, { id: args.id });
+    }
+  },
+});
+
+export const deliver = internalAction({
+  args: {
+    id: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args) => {
+    const loaded = await ctx.runQuery(internal.webhooks.loadDelivery, { id: args.id });
+    if (!loaded) {
+      return;
+    }
+    const { delivery, subscription } = loaded;
+    if (!subscription || !subscription.active) {
+      await ctx.runMutation(internal.webhooks.recordAttempt, {
+        id: args.id,
+        ok: false,
+        error: subscription ? "Subscription is paused" : "Subscription was deleted",
+        final: true,
+      });
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+    try {
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "onfindr-webhooks/1",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": delivery.replayOf ?? delivery._id,
+          "X-Webhook-Signature": await webhookSignature(subscription.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        signal: controller.signal,
+      });
+      await ctx.runMutation(internal.webhooks.recordAttempt, {
+        id: args.id,
+        ok: response.ok,
+        statusCode: response.status,
+        error: response.ok ? undefined : (await response.text()).slice(0, 500) || response.statusText,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.webhooks.recordAttempt, {
+        id: args.id,
+        ok: false,
+        error: controller.signal.aborted
+          ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+          : error instanceof Error
+            ? error.message
+            : String(error),
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+});
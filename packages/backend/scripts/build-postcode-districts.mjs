@@ -0,0 +1,57 @@
+// Rebuilds convex/lib/postcodeDistricts.ts from the ONS Postcode Directory
+// (ONSPD, free from the ONS Open Geography Portal): each district's centroid
+// is the mean position of its live postcodes.
+//
+//   node scripts/build-postcode-districts.mjs ~/Downloads/ONSPD_*.csv
+import { createReadStream } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+
+const [csvPath] = process.argv.slice(2);
+if (!csvPath) {
+	console.error("Usage: node scripts/build-postcode-districts.mjs <ONSPD csv>");
+	process.exit(1);
+}
+
+// ONSPD has no quoted commas in the columns read here.
+const lines = createInterface({ input: createReadStream(csvPath), crlfDelay: Infinity });
+const sums = new Map();
+let columns;
+for await (const line of lines) {
+	const fields = line.split(",").map((field) => field.replace(/^"|"$/g, ""));
+	if (!columns) {
+		columns = Object.fromEntries(fields.map((name, index) => [name.toLowerCase(), index]));
+		continue;
+	}
+	const postcode = fields[columns.pcds];
+	const latitude = Number(fields[columns.lat]);
+	const longitude = Number(fields[columns.long]);
+	// Terminated postcodes and ones without a grid reference (lat 99.999999).
+	if (!postcode || fields[columns.doterm] || !(Math.abs(latitude) <= 90)) {
+		continue;
+	}
+	const district = postcode.split(" ")[0];
+	const sum = sums.get(district) ?? { latitude: 0, longitude: 0, count: 0 };
+	sum.latitude += latitude;
+	sum.longitude += longitude;
+	sum.count += 1;
+	sums.set(district, sum);
+}
+
+const round = (value) => Math.round(value * 1000) / 1000;
+const entries = [...sums]
+	.sort(([a], [b]) => a.localeCompare(b, "en", { numeric: true }))
+	.map(([district, sum]) => {
+		const key = /^[A-Z][A-Z0-9]*$/.test(district) ? district : JSON.stringify(district);
+		return `  ${key}: [${round(sum.latitude / sum.count)}, ${round(sum.longitude / sum.count)}],`;
+	});
+
+const output = `// Centroids of UK postcode districts (outward codes, e.g. "LS6"), used to
+// place an address from its postcode without a geocoding service. Built by
+// scripts/build-postcode-districts.mjs from the ONS Postcode Directory.
+export const POSTCODE_DISTRICT_CENTROIDS: Record<string, [latitude: number, longitude: number]> = {
+${entries.join("\n")}
+};
+`;
+await writeFile(new URL("../convex/lib/postcodeDistricts.ts", import.meta.url), output);
+console.log(`Wrote ${entries.length} districts`);
@@ -0,0 +1,37 @@
+// Signs a Clerk webhook fixture with CLERK_WEBHOOK_SECRET and posts it to the
+// deployment's HTTP endpoint, so the sync can be exercised without Clerk.
+//
+//   CONVEX_SITE_URL=https://<deployment>.convex.site \
+//   CLERK_WEBHOOK_SECRET=whsec_... \
+//   node scripts/post-clerk-webhook.mjs user.created
+import { readFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { Webhook } from "svix";
+
+const [eventType = "user.created"] = process.argv.slice(2);
+const siteUrl = process.env.CONVEX_SITE_URL;
+const secret = process.env.CLERK_WEBHOOK_SECRET;
+if (!siteUrl || !secret) {
+	console.error("CONVEX_SITE_URL and CLERK_WEBHOOK_SECRET must be set");
+	process.exit(1);
+}
+
+const payload = await readFile(
+	new URL(`../fixtures/clerk/${eventType}.json`, import.meta.url),
+	"utf8",
+);
+const msgId = `msg_${randomUUID()}`;
+const timestamp = new Date();
+const signature = new Webhook(secret).sign(msgId, timestamp, payload);
+
+const response = await fetch(new URL("/clerk-users-webhook", siteUrl), {
+	method: "POST",
+	headers: {
+		"content-type": "application/json",
+		"svix-id": msgId,
+		"svix-timestamp": String(Math.floor(timestamp.getTime() / 1000)),
+		"svix-signature": signature,
+	},
+	body: payload,
+});
+console.log(`${eventType}: ${response.status} ${await response.text()}`);
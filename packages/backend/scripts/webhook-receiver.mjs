@@ -0,0 +1,65 @@
+// A local stand-in for a webhook subscriber. It checks X-Webhook-Signature
+// with WEBHOOK_SECRET and logs each delivery; FAIL_RATE makes that share of
+// requests answer 500 so retries can be watched in the admin delivery log.
+//
+//   WEBHOOK_SECRET=whsec_... PORT=4000 FAIL_RATE=0.5 \
+//   node scripts/webhook-receiver.mjs
+//
+// A cloud deployment can't reach localhost, so expose the port with a tunnel
+// (e.g. `cloudflared tunnel --url http://localhost:4000`) and subscribe that URL.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const secret = process.env.WEBHOOK_SECRET;
+const port = Number(process.env.PORT ?? 4000);
+const failRate = Number(process.env.FAIL_RATE ?? 0);
+const toleranceSeconds = 5 * 60;
+if (!secret) {
+	console.error("WEBHOOK_SECRET must be set");
+	process.exit(1);
+}
+
+function verify(header, body) {
+	const parts = Object.fromEntries(
+		(header ?? "").split(",").map((part) => part.split("=", 2)),
+	);
+	const timestamp = Number(parts.t);
+	if (!timestamp || !parts.v1) {
+		return "missing signature";
+	}
+	if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+		return "stale timestamp";
+	}
+	const expected = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest();
+	const actual = Buffer.from(parts.v1, "hex");
+	return actual.length === expected.length && timingSafeEqual(actual, expected)
+		? null
+		: "bad signature";
+}
+
+createServer(async (request, response) => {
+	const chunks = [];
+	for await (const chunk of request) {
+		chunks.push(chunk);
+	}
+	const body = Buffer.concat(chunks).toString("utf8");
+	const event = request.headers["x-webhook-event"];
+	const delivery = request.headers["x-webhook-delivery"];
+
+	const problem = verify(request.headers["x-webhook-signature"], body);
+	if (problem) {
+		console.log(`✗ ${event} ${delivery}: ${problem}`);
+		response.writeHead(401).end(problem);
+		return;
+	}
+	if (Math.random() < failRate) {
+		console.log(`… ${event} ${delivery}: failing on purpose`);
+		response.writeHead(500).end("simulated failure");
+		return;
+	}
+	console.log(`✓ ${event} ${delivery}`);
+	console.log(JSON.stringify(JSON.parse(body), null, 2));
+	response.writeHead(204).end();
+}).listen(port, () => {
+	console.log(`Listening for webhooks on http://localhost:${port}`);
+});